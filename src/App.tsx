@@ -5,6 +5,7 @@ import { TooltipProvider } from "@/components/ui/tooltip";
 import { QueryClient, QueryClientProvider } from "@tanstack/react-query";
 import { BrowserRouter, Routes, Route } from "react-router-dom";
 import { AuthProvider } from "@/hooks/useAuth";
+import { VaultUnlockDialog } from "@/components/VaultUnlockDialog";
 import Index from "./pages/Index";
 import Settings from "./pages/Settings";
 import Auth from "./pages/Auth";
@@ -25,6 +26,7 @@ const App = () => {
     <TooltipProvider>
       <Toaster />
       <Sonner />
+      <VaultUnlockDialog />
       <AuthProvider>
         <BrowserRouter>
           <Routes>
@@ -1,31 +1,59 @@
-import { useState } from "react";
+import { useRef, useState } from "react";
 import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogTrigger } from "@/components/ui/dialog";
 import { Button } from "@/components/ui/button";
 import { Input } from "@/components/ui/input";
 import { Label } from "@/components/ui/label";
+import { Switch } from "@/components/ui/switch";
 import { Calendar } from "@/components/ui/calendar";
 import { Popover, PopoverContent, PopoverTrigger } from "@/components/ui/popover";
-import { CalendarIcon, Plus, Bot, AlertCircle } from "lucide-react";
+import { CalendarIcon, Plus, Bot, AlertCircle, ScanBarcode, QrCode, History } from "lucide-react";
 import { format } from "date-fns";
 import { ptBR } from "date-fns/locale";
 import { cn } from "@/lib/utils";
 import { Bill } from "./BillsList";
 import { FileUploader } from "./FileUploader";
-import { analyzeBillWithAI, getApiKey } from "@/lib/ocr-service";
+import { analyzeBillWithAI, getApiKey, isAbortError, isAIConfigured, type BillAnalysisResult } from "@/lib/ocr-service";
+import { extractBillFromPdfText, TEXT_ANALYSIS_MIN_CONFIDENCE } from "@/lib/pdf-text-extractor";
+import { getProvider } from "@/lib/providers";
 import { useToast } from "@/hooks/use-toast";
 import { isPdfFile, convertPdfToJpeg } from "@/lib/pdf-converter";
+import { crossCheckBoleto, suggestCategoryFromBarcode, dueDateFromBarcode, formatLinhaDigitavel, normalizeBarcode, type BoletoCrossCheck } from "@/lib/boleto";
+import { scanBoletoBarcode, type BarcodeScanResult } from "@/lib/barcode-scanner";
+import { parsePixBrCode } from "@/lib/pix";
+import { scanPixQrCode, type PixQrScanResult } from "@/lib/qr-scanner";
+import { findDuplicateBill, getMergePatch, type DuplicateMatch } from "@/lib/duplicates";
+import { DuplicateBillDialog, type NewBill } from "./DuplicateBillDialog";
+import { CarneReviewDialog } from "./CarneReviewDialog";
+import { FieldEvidencePreview } from "./FieldEvidencePreview";
+import { LOW_FIELD_CONFIDENCE, type BillField } from "@/lib/bill-schema";
+import { detectCarneSlips, type CarneDetection } from "@/lib/carne";
+import { invalidateCachedFile } from "@/lib/analysis-cache";
+import { calculateAmountDue } from "@/lib/late-fees";
+import { FALLBACK_CATEGORY } from "@/lib/categories";
+import { useCategories } from "@/hooks/use-categories";
+import { CategorySelect } from "./CategorySelect";
 
 interface AddBillModalProps {
-  onAddBill: (bill: Omit<Bill, "id" | "status">) => void;
+  onAddBill: (bill: NewBill) => void;
+  onMergeBill?: (billId: string, patch: Partial<NewBill>) => void;
+  onAddInstallments?: (bills: NewBill[]) => void; // Parcelas de um carnê, salvas em lote
+  bills?: Bill[]; // Contas já cadastradas, para detectar duplicatas
 }
 
-export const AddBillModal = ({ onAddBill }: AddBillModalProps) => {
+export const AddBillModal = ({ onAddBill, onMergeBill, onAddInstallments, bills = [] }: AddBillModalProps) => {
+  const { categories } = useCategories();
   const [isOpen, setIsOpen] = useState(false);
   const [beneficiary, setBeneficiary] = useState("");
   const [amount, setAmount] = useState("");
   const [dueDate, setDueDate] = useState<Date>();
   const [category, setCategory] = useState("");
   const [barcode, setBarcode] = useState("");
+  const [pixPayload, setPixPayload] = useState("");
+  // Condições de pagamento: multa (%), juros de mora (% ao dia) e desconto até uma data
+  const [finePercent, setFinePercent] = useState("");
+  const [dailyInterestPercent, setDailyInterestPercent] = useState("");
+  const [discountAmount, setDiscountAmount] = useState("");
+  const [discountUntil, setDiscountUntil] = useState<Date>();
   const [selectedFile, setSelectedFile] = useState<File | null>(null);
   const [selectedFiles, setSelectedFiles] = useState<File[]>([]);
   const [uploadMode, setUploadMode] = useState<"upload" | "manual">("upload");
@@ -33,9 +61,109 @@ export const AddBillModal = ({ onAddBill }: AddBillModalProps) => {
   const [analysisComplete, setAnalysisComplete] = useState(false);
   const [aiSummary, setAiSummary] = useState<string | null>(null);
   const [analysisResult, setAnalysisResult] = useState<any>(null);
+  // Origem do resumo exibido: IA ou leitura local do texto do PDF
+  const [analysisSource, setAnalysisSource] = useState<"ai" | "text" | null>(null);
+  // Modo offline: o arquivo nunca é enviado à IA
+  const [offlineMode, setOfflineMode] = useState(false);
+  // Permite cancelar a análise em andamento quando o arquivo é removido
+  const analysisControllerRef = useRef<AbortController | null>(null);
+  const [isScanning, setIsScanning] = useState(false);
+  const [scanResult, setScanResult] = useState<BarcodeScanResult | null>(null);
+  const [pixScanResult, setPixScanResult] = useState<PixQrScanResult | null>(null);
+  // Chave (linha + valor + vencimento) cuja divergência o usuário já viu e decidiu salvar mesmo assim
+  const [acknowledgedCheckKey, setAcknowledgedCheckKey] = useState<string | null>(null);
+  // Cadastro aguardando decisão do usuário sobre a possível duplicata
+  const [pendingDuplicate, setPendingDuplicate] = useState<{ bill: NewBill; match: DuplicateMatch<Bill> } | null>(null);
+  // Carnê (vários boletos no mesmo PDF) aguardando a revisão das parcelas
+  const [carneDetection, setCarneDetection] = useState<CarneDetection | null>(null);
   const { toast } = useToast();
 
-  const formatBarcode = (value: string) => value.replace(/\D/g, '').replace(/(.{4})/g, '$1 ').trim();
+  // Linhas completas (47/48 dígitos) ganham o agrupamento oficial; o restante fica em grupos de 4
+  const formatBarcode = (value: string) => {
+    const digits = value.replace(/\D/g, '');
+    return digits.length === 47 || digits.length === 48
+      ? formatLinhaDigitavel(digits)
+      : digits.replace(/(.{4})/g, '$1 ').trim();
+  };
+
+  const parseAmount = (value: string) => parseFloat(value.replace(/[^\d,]/g, '').replace(',', '.'));
+
+  // Percentuais opcionais digitados com vírgula ou ponto; vazio ou zero = sem cobrança
+  const parsePercent = (value: string) => {
+    const parsed = parseFloat(value.replace(',', '.'));
+    return Number.isFinite(parsed) && parsed > 0 ? parsed : undefined;
+  };
+
+  // Converter YYYY-MM-DD em data local, evitando problemas de timezone
+  const parseISODate = (isoDate: string) => {
+    const [year, month, day] = isoDate.split('-').map(Number);
+    return new Date(year, month - 1, day);
+  };
+
+  // Conferência offline da linha digitável contra os dados do formulário
+  const barcodeDigits = barcode.replace(/\D/g, '');
+  // Sem data informada, o vencimento vem do fator do código de barras (quando houver)
+  const barcodeDueDate = dueDateFromBarcode(barcodeDigits);
+  const effectiveDueDate = dueDate ?? (barcodeDueDate ? parseISODate(barcodeDueDate) : undefined);
+  const formCheck = crossCheckBoleto(barcodeDigits, {
+    amount: amount ? parseAmount(amount) : null,
+    dueDate: dueDate ? format(dueDate, "yyyy-MM-dd") : null,
+  });
+  const formCheckKey = `${barcodeDigits}|${amount}|${dueDate ? format(dueDate, "yyyy-MM-dd") : ""}`;
+  const hasBarcodeIssues = formCheck.status === "invalid" || formCheck.status === "mismatch";
+
+  // Conferência da linha digitável (da IA ou, na falta dela, a lida localmente)
+  // contra o valor e vencimento extraídos pela IA
+  const analysisCheck: BoletoCrossCheck | null = analysisResult
+    ? crossCheckBoleto(analysisResult.barcode || scanResult?.barcode, { amount: analysisResult.amount, dueDate: analysisResult.dueDate })
+    : null;
+
+  // O código lido localmente confere com o informado pela IA?
+  const aiBarcode = analysisResult?.barcode ? normalizeBarcode(String(analysisResult.barcode))?.barcode : undefined;
+  const scanMatchesAI = scanResult && aiBarcode ? scanResult.barcode === aiBarcode : null;
+
+  // Campos lidos com baixa confiança ficam destacados no formulário até o salvamento
+  const needsReview = (field: BillField) =>
+    analysisComplete && (analysisResult?.fields?.[field]?.confidence ?? 1) < LOW_FIELD_CONFIDENCE;
+  const reviewClass = (field: BillField) => needsReview(field) && "border-amber-500 focus-visible:ring-amber-500";
+
+  const getProviderName = (id: string) => getProvider(id)?.displayName ?? id;
+
+  const paymentTerms = {
+    finePercent: parsePercent(finePercent),
+    dailyInterestPercent: parsePercent(dailyInterestPercent),
+    discountAmount: discountAmount && discountUntil ? parseAmount(discountAmount) || undefined : undefined,
+    discountUntil: discountAmount && discountUntil ? format(discountUntil, "yyyy-MM-dd") : undefined,
+  };
+  // Prévia do valor a pagar hoje com as condições informadas
+  const amountDueToday = amount && effectiveDueDate
+    ? calculateAmountDue({ amount: parseAmount(amount), dueDate: format(effectiveDueDate, "yyyy-MM-dd"), ...paymentTerms })
+    : null;
+
+  // Validação do PIX copia e cola (estrutura TLV e CRC16)
+  const pixCheck = pixPayload.trim() ? parsePixBrCode(pixPayload) : null;
+  const pixAmount = pixCheck?.valid ? pixCheck.pix?.amount : undefined;
+  const hasPixAmountMismatch = pixAmount !== undefined && !!amount && Math.abs(pixAmount - parseAmount(amount)) >= 0.01;
+
+  // Segmento de guias de arrecadação (água, energia, tributos...) sugere a categoria
+  const formSegment = formCheck.boleto?.kind === "arrecadacao" ? formCheck.boleto.segment : null;
+
+  const handleBarcodeChange = (value: string) => {
+    setBarcode(formatBarcode(value));
+    const suggestedCategory = suggestCategoryFromBarcode(value);
+    if (suggestedCategory && !category) {
+      setCategory(suggestedCategory);
+    }
+    const derivedDueDate = dueDateFromBarcode(value);
+    if (derivedDueDate && !dueDate) {
+      setDueDate(parseISODate(derivedDueDate));
+    }
+  };
+
+  const getCheckMessages = (check: BoletoCrossCheck) =>
+    check.status === "invalid"
+      ? ["Linha digitável inválida:", ...check.errors]
+      : check.mismatches.map((mismatch) => mismatch.message);
 
   const handleSubmit = (e: React.FormEvent) => {
     e.preventDefault();
@@ -47,33 +175,93 @@ export const AddBillModal = ({ onAddBill }: AddBillModalProps) => {
     }
     
     // Se estiver no modo manual, exigir todos os campos
-    if (uploadMode === "manual" && (!beneficiary || !amount || !dueDate)) {
+    if (uploadMode === "manual" && (!beneficiary || !amount || !effectiveDueDate)) {
       return;
     }
     
     // Se não há arquivo e não há dados manuais, não permitir
-    if (!selectedFile && (!beneficiary || !amount || !dueDate)) {
+    if (!selectedFile && (!beneficiary || !amount || !effectiveDueDate)) {
       return;
     }
 
-    const barcodeDigits = barcode.replace(/\D/g, '');
+    if (pixCheck && !pixCheck.valid) {
+      toast({
+        variant: "destructive",
+        title: "PIX copia e cola inválido",
+        description: "Corrija o código PIX ou apague o campo para salvar.",
+      });
+      return;
+    }
+
+    // Divergências entre a linha digitável e os dados exigem uma segunda confirmação
+    if (hasBarcodeIssues && acknowledgedCheckKey !== formCheckKey) {
+      setAcknowledgedCheckKey(formCheckKey);
+      toast({
+        variant: "destructive",
+        title: formCheck.status === "invalid" ? "Linha digitável inválida" : "Dados divergentes do código de barras",
+        description: "Revise os avisos abaixo do campo de linha digitável. Clique em salvar novamente para confirmar.",
+      });
+      return;
+    }
 
-    const bill = {
+    const bill: NewBill = {
       beneficiary: beneficiary || `Boleto ${selectedFile?.name?.split('.')[0] || 'Importado'}`,
-      amount: amount ? parseFloat(amount.replace(/[^\d,]/g, '').replace(',', '.')) : 0,
-      dueDate: dueDate ? dueDate.toISOString().split('T')[0] : new Date().toISOString().split('T')[0],
-      category: category || "Importado",
-      ...(barcodeDigits ? { barcode: barcodeDigits } : {})
+      amount: amount ? parseAmount(amount) : 0,
+      dueDate: effectiveDueDate ? effectiveDueDate.toISOString().split('T')[0] : new Date().toISOString().split('T')[0],
+      category: category || FALLBACK_CATEGORY,
+      ...(barcodeDigits ? { barcode: barcodeDigits } : {}),
+      ...(pixCheck?.valid ? { pixPayload: pixCheck.pix!.payload } : {}),
+      ...paymentTerms
     };
 
+    const match = findDuplicateBill(bill, bills);
+    if (match) {
+      setPendingDuplicate({ bill, match });
+      return;
+    }
+
     onAddBill(bill);
-    
-    // Reset form
+    resetForm();
+  };
+
+  const handleSkipDuplicate = () => {
+    toast({
+      title: "Boleto ignorado",
+      description: "A conta já cadastrada foi mantida sem alterações.",
+    });
+    resetForm();
+  };
+
+  const handleMergeDuplicate = () => {
+    if (!pendingDuplicate) return;
+    const { bill, match } = pendingDuplicate;
+    onMergeBill?.(match.bill.id, getMergePatch(match.bill, bill));
+    resetForm();
+  };
+
+  const handleKeepBothDuplicates = () => {
+    if (!pendingDuplicate) return;
+    onAddBill(pendingDuplicate.bill);
+    resetForm();
+  };
+
+  const cancelAnalysis = () => {
+    analysisControllerRef.current?.abort();
+    analysisControllerRef.current = null;
+  };
+
+  const resetForm = () => {
+    cancelAnalysis();
     setBeneficiary("");
     setAmount("");
     setDueDate(undefined);
     setCategory("");
     setBarcode("");
+    setPixPayload("");
+    setFinePercent("");
+    setDailyInterestPercent("");
+    setDiscountAmount("");
+    setDiscountUntil(undefined);
     setSelectedFile(null);
     setSelectedFiles([]);
     setAnalysisComplete(false);
@@ -81,10 +269,16 @@ export const AddBillModal = ({ onAddBill }: AddBillModalProps) => {
     setUploadMode("upload");
     setAiSummary(null);
     setAnalysisResult(null);
+    setAnalysisSource(null);
+    setScanResult(null);
+    setPixScanResult(null);
+    setAcknowledgedCheckKey(null);
+    setPendingDuplicate(null);
+    setCarneDetection(null);
     setIsOpen(false);
   };
 
-  const handleFileSelect = async (originalFile: File) => {
+  const handleFileSelect = async (originalFile: File, { skipCache = false } = {}) => {
     console.log('📄 Arquivo recebido:', originalFile.name, 'Tipo:', originalFile.type, 'Tamanho:', originalFile.size);
     
     // Novo fluxo: PDFs são processados diretamente
@@ -96,18 +290,75 @@ export const AddBillModal = ({ onAddBill }: AddBillModalProps) => {
     console.log('  - Arquivo salvo:', originalFile.name);
     console.log('  - Tipo:', originalFile.type);
 
-    // Verificar API key para análise automática
-    const apiKey = getApiKey();
-    if (!apiKey) {
-      console.log('🔑 API key não configurada - parando análise automática');
+    // Remover o arquivo ou fechar o modal cancela também a detecção de carnê e as leituras locais
+    cancelAnalysis();
+    const controller = new AbortController();
+    analysisControllerRef.current = controller;
+    const releaseController = () => {
+      if (analysisControllerRef.current === controller) analysisControllerRef.current = null;
+    };
+
+    // Carnês viram parcelas revisadas em lote, em vez de uma única conta
+    const carne = onAddInstallments ? await runCarneDetection(originalFile, controller.signal) : null;
+    if (controller.signal.aborted) return;
+    if (carne) {
+      releaseController();
+      setCarneDetection(carne);
       toast({
-        variant: "destructive",
-        title: "API key não configurada",
-        description: "Configure a chave da API de IA nas configurações para análise automática.",
+        title: "Carnê identificado",
+        description: `Encontramos ${carne.slips.length} boletos no PDF. Revise as parcelas antes de salvar.`,
       });
+      return;
+    }
+
+    // Verificar API key (ou endpoint local) para análise automática
+    const apiKey = getApiKey();
+    if (offlineMode || !isAIConfigured()) {
+      console.log(offlineMode ? '📴 Modo offline - lendo o arquivo localmente' : '🔑 IA não configurada - lendo o arquivo localmente');
+      const [scan, pixScan, textAnalysis] = await Promise.all([
+        runBarcodeScan(originalFile),
+        runPixQrScan(originalFile),
+        runTextExtraction(originalFile),
+      ]);
+      if (controller.signal.aborted) return;
+      releaseController();
+
+      if (scan) {
+        applyScanResult(scan);
+      }
+
+      if (textAnalysis) {
+        showAnalysis(textAnalysis, "text");
+        toast({
+          title: "Boleto lido do texto do PDF",
+          description: `Resumo gerado sem IA com ${Math.round(textAnalysis.confidence * 100)}% de confiança. Revise o resumo abaixo.`,
+        });
+      } else if (scan) {
+        toast({
+          title: "Código de barras encontrado",
+          description: `Valor e vencimento foram preenchidos a partir do código de barras${pixScan ? " e o PIX foi lido do QR Code" : ""}. Complete os demais campos.`,
+        });
+      } else if (pixScan) {
+        toast({
+          title: "QR Code PIX encontrado",
+          description: "O PIX copia e cola foi lido do arquivo. Complete os demais campos.",
+        });
+      } else if (offlineMode) {
+        toast({
+          variant: "destructive",
+          title: "Nada encontrado no arquivo",
+          description: "Não encontramos o texto nem o código de barras do boleto. Preencha os campos manualmente.",
+        });
+      } else {
+        toast({
+          variant: "destructive",
+          title: "API key não configurada",
+          description: "Não encontramos o código de barras no arquivo. Configure a chave da API de IA nas configurações para análise automática.",
+        });
+      }
       
       // Preenchimento básico baseado no nome do arquivo
-      if (!beneficiary) {
+      if (!beneficiary && !textAnalysis?.beneficiary) {
         const fileName = originalFile.name.split('.')[0];
         setBeneficiary(`Boleto ${fileName}`);
       }
@@ -119,6 +370,7 @@ export const AddBillModal = ({ onAddBill }: AddBillModalProps) => {
     const isImage = originalFile.type.startsWith('image/');
     
     if (!isPDF && !isImage) {
+      releaseController();
       console.error('❌ Tipo de arquivo não suportado:', originalFile.type);
       toast({
         variant: "destructive",
@@ -135,13 +387,30 @@ export const AddBillModal = ({ onAddBill }: AddBillModalProps) => {
     console.log('   Tamanho:', originalFile.size, 'bytes');
     
     setIsAnalyzing(true);
+    // Leitura local em paralelo, para conferir o código de barras informado pela IA
+    const scanPromise = Promise.all([runBarcodeScan(originalFile), runPixQrScan(originalFile)]);
+    let textAnalysis: BillAnalysisResult | null = null;
     
     try {
+      // Primeira leitura, gratuita: PDFs com texto legível e linha digitável conferida dispensam a IA
+      textAnalysis = isPDF ? await runTextExtraction(originalFile) : null;
+      if (controller.signal.aborted) return;
+      if (textAnalysis && textAnalysis.confidence >= TEXT_ANALYSIS_MIN_CONFIDENCE) {
+        await scanPromise;
+        if (controller.signal.aborted) return;
+        showAnalysis(textAnalysis, "text");
+        toast({
+          title: "Boleto lido do texto do PDF",
+          description: `Dados lidos com ${Math.round(textAnalysis.confidence * 100)}% de confiança, sem consumir a IA. Revise o resumo abaixo.`,
+        });
+        return;
+      }
+
       // Nova implementação: suporte direto a PDF e imagem
       if (isPDF) {
         toast({
           title: "Analisando PDF",
-          description: "A IA está lendo o PDF e gerando arquivo TXT intermediário...",
+          description: "A IA está lendo o PDF do boleto...",
         });
       } else {
         toast({
@@ -150,63 +419,206 @@ export const AddBillModal = ({ onAddBill }: AddBillModalProps) => {
         });
       }
       
-      const analysis = await analyzeBillWithAI(originalFile, apiKey);
+      const analysis = await analyzeBillWithAI(originalFile, apiKey, { signal: controller.signal, skipCache });
       
       console.log('✅ Análise da IA concluída:', analysis);
+      await scanPromise;
+      if (controller.signal.aborted) return;
       
       // Salvar resultado da análise e mostrar resumo
-      setAnalysisResult(analysis);
-      setAiSummary(analysis.summary);
-      setAnalysisComplete(true);
+      showAnalysis(analysis, "ai");
       
+      if (analysis.cachedAt) {
+        toast({
+          title: "Resultado reaproveitado",
+          description: `Este arquivo já foi analisado em ${format(new Date(analysis.cachedAt), "dd/MM/yyyy 'às' HH:mm")}; nenhuma nova chamada à IA foi feita. Revise o resumo abaixo.`,
+        });
+        return;
+      }
+
       toast({
-        title: "Análise concluída!",
-        description: `Resumo gerado com ${Math.round(analysis.confidence * 100)}% de confiança. Revise o resumo abaixo.`,
+        title: analysis.usedFallback ? "Análise concluída com provedor reserva" : "Análise concluída!",
+        description: analysis.usedFallback
+          ? `${analysis.failedProviders.map(getProviderName).join(", ")} falhou; o resumo foi gerado com ${getProviderName(analysis.provider)} (${Math.round(analysis.confidence * 100)}% de confiança). Revise o resumo abaixo.`
+          : `Resumo gerado com ${Math.round(analysis.confidence * 100)}% de confiança. Revise o resumo abaixo.`,
       });
     } catch (error) {
+      if (isAbortError(error) || controller.signal.aborted) {
+        console.log('⏹️ Análise da IA cancelada');
+        return;
+      }
       console.error('❌ Erro na análise da IA:', error);
       toast({
         variant: "destructive",
         title: "Erro na análise",
-        description: error instanceof Error ? error.message : "Erro ao analisar o arquivo",
+        description: `${error instanceof Error ? error.message : "Erro ao analisar o arquivo"}${textAnalysis ? " Exibindo os dados lidos do texto do PDF." : ""}`,
       });
       
-      // Preenchimento básico em caso de erro
-      if (!beneficiary) {
+      // A leitura do texto, mesmo com baixa confiança, é melhor que nada
+      if (textAnalysis) {
+        showAnalysis(textAnalysis, "text");
+      } else if (!beneficiary) {
         const fileName = originalFile.name.split('.')[0];
         setBeneficiary(`Boleto ${fileName}`);
       }
     } finally {
-      setIsAnalyzing(false);
+      // Uma análise cancelada não encerra a de um novo arquivo
+      if (analysisControllerRef.current === controller) {
+        analysisControllerRef.current = null;
+        setIsAnalyzing(false);
+      }
+    }
+  };
+
+  // Descarta o resultado em cache deste arquivo e chama a IA de novo
+  const handleReanalyze = async () => {
+    if (!selectedFile) return;
+    try {
+      await invalidateCachedFile(selectedFile);
+    } catch (error) {
+      console.error('❌ Erro ao limpar o cache do arquivo:', error);
+    }
+    handleFileSelect(selectedFile, { skipCache: true });
+  };
+
+  const showAnalysis = (result: BillAnalysisResult, source: "ai" | "text") => {
+    setAnalysisResult(result);
+    setAiSummary(result.summary);
+    setAnalysisSource(source);
+    setAnalysisComplete(true);
+  };
+
+  // Lê a camada de texto do PDF sem IA; imagens, PDFs escaneados e falhas resultam em null
+  const runTextExtraction = async (file: File): Promise<BillAnalysisResult | null> => {
+    if (!isPdfFile(file)) return null;
+    try {
+      return await extractBillFromPdfText(file);
+    } catch (error) {
+      console.error('❌ Erro na leitura do texto do PDF:', error);
+      return null;
+    }
+  };
+
+  // Procura vários boletos no mesmo PDF; com menos de dois, segue o fluxo de conta única
+  const runCarneDetection = async (file: File, signal: AbortSignal): Promise<CarneDetection | null> => {
+    if (!isPdfFile(file)) return null;
+    setIsScanning(true);
+    try {
+      const detection = await detectCarneSlips(file, { signal });
+      return detection.slips.length > 1 ? detection : null;
+    } catch (error) {
+      if (isAbortError(error)) return null;
+      console.error('❌ Erro na detecção de carnê:', error);
+      return null;
+    } finally {
+      setIsScanning(false);
+    }
+  };
+
+  const handleConfirmInstallments = (installments: NewBill[]) => {
+    onAddInstallments?.(installments);
+    resetForm();
+  };
+
+  // Lê o código de barras da imagem/PDF sem IA; falhas apenas resultam em null
+  const runBarcodeScan = async (file: File): Promise<BarcodeScanResult | null> => {
+    setIsScanning(true);
+    try {
+      const scan = await scanBoletoBarcode(file);
+      setScanResult(scan);
+      return scan;
+    } catch (error) {
+      console.error('❌ Erro na leitura local do código de barras:', error);
+      return null;
+    } finally {
+      setIsScanning(false);
+    }
+  };
+
+  // Lê o QR Code PIX da imagem/PDF e já preenche o campo quando o CRC confere
+  const runPixQrScan = async (file: File): Promise<PixQrScanResult | null> => {
+    try {
+      const pixScan = await scanPixQrCode(file);
+      setPixScanResult(pixScan);
+      if (pixScan) {
+        setPixPayload(pixScan.pix.payload);
+      }
+      return pixScan;
+    } catch (error) {
+      console.error('❌ Erro na leitura local do QR Code:', error);
+      return null;
+    }
+  };
+
+  const applyScanResult = (scan: BarcodeScanResult) => {
+    setBarcode(formatLinhaDigitavel(scan.barcode));
+    if (scan.boleto.amount) {
+      setAmount(formatCurrency(Math.round(scan.boleto.amount * 100).toString()));
+    }
+    if (scan.boleto.kind === "bancario" && scan.boleto.dueDate) {
+      setDueDate(parseISODate(scan.boleto.dueDate));
+    }
+    if (scan.boleto.kind === "arrecadacao") {
+      const suggestedCategory = scan.boleto.segment.category;
+      setCategory((current) => current || suggestedCategory);
     }
   };
 
   const handleFileRemove = () => {
+    cancelAnalysis();
     setSelectedFile(null);
     setSelectedFiles([]);
     setAnalysisComplete(false);
     setIsAnalyzing(false);
     setAiSummary(null);
     setAnalysisResult(null);
+    setAnalysisSource(null);
+    setScanResult(null);
+    setPixScanResult(null);
+    setCarneDetection(null);
   };
 
   const handleApplyAnalysis = () => {
     if (analysisResult) {
-      setBeneficiary(analysisResult.beneficiary);
-      // Converter o valor decimal para string em centavos para a função formatCurrency
-      const valueInCents = Math.round(analysisResult.amount * 100).toString();
-      setAmount(formatCurrency(valueInCents));
+      // A leitura do texto do PDF pode não ter encontrado todos os campos
+      if (analysisResult.beneficiary) {
+        setBeneficiary(analysisResult.beneficiary);
+      }
+      if (analysisResult.amount) {
+        // Converter o valor decimal para string em centavos para a função formatCurrency
+        const valueInCents = Math.round(analysisResult.amount * 100).toString();
+        setAmount(formatCurrency(valueInCents));
+      }
       
-      // Converter a data de forma mais robusta para evitar problemas de timezone
-      const dateParts = analysisResult.dueDate.split('-');
-      const year = parseInt(dateParts[0]);
-      const month = parseInt(dateParts[1]) - 1; // Month is 0-indexed in JavaScript Date
-      const day = parseInt(dateParts[2]);
-      setDueDate(new Date(year, month, day));
+      if (analysisResult.dueDate) {
+        setDueDate(parseISODate(analysisResult.dueDate));
+      }
       
-      setCategory(analysisResult.category);
-      if (analysisResult.barcode) {
-        setBarcode(formatBarcode(String(analysisResult.barcode)));
+      const suggestedCategory = suggestCategoryFromBarcode(analysisResult.barcode);
+      setCategory(
+        suggestedCategory && (!analysisResult.category || analysisResult.category === "Outros")
+          ? suggestedCategory
+          : analysisResult.category
+      );
+      // O código lido localmente tem DV conferido; prevalece quando a IA não trouxe um código válido
+      if (scanResult && scanMatchesAI !== true) {
+        setBarcode(formatLinhaDigitavel(scanResult.barcode));
+      } else if (analysisResult.barcode) {
+        setBarcode(formatLinhaDigitavel(String(analysisResult.barcode)));
+      }
+      if (analysisResult.finePercent) {
+        setFinePercent(String(analysisResult.finePercent).replace('.', ','));
+      }
+      if (analysisResult.dailyInterestPercent) {
+        setDailyInterestPercent(String(analysisResult.dailyInterestPercent).replace('.', ','));
+      }
+      if (analysisResult.discountAmount && analysisResult.discountUntil) {
+        setDiscountAmount(formatCurrency(Math.round(analysisResult.discountAmount * 100).toString()));
+        setDiscountUntil(parseISODate(analysisResult.discountUntil));
+      }
+      // O QR Code lido do arquivo prevalece sobre a transcrição da IA
+      if (!pixScanResult && analysisResult.pixPayload) {
+        setPixPayload(analysisResult.pixPayload);
       }
       
       toast({
@@ -278,6 +690,25 @@ export const AddBillModal = ({ onAddBill }: AddBillModalProps) => {
               selectedFile={selectedFile}
             />
           )}
+
+          {uploadMode === "upload" && (
+            <div className="flex items-center justify-between gap-3 px-1">
+              <div className="space-y-0.5">
+                <Label htmlFor="offline-mode" className="text-xs sm:text-sm font-medium">
+                  Análise offline
+                </Label>
+                <p className="text-xs text-muted-foreground">
+                  Lê o texto do PDF e o código de barras sem enviar o arquivo à IA
+                </p>
+              </div>
+              <Switch
+                id="offline-mode"
+                checked={offlineMode}
+                onCheckedChange={setOfflineMode}
+                disabled={isAnalyzing}
+              />
+            </div>
+          )}
           
           {/* Show manual fields always, but with different styling based on mode */}
           <div className={cn(
@@ -296,12 +727,26 @@ export const AddBillModal = ({ onAddBill }: AddBillModalProps) => {
                       <span className="text-xs text-blue-600">Analisando com IA...</span>
                     </div>
                   )}
+                  {isScanning && !isAnalyzing && (
+                    <div className="flex items-center gap-2 mt-2">
+                      <ScanBarcode className="h-4 w-4 text-blue-600 animate-pulse" />
+                      <span className="text-xs text-blue-600">Lendo código de barras...</span>
+                    </div>
+                  )}
+                  {scanResult && !analysisComplete && !isScanning && (
+                    <div className="flex items-center gap-2 mt-2">
+                      <ScanBarcode className="h-4 w-4 text-green-600" />
+                      <span className="text-xs text-green-600">
+                        Código de barras lido localmente{scanResult.page > 1 ? ` (página ${scanResult.page})` : ""}.
+                      </span>
+                    </div>
+                  )}
                   {analysisComplete && !isAnalyzing && (
                     <div className="space-y-3">
                       <div className="flex items-center gap-2">
                         <Bot className="h-4 w-4 text-green-600" />
                         <span className="text-xs text-green-600 font-medium">
-                          ✅ Análise concluída!
+                          {analysisSource === "text" ? "✅ Leitura do texto do PDF concluída, sem IA!" : "✅ Análise concluída!"}
                         </span>
                       </div>
                       
@@ -311,6 +756,59 @@ export const AddBillModal = ({ onAddBill }: AddBillModalProps) => {
                           <p className="text-xs sm:text-sm text-muted-foreground whitespace-pre-line break-words">
                             {aiSummary}
                           </p>
+                          {selectedFile && analysisResult?.fields && (
+                            <FieldEvidencePreview
+                              key={`${selectedFile.name}-${analysisSource}`}
+                              file={selectedFile}
+                              result={analysisResult}
+                              mismatchedFields={analysisCheck?.mismatches.map((mismatch) => mismatch.field)}
+                            />
+                          )}
+                          {analysisSource === "ai" && analysisResult?.cachedAt && (
+                            <div className="flex items-start gap-1.5 mt-2">
+                              <History className="h-3.5 w-3.5 mt-0.5 flex-shrink-0 text-blue-600" />
+                              <span className="text-xs text-blue-700">
+                                Resultado em cache de {format(new Date(analysisResult.cachedAt), "dd/MM/yyyy 'às' HH:mm")}, sem nova chamada à IA.{" "}
+                                <button type="button" onClick={handleReanalyze} className="underline underline-offset-2 hover:text-blue-900">
+                                  Analisar novamente
+                                </button>
+                              </span>
+                            </div>
+                          )}
+                          {analysisResult?.usedFallback && (
+                            <div className="flex items-start gap-1.5 mt-2">
+                              <Bot className="h-3.5 w-3.5 mt-0.5 flex-shrink-0 text-amber-600" />
+                              <span className="text-xs text-amber-700">
+                                Analisado com {getProviderName(analysisResult.provider)} porque {analysisResult.failedProviders.map(getProviderName).join(", ")} falhou.
+                              </span>
+                            </div>
+                          )}
+                          {scanMatchesAI !== null && (
+                            <div className="flex items-start gap-1.5 mt-2">
+                              <ScanBarcode className={cn("h-3.5 w-3.5 mt-0.5 flex-shrink-0", scanMatchesAI ? "text-green-600" : "text-amber-600")} />
+                              <span className={cn("text-xs", scanMatchesAI ? "text-green-600" : "text-amber-700")}>
+                                {scanMatchesAI
+                                  ? "O código de barras lido no arquivo confere com o informado pela IA."
+                                  : "O código de barras lido no arquivo difere do informado pela IA; será usado o código lido."}
+                              </span>
+                            </div>
+                          )}
+                          {!pixScanResult && analysisResult?.pixPayload && (
+                            <div className="flex items-start gap-1.5 mt-2">
+                              <QrCode className="h-3.5 w-3.5 mt-0.5 flex-shrink-0 text-green-600" />
+                              <span className="text-xs text-green-600">PIX copia e cola identificado no boleto.</span>
+                            </div>
+                          )}
+                          {analysisCheck && (analysisCheck.status === "invalid" || analysisCheck.status === "mismatch") && (
+                            <div className="mt-2 p-2 rounded-md border border-amber-300 bg-amber-50 space-y-1">
+                              {getCheckMessages(analysisCheck).map((message) => (
+                                <div key={message} className="flex items-start gap-1.5">
+                                  <AlertCircle className="h-3.5 w-3.5 text-amber-600 mt-0.5 flex-shrink-0" />
+                                  <span className="text-xs text-amber-700">{message}</span>
+                                </div>
+                              ))}
+                            </div>
+                          )}
                           <Button
                             type="button"
                             size="sm"
@@ -323,7 +821,7 @@ export const AddBillModal = ({ onAddBill }: AddBillModalProps) => {
                       )}
                     </div>
                   )}
-                  {!getApiKey() && !isAnalyzing && (
+                  {!isAIConfigured() && !isAnalyzing && (
                     <div className="flex items-center gap-2 mt-2">
                       <AlertCircle className="h-4 w-4 text-amber-600" />
                       <span className="text-xs text-amber-600">
@@ -353,7 +851,7 @@ export const AddBillModal = ({ onAddBill }: AddBillModalProps) => {
                 onChange={(e) => setBeneficiary(e.target.value)}
                 placeholder="Ex: Enel, Copasa, Banco XYZ..."
                 required={uploadMode === "manual"}
-                className="text-sm"
+                className={cn("text-sm", reviewClass("beneficiary"))}
               />
             </div>
 
@@ -367,7 +865,7 @@ export const AddBillModal = ({ onAddBill }: AddBillModalProps) => {
                 onChange={handleAmountChange}
                 placeholder="R$ 0,00"
                 required={uploadMode === "manual"}
-                className="text-sm"
+                className={cn("text-sm", reviewClass("amount"))}
               />
             </div>
 
@@ -381,7 +879,8 @@ export const AddBillModal = ({ onAddBill }: AddBillModalProps) => {
                     variant="outline"
                     className={cn(
                       "w-full justify-start text-left font-normal text-sm h-9 sm:h-10",
-                      !dueDate && "text-muted-foreground"
+                      !dueDate && "text-muted-foreground",
+                      reviewClass("dueDate")
                     )}
                   >
                     <CalendarIcon className="mr-2 h-3 w-3 sm:h-4 sm:w-4 flex-shrink-0" />
@@ -405,13 +904,18 @@ export const AddBillModal = ({ onAddBill }: AddBillModalProps) => {
 
             <div className="space-y-1.5 sm:space-y-2">
               <Label htmlFor="category" className="text-sm">Categoria (opcional)</Label>
-              <Input
+              <CategorySelect
                 id="category"
+                categories={categories}
                 value={category}
-                onChange={(e) => setCategory(e.target.value)}
-                placeholder="Ex: Energia, Água, Financiamento..."
-                className="text-sm"
+                onValueChange={setCategory}
+                className={cn("text-sm", reviewClass("category"))}
               />
+              {formSegment && (
+                <p className="text-[11px] text-muted-foreground">
+                  Guia de arrecadação do segmento "{formSegment.description}" — categoria sugerida: {formSegment.category}.
+                </p>
+              )}
             </div>
 
             <div className="space-y-1.5 sm:space-y-2">
@@ -419,13 +923,139 @@ export const AddBillModal = ({ onAddBill }: AddBillModalProps) => {
               <Input
                 id="barcode"
                 value={barcode}
-                onChange={(e) => setBarcode(formatBarcode(e.target.value))}
+                onChange={(e) => handleBarcodeChange(e.target.value)}
                 placeholder="Somente números"
                 inputMode="numeric"
-                pattern="[0-9\s]*"
-                className="text-sm"
+                pattern="[0-9\s.\-]*"
+                className={cn("text-sm", reviewClass("barcode"))}
               />
               <p className="text-[11px] text-muted-foreground">Dica: você pode colar a linha digitável completa; manteremos apenas os números.</p>
+              {hasBarcodeIssues && (
+                <div className="space-y-1">
+                  {getCheckMessages(formCheck).map((message) => (
+                    <div key={message} className="flex items-start gap-1.5">
+                      <AlertCircle className="h-3.5 w-3.5 text-destructive mt-0.5 flex-shrink-0" />
+                      <span className="text-[11px] text-destructive">{message}</span>
+                    </div>
+                  ))}
+                </div>
+              )}
+              {formCheck.status === "ok" && (
+                <p className="text-[11px] text-green-600">✅ Linha digitável válida e compatível com o valor e o vencimento.</p>
+              )}
+            </div>
+
+            <div className="space-y-1.5 sm:space-y-2">
+              <Label htmlFor="pixPayload" className="text-sm">PIX Copia e Cola (opcional)</Label>
+              <Input
+                id="pixPayload"
+                value={pixPayload}
+                onChange={(e) => setPixPayload(e.target.value)}
+                placeholder="00020101021226..."
+                className="text-sm font-mono"
+              />
+              {pixCheck && !pixCheck.valid && (
+                <div className="space-y-1">
+                  {pixCheck.errors.map((message) => (
+                    <div key={message} className="flex items-start gap-1.5">
+                      <AlertCircle className="h-3.5 w-3.5 text-destructive mt-0.5 flex-shrink-0" />
+                      <span className="text-[11px] text-destructive">{message}</span>
+                    </div>
+                  ))}
+                </div>
+              )}
+              {pixScanResult && pixScanResult.pix.payload === pixCheck?.pix?.payload && (
+                <p className="text-[11px] text-muted-foreground">
+                  Lido do QR Code{pixScanResult.page > 1 ? ` na página ${pixScanResult.page}` : ""} do arquivo.
+                </p>
+              )}
+              {pixCheck?.valid && pixCheck.pix && (
+                <p className="text-[11px] text-green-600">
+                  ✅ PIX {pixCheck.pix.isDynamic ? "dinâmico" : "estático"} para {pixCheck.pix.merchantName}
+                  {pixAmount !== undefined ? ` — ${pixAmount.toLocaleString("pt-BR", { style: "currency", currency: "BRL" })}` : ""}.
+                </p>
+              )}
+              {hasPixAmountMismatch && (
+                <div className="flex items-start gap-1.5">
+                  <AlertCircle className="h-3.5 w-3.5 text-amber-600 mt-0.5 flex-shrink-0" />
+                  <span className="text-[11px] text-amber-700">O valor do PIX difere do valor informado no formulário.</span>
+                </div>
+              )}
+            </div>
+
+            <div className="space-y-1.5 sm:space-y-2">
+              <Label className="text-sm">Multa, Juros e Desconto (opcional)</Label>
+              <div className="grid grid-cols-2 gap-2">
+                <div className="space-y-1">
+                  <Label htmlFor="finePercent" className="text-[11px] text-muted-foreground">Multa (%)</Label>
+                  <Input
+                    id="finePercent"
+                    value={finePercent}
+                    onChange={(e) => setFinePercent(e.target.value.replace(/[^\d,.]/g, ''))}
+                    placeholder="Ex: 2"
+                    inputMode="decimal"
+                    className="text-sm"
+                  />
+                </div>
+                <div className="space-y-1">
+                  <Label htmlFor="dailyInterestPercent" className="text-[11px] text-muted-foreground">Juros de mora (% ao dia)</Label>
+                  <Input
+                    id="dailyInterestPercent"
+                    value={dailyInterestPercent}
+                    onChange={(e) => setDailyInterestPercent(e.target.value.replace(/[^\d,.]/g, ''))}
+                    placeholder="Ex: 0,033"
+                    inputMode="decimal"
+                    className="text-sm"
+                  />
+                </div>
+                <div className="space-y-1">
+                  <Label htmlFor="discountAmount" className="text-[11px] text-muted-foreground">Desconto (R$)</Label>
+                  <Input
+                    id="discountAmount"
+                    value={discountAmount}
+                    onChange={(e) => setDiscountAmount(e.target.value ? formatCurrency(e.target.value) : "")}
+                    placeholder="R$ 0,00"
+                    className="text-sm"
+                  />
+                </div>
+                <div className="space-y-1">
+                  <Label className="text-[11px] text-muted-foreground">Desconto até</Label>
+                  <Popover>
+                    <PopoverTrigger asChild>
+                      <Button
+                        variant="outline"
+                        className={cn(
+                          "w-full justify-start text-left font-normal text-sm h-9 sm:h-10",
+                          !discountUntil && "text-muted-foreground"
+                        )}
+                      >
+                        <CalendarIcon className="mr-2 h-3 w-3 sm:h-4 sm:w-4 flex-shrink-0" />
+                        <span className="truncate">
+                          {discountUntil ? format(discountUntil, "dd/MM/yyyy") : "Data limite"}
+                        </span>
+                      </Button>
+                    </PopoverTrigger>
+                    <PopoverContent className="w-auto p-0" align="start" sideOffset={4}>
+                      <Calendar
+                        mode="single"
+                        selected={discountUntil}
+                        onSelect={setDiscountUntil}
+                        initialFocus
+                        locale={ptBR}
+                        className={cn("p-3 pointer-events-auto")}
+                      />
+                    </PopoverContent>
+                  </Popover>
+                </div>
+              </div>
+              {amountDueToday && amountDueToday.total !== amountDueToday.originalAmount && (
+                <p className="text-[11px] text-muted-foreground">
+                  Valor a pagar hoje: {amountDueToday.total.toLocaleString("pt-BR", { style: "currency", currency: "BRL" })}
+                  {amountDueToday.daysOverdue > 0
+                    ? ` (${amountDueToday.daysOverdue} dia${amountDueToday.daysOverdue > 1 ? "s" : ""} de atraso)`
+                    : " (com desconto)"}.
+                </p>
+              )}
             </div>
           </div>
 
@@ -442,10 +1072,30 @@ export const AddBillModal = ({ onAddBill }: AddBillModalProps) => {
               type="submit" 
               className="flex-1 text-sm h-9 sm:h-10"
             >
-              {uploadMode === "upload" && selectedFile ? "Salvar Boleto" : "Adicionar Conta"}
+              {hasBarcodeIssues && acknowledgedCheckKey === formCheckKey
+                ? "Salvar mesmo assim"
+                : uploadMode === "upload" && selectedFile ? "Salvar Boleto" : "Adicionar Conta"}
             </Button>
           </div>
         </form>
+
+        <DuplicateBillDialog
+          duplicate={pendingDuplicate}
+          onSkip={handleSkipDuplicate}
+          onMerge={handleMergeDuplicate}
+          onKeepBoth={handleKeepBothDuplicates}
+          onCancel={() => setPendingDuplicate(null)}
+        />
+
+        {carneDetection && (
+          <CarneReviewDialog
+            detection={carneDetection}
+            fileName={selectedFile?.name}
+            bills={bills}
+            onConfirm={handleConfirmInstallments}
+            onCancel={() => setCarneDetection(null)}
+          />
+        )}
       </DialogContent>
     </Dialog>
   );
@@ -0,0 +1,99 @@
+import { useMemo, useState } from "react";
+import { Alert, AlertDescription, AlertTitle } from "@/components/ui/alert";
+import {
+  AlertDialog,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from "@/components/ui/alert-dialog";
+import { Button } from "@/components/ui/button";
+import { AlertTriangle } from "lucide-react";
+import { BillSummary } from "./DuplicateBillDialog";
+import { Bill } from "./BillsList";
+
+interface BarcodeConflictsAlertProps {
+  bills: Bill[];
+  onKeep: (billId: string) => Promise<unknown>; // Mantém a conta e exclui as outras com o mesmo código
+}
+
+/**
+ * Contas cadastradas mais de uma vez com o mesmo código de barras antes do índice
+ * único. Nada é apagado sem o usuário escolher, em cada grupo, qual conta manter.
+ */
+export const BarcodeConflictsAlert = ({ bills, onKeep }: BarcodeConflictsAlertProps) => {
+  const [isOpen, setIsOpen] = useState(false);
+  const [keepingId, setKeepingId] = useState<string | null>(null);
+
+  // Grupos de contas com o mesmo código, em que ao menos uma está sinalizada
+  const groups = useMemo(() => {
+    const conflicting = new Set(bills.filter((bill) => bill.barcodeConflict && bill.barcode).map((bill) => bill.barcode));
+    return Array.from(conflicting).map((barcode) => bills.filter((bill) => bill.barcode === barcode));
+  }, [bills]);
+
+  if (groups.length === 0) return null;
+  const group = groups[0];
+
+  const handleKeep = async (billId: string) => {
+    setKeepingId(billId);
+    try {
+      await onKeep(billId);
+      if (groups.length === 1) setIsOpen(false);
+    } catch {
+      // O erro já é exibido por quem resolve; o diálogo fica aberto para tentar de novo
+    } finally {
+      setKeepingId(null);
+    }
+  };
+
+  return (
+    <>
+      <Alert className="mb-6">
+        <AlertTriangle className="h-4 w-4" />
+        <AlertTitle>Boletos repetidos</AlertTitle>
+        <AlertDescription className="flex flex-col sm:flex-row sm:items-center sm:justify-between gap-2">
+          <span>
+            {groups.length === 1
+              ? "Um boleto está cadastrado mais de uma vez."
+              : `${groups.length} boletos estão cadastrados mais de uma vez.`}{" "}
+            Escolha qual conta manter em cada caso.
+          </span>
+          <Button variant="outline" size="sm" onClick={() => setIsOpen(true)}>
+            Resolver
+          </Button>
+        </AlertDescription>
+      </Alert>
+
+      <AlertDialog open={isOpen} onOpenChange={setIsOpen}>
+        <AlertDialogContent className="max-w-lg">
+          <AlertDialogHeader>
+            <AlertDialogTitle>Mesmo código de barras em {group.length} contas</AlertDialogTitle>
+            <AlertDialogDescription>
+              Um boleto só pode ser cadastrado uma vez. Mantenha uma das contas; as outras serão excluídas.
+              {groups.length > 1 && ` Restam ${groups.length} casos.`}
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+
+          <div className="space-y-2">
+            {group.map((bill) => (
+              <div key={bill.id} className="flex items-center gap-2">
+                <div className="flex-1 min-w-0">
+                  <BillSummary title={bill.status === "paid" ? "Paga" : "A pagar"} bill={bill} />
+                </div>
+                <Button size="sm" onClick={() => handleKeep(bill.id)} disabled={!!keepingId}>
+                  Manter esta
+                </Button>
+              </div>
+            ))}
+          </div>
+
+          <AlertDialogFooter>
+            <AlertDialogCancel disabled={!!keepingId}>Depois</AlertDialogCancel>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+    </>
+  );
+};
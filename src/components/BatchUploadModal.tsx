@@ -0,0 +1,294 @@
+import { useState } from "react";
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle, DialogTrigger } from "@/components/ui/dialog";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Switch } from "@/components/ui/switch";
+import { Badge } from "@/components/ui/badge";
+import { Files, Loader2, RotateCcw, Trash2 } from "lucide-react";
+import { useToast } from "@/hooks/use-toast";
+import { useCategories } from "@/hooks/use-categories";
+import { useBillQueue, type QueueItem } from "@/hooks/use-bill-queue";
+import { isDraftComplete, MAX_BATCH_FILES, parseDraftAmount, type BillDraft } from "@/lib/bill-queue";
+import { LOW_FIELD_CONFIDENCE, type BillField } from "@/lib/bill-schema";
+import { cn } from "@/lib/utils";
+import { isAIConfigured } from "@/lib/ocr-service";
+import { findDuplicateBill } from "@/lib/duplicates";
+import { FALLBACK_CATEGORY } from "@/lib/categories";
+import { FileUploader } from "./FileUploader";
+import { CategorySelect } from "./CategorySelect";
+import type { Bill } from "./BillsList";
+import type { NewBill } from "./DuplicateBillDialog";
+
+interface BatchUploadModalProps {
+  onSaveBills: (bills: NewBill[]) => Promise<unknown>; // Insert único; rejeita se nada foi salvo
+  bills?: Bill[]; // Contas já cadastradas, para não importar o mesmo boleto duas vezes
+}
+
+const STATUS_LABELS: Record<QueueItem["status"], string> = {
+  queued: "Na fila",
+  analyzing: "Analisando",
+  review: "Revisar",
+  saved: "Salvo",
+  failed: "Falhou",
+};
+
+const STATUS_VARIANTS: Record<QueueItem["status"], "default" | "secondary" | "destructive" | "outline"> = {
+  queued: "outline",
+  analyzing: "secondary",
+  review: "default",
+  saved: "secondary",
+  failed: "destructive",
+};
+
+// Campos lidos com baixa confiança ficam destacados para conferência
+const reviewClass = (item: QueueItem, field: BillField) =>
+  (item.fields?.[field]?.confidence ?? 1) < LOW_FIELD_CONFIDENCE && "border-amber-500 focus-visible:ring-amber-500";
+
+const draftToBill = (draft: BillDraft): NewBill => ({
+  beneficiary: draft.beneficiary.trim(),
+  amount: parseDraftAmount(draft.amount),
+  dueDate: draft.dueDate,
+  category: draft.category || FALLBACK_CATEGORY,
+  barcode: draft.barcode || undefined,
+  pixPayload: draft.pixPayload || undefined,
+});
+
+export const BatchUploadModal = ({ onSaveBills, bills = [] }: BatchUploadModalProps) => {
+  const [isOpen, setIsOpen] = useState(false);
+  const [offlineMode, setOfflineMode] = useState(false);
+  const [isSaving, setIsSaving] = useState(false);
+  const { items, enqueue, updateDraft, retry, remove, markSaved, clearSaved } = useBillQueue();
+  const { toast } = useToast();
+  const { categories } = useCategories();
+
+  // Boletos já cadastrados (mesmo código de barras) ou repetidos na própria fila ficam de fora
+  const duplicateIds = new Set(
+    items
+      .filter((item, index) => {
+        if (item.status !== "review" || !item.draft?.barcode) return false;
+        const digits = item.draft.barcode.replace(/\D/g, "");
+        const repeated = items.findIndex((other) => other.draft?.barcode.replace(/\D/g, "") === digits) < index;
+        return repeated || findDuplicateBill(draftToBill(item.draft), bills)?.reason === "barcode";
+      })
+      .map((item) => item.id)
+  );
+
+  const reviewItems = items.filter((item) => item.status === "review");
+  const readyItems = reviewItems.filter((item) => item.draft && isDraftComplete(item.draft) && !duplicateIds.has(item.id));
+  const activeCount = items.filter((item) => item.status === "queued" || item.status === "analyzing").length;
+  const savedCount = items.filter((item) => item.status === "saved").length;
+
+  const handleFilesSelect = (files: File[]) => {
+    const accepted = enqueue(files, { offline: offlineMode || !isAIConfigured() });
+    if (accepted < files.length) {
+      toast({
+        variant: "destructive",
+        title: "Fila cheia",
+        description: `A fila aceita até ${MAX_BATCH_FILES} arquivos pendentes; ${files.length - accepted} arquivo(s) ficaram de fora.`,
+      });
+    } else {
+      toast({
+        title: "Arquivos adicionados à fila",
+        description: `${accepted} arquivo(s) serão analisados. Você pode fechar esta janela enquanto isso.`,
+      });
+    }
+  };
+
+  // Um único insert: ou todos os boletos prontos são salvos, ou nenhum
+  const handleSaveAll = async () => {
+    if (readyItems.length === 0) return;
+    setIsSaving(true);
+    try {
+      await onSaveBills(readyItems.map((item) => draftToBill(item.draft!)));
+      markSaved(readyItems.map((item) => item.id));
+      toast({
+        title: "Boletos salvos",
+        description: `${readyItems.length} boleto(s) da fila foram cadastrados.`,
+      });
+    } catch (error) {
+      // O erro já é exibido pela página; os rascunhos continuam na fila para nova tentativa
+      console.error('❌ Erro ao salvar a fila:', error);
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  return (
+    <Dialog open={isOpen} onOpenChange={setIsOpen}>
+      <DialogTrigger asChild>
+        <Button
+          variant="outline"
+          size="sm"
+          className="h-8 sm:h-9 px-2 sm:px-3 gap-1 sm:gap-2 text-xs sm:text-sm min-w-[80px] sm:min-w-[120px]"
+        >
+          {activeCount > 0
+            ? <Loader2 className="h-3 w-3 sm:h-4 sm:w-4 flex-shrink-0 animate-spin" />
+            : <Files className="h-3 w-3 sm:h-4 sm:w-4 flex-shrink-0" />}
+          <span className="hidden sm:inline">Importar Vários</span>
+          <span className="sm:hidden">Lote</span>
+          {reviewItems.length > 0 && (
+            <Badge className="h-4 px-1.5 text-[10px]">{reviewItems.length}</Badge>
+          )}
+        </Button>
+      </DialogTrigger>
+      <DialogContent className="w-[95vw] max-w-5xl max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle className="flex items-center gap-2 text-lg sm:text-xl">
+            <Files className="h-4 w-4 sm:h-5 sm:w-5 flex-shrink-0" />
+            Importar Vários Boletos
+          </DialogTitle>
+          <DialogDescription>
+            Os arquivos são analisados em segundo plano, mesmo com esta janela fechada. Revise os dados e salve todos de uma vez.
+          </DialogDescription>
+        </DialogHeader>
+
+        <FileUploader onFilesSelect={handleFilesSelect} maxFiles={MAX_BATCH_FILES} />
+
+        <div className="flex items-center justify-between gap-3 px-1">
+          <div className="space-y-0.5">
+            <Label htmlFor="batch-offline-mode" className="text-xs sm:text-sm font-medium">
+              Análise offline
+            </Label>
+            <p className="text-xs text-muted-foreground">
+              Vale para os próximos arquivos adicionados; nenhum deles é enviado à IA
+            </p>
+          </div>
+          <Switch id="batch-offline-mode" checked={offlineMode} onCheckedChange={setOfflineMode} />
+        </div>
+
+        {items.length > 0 && (
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>Arquivo</TableHead>
+                <TableHead>Beneficiário</TableHead>
+                <TableHead>Valor (R$)</TableHead>
+                <TableHead>Vencimento</TableHead>
+                <TableHead className="hidden md:table-cell">Categoria</TableHead>
+                <TableHead className="w-20" />
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {items.map((item) => {
+                const editable = item.status === "review" && item.draft;
+                return (
+                  <TableRow key={item.id} className={item.status === "saved" ? "opacity-50" : undefined}>
+                    <TableCell className="max-w-[160px]">
+                      <div className="space-y-1">
+                        <p className="text-xs font-medium truncate" title={item.file.name}>{item.file.name}</p>
+                        <div className="flex flex-wrap gap-1">
+                          <Badge variant={STATUS_VARIANTS[item.status]} className="text-[10px] px-1.5 py-0 gap-1">
+                            {item.status === "analyzing" && <Loader2 className="h-2.5 w-2.5 animate-spin" />}
+                            {STATUS_LABELS[item.status]}
+                          </Badge>
+                          {item.status === "review" && item.source && (
+                            <Badge variant="outline" className="text-[10px] px-1.5 py-0">
+                              {item.source === "ai" ? item.cached ? "IA (cache)" : "IA" : item.source === "text" ? "Texto do PDF" : "Código de barras"}
+                              {item.confidence !== undefined && ` · ${Math.round(item.confidence * 100)}%`}
+                            </Badge>
+                          )}
+                          {duplicateIds.has(item.id) && (
+                            <Badge variant="secondary" className="text-[10px] px-1.5 py-0">Já cadastrado</Badge>
+                          )}
+                        </div>
+                        {item.error && <p className="text-[11px] text-destructive">{item.error}</p>}
+                      </div>
+                    </TableCell>
+                    <TableCell>
+                      {editable ? (
+                        <Input
+                          value={item.draft!.beneficiary}
+                          onChange={(e) => updateDraft(item.id, { beneficiary: e.target.value })}
+                          className={cn("h-8 min-w-[140px] text-xs", reviewClass(item, "beneficiary"))}
+                        />
+                      ) : (
+                        <span className="text-xs">{item.draft?.beneficiary ?? "—"}</span>
+                      )}
+                    </TableCell>
+                    <TableCell>
+                      {editable ? (
+                        <Input
+                          inputMode="decimal"
+                          placeholder="0,00"
+                          value={item.draft!.amount}
+                          onChange={(e) => updateDraft(item.id, { amount: e.target.value })}
+                          className={cn("h-8 w-[100px] text-xs", reviewClass(item, "amount"))}
+                        />
+                      ) : (
+                        <span className="text-xs">{item.draft?.amount || "—"}</span>
+                      )}
+                    </TableCell>
+                    <TableCell>
+                      {editable ? (
+                        <Input
+                          type="date"
+                          value={item.draft!.dueDate}
+                          onChange={(e) => updateDraft(item.id, { dueDate: e.target.value })}
+                          className={cn("h-8 w-[140px] text-xs", reviewClass(item, "dueDate"))}
+                        />
+                      ) : (
+                        <span className="text-xs">{item.draft?.dueDate.split("-").reverse().join("/") || "—"}</span>
+                      )}
+                    </TableCell>
+                    <TableCell className="hidden md:table-cell">
+                      {editable ? (
+                        <CategorySelect
+                          categories={categories}
+                          value={item.draft!.category}
+                          onValueChange={(category) => updateDraft(item.id, { category })}
+                          className={cn("h-8 w-[130px] text-xs", reviewClass(item, "category"))}
+                        />
+                      ) : (
+                        <span className="text-xs">{item.draft?.category || "—"}</span>
+                      )}
+                    </TableCell>
+                    <TableCell>
+                      <div className="flex justify-end gap-1">
+                        {item.status === "failed" && (
+                          <Button variant="ghost" size="sm" className="h-8 w-8 p-0" onClick={() => retry(item.id)} aria-label="Tentar novamente">
+                            <RotateCcw className="h-4 w-4" />
+                          </Button>
+                        )}
+                        {item.status !== "saved" && (
+                          <Button
+                            variant="ghost"
+                            size="sm"
+                            className="h-8 w-8 p-0 text-destructive hover:text-destructive"
+                            onClick={() => remove(item.id)}
+                            aria-label="Remover da fila"
+                          >
+                            <Trash2 className="h-4 w-4" />
+                          </Button>
+                        )}
+                      </div>
+                    </TableCell>
+                  </TableRow>
+                );
+              })}
+            </TableBody>
+          </Table>
+        )}
+
+        {reviewItems.length > readyItems.length && (
+          <p className="text-xs text-muted-foreground">
+            {reviewItems.length - readyItems.length} boleto(s) sem beneficiário, valor ou vencimento, ou já cadastrados, não serão salvos.
+          </p>
+        )}
+
+        <DialogFooter className="gap-2">
+          {savedCount > 0 && (
+            <Button type="button" variant="outline" onClick={clearSaved}>
+              Limpar salvos
+            </Button>
+          )}
+          <Button type="button" onClick={handleSaveAll} disabled={readyItems.length === 0 || isSaving}>
+            {isSaving && <Loader2 className="h-4 w-4 mr-2 animate-spin" />}
+            Salvar {readyItems.length} boleto(s)
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+};
@@ -0,0 +1,90 @@
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { Button } from "@/components/ui/button";
+import { Building, Calendar, Copy, DollarSign, Tag } from "lucide-react";
+import { toast } from "sonner";
+import { formatLinhaDigitavel } from "@/lib/boleto";
+import { BoletoBarcode } from "./BoletoBarcode";
+import { Bill } from "./BillsList";
+
+interface BillDetailsDialogProps {
+  bill: Bill | null;
+  onClose: () => void;
+}
+
+export const BillDetailsDialog = ({ bill, onClose }: BillDetailsDialogProps) => {
+  const formatCurrency = (amount: number) => {
+    return new Intl.NumberFormat('pt-BR', {
+      style: 'currency',
+      currency: 'BRL'
+    }).format(amount);
+  };
+
+  const formatDate = (dateString: string) => {
+    return new Date(dateString).toLocaleDateString('pt-BR');
+  };
+
+  const handleCopyLinha = async () => {
+    if (!bill?.barcode) return;
+    try {
+      await navigator.clipboard.writeText(formatLinhaDigitavel(bill.barcode).replace(/\D/g, ''));
+      toast.success("Linha digitável copiada!");
+    } catch (error) {
+      console.error('Erro ao copiar linha digitável:', error);
+      toast.error("Não foi possível copiar a linha digitável.");
+    }
+  };
+
+  return (
+    <Dialog open={!!bill} onOpenChange={(open) => !open && onClose()}>
+      <DialogContent className="w-[95vw] max-w-[560px] max-h-[90vh] overflow-y-auto sm:w-full">
+        {bill && (
+          <>
+            <DialogHeader>
+              <DialogTitle className="flex items-center gap-2 text-lg">
+                <Building className="h-4 w-4 text-primary flex-shrink-0" />
+                <span className="truncate">{bill.beneficiary}</span>
+              </DialogTitle>
+              <DialogDescription>Detalhes do boleto</DialogDescription>
+            </DialogHeader>
+
+            <div className="grid grid-cols-1 sm:grid-cols-3 gap-3 text-sm">
+              <div className="flex items-center gap-2">
+                <DollarSign className="h-4 w-4 text-muted-foreground" />
+                <span className="font-semibold text-primary">{formatCurrency(bill.amount)}</span>
+              </div>
+              <div className="flex items-center gap-2">
+                <Calendar className="h-4 w-4 text-muted-foreground" />
+                <span>{formatDate(bill.dueDate)}</span>
+              </div>
+              {bill.category && (
+                <div className="flex items-center gap-2">
+                  <Tag className="h-4 w-4 text-muted-foreground" />
+                  <span>{bill.category}</span>
+                </div>
+              )}
+            </div>
+
+            {bill.barcode ? (
+              <div className="space-y-3 pt-2">
+                <BoletoBarcode value={bill.barcode} height={64} className="border" />
+                <div className="flex items-center gap-2">
+                  <code className="flex-1 text-xs sm:text-sm bg-muted px-2 py-1.5 rounded break-all">
+                    {formatLinhaDigitavel(bill.barcode)}
+                  </code>
+                  <Button variant="outline" size="sm" onClick={handleCopyLinha} className="flex-shrink-0" title="Copiar linha digitável">
+                    <Copy className="h-4 w-4" />
+                  </Button>
+                </div>
+                <p className="text-xs text-muted-foreground">
+                  Apresente o código de barras no caixa, lotérica ou caixa eletrônico para pagamento.
+                </p>
+              </div>
+            ) : (
+              <p className="text-sm text-muted-foreground pt-2">Este boleto não possui código de barras cadastrado.</p>
+            )}
+          </>
+        )}
+      </DialogContent>
+    </Dialog>
+  );
+};
@@ -2,7 +2,7 @@ import { useState } from "react";
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
 import { Checkbox } from "@/components/ui/checkbox";
 import { Badge } from "@/components/ui/badge";
-import { Calendar, DollarSign, Building, RotateCcw, Trash2, Barcode } from "lucide-react";
+import { Calendar, DollarSign, Building, RotateCcw, Trash2, Barcode, Landmark, QrCode } from "lucide-react";
 import { Button } from "@/components/ui/button";
 import {
   AlertDialog,
@@ -17,9 +17,14 @@ import {
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
 import { Label } from "@/components/ui/label";
 import { FileUploader } from "@/components/FileUploader";
+import { BillDetailsDialog } from "@/components/BillDetailsDialog";
+import { toast } from "sonner";
 import { cn } from "@/lib/utils";
+import { formatLinhaDigitavel, type BarcodeType } from "@/lib/boleto";
+import { getBankInfo, getBankName } from "@/lib/banks";
+import { calculateAmountDue, type PaymentTerms } from "@/lib/late-fees";
 
-export interface Bill {
+export interface Bill extends PaymentTerms {
   id: string;
   beneficiary: string;
   amount: number;
@@ -28,7 +33,14 @@ export interface Bill {
   category?: string;
   paymentMethod?: "PIX" | "Cartão de Crédito" | "Transferência Bancária";
   paidAt?: string; // Data em que a conta foi efetivamente paga
-  barcode?: string; // Linha digitável do boleto
+  barcode?: string; // Código de barras (44 dígitos) do boleto
+  barcodeType?: BarcodeType;
+  issuerBank?: string; // Código COMPE do banco emissor
+  pixPayload?: string; // PIX copia e cola (BR Code) do boleto híbrido
+  installmentGroupId?: string; // Parcelas do mesmo carnê compartilham o grupo
+  installmentNumber?: number;
+  installmentTotal?: number;
+  barcodeConflict?: boolean; // Código de barras repetido em outra conta, aguardando o usuário escolher qual manter
 }
 
 interface BillsListProps {
@@ -66,6 +78,8 @@ export const BillsList = ({
     billName: ""
   });
 
+  const [detailsBill, setDetailsBill] = useState<Bill | null>(null);
+  const [groupByBank, setGroupByBank] = useState(false);
   const [receiptFile, setReceiptFile] = useState<File | null>(null);
   const [selectedPaymentMethod, setSelectedPaymentMethod] = useState<string>("");
 
@@ -134,6 +148,16 @@ export const BillsList = ({
     return new Date(dateString).toLocaleDateString('pt-BR');
   };
 
+  const handleCopyPix = async (pixPayload: string) => {
+    try {
+      await navigator.clipboard.writeText(pixPayload);
+      toast.success("PIX copia e cola copiado!");
+    } catch (error) {
+      console.error("Erro ao copiar PIX:", error);
+      toast.error("Não foi possível copiar o código PIX.");
+    }
+  };
+
   const getDaysUntilDue = (dueDate: string) => {
     const today = new Date();
     const due = new Date(dueDate);
@@ -158,18 +182,211 @@ export const BillsList = ({
     }
   };
 
-  const formatBarcode = (barcode?: string) => {
-    if (!barcode) return '';
-    return barcode.replace(/\D/g, '').replace(/(.{4})/g, '$1 ').trim();
+  // Contas pendentes com multa/juros (vencidas) ou desconto (antecipado) mostram o valor de hoje
+  const renderAmount = (bill: Bill) => {
+    const amountDue = bill.status === "pending" ? calculateAmountDue(bill) : null;
+    if (!amountDue || amountDue.total === bill.amount) {
+      return (
+        <span className="font-semibold text-primary text-sm sm:text-base flex-shrink-0">
+          {formatCurrency(bill.amount)}
+        </span>
+      );
+    }
+
+    const details = [
+      `Valor original: ${formatCurrency(amountDue.originalAmount)}`,
+      amountDue.fine > 0 && `Multa: ${formatCurrency(amountDue.fine)}`,
+      amountDue.interest > 0 && `Juros (${amountDue.daysOverdue} dia${amountDue.daysOverdue > 1 ? "s" : ""}): ${formatCurrency(amountDue.interest)}`,
+      amountDue.discount > 0 && `Desconto até ${formatDate(bill.discountUntil!)}: -${formatCurrency(amountDue.discount)}`,
+    ].filter(Boolean).join("\n");
+
+    return (
+      <div className="flex flex-col items-end flex-shrink-0" title={details}>
+        <span className="text-[11px] text-muted-foreground line-through">{formatCurrency(bill.amount)}</span>
+        <span className={cn("font-semibold text-sm sm:text-base", amountDue.discount > 0 ? "text-success" : "text-destructive")}>
+          {formatCurrency(amountDue.total)}
+          <span className="ml-1 text-[10px] font-normal">{amountDue.discount > 0 ? "c/ desconto" : "hoje"}</span>
+        </span>
+      </div>
+    );
   };
 
+  // Agrupa as contas por banco emissor; guias sem banco ficam no final
+  const getBankGroups = () => {
+    const groups = new Map<string | null, Bill[]>();
+    bills.forEach((bill) => {
+      const key = bill.issuerBank ?? null;
+      groups.set(key, [...(groups.get(key) || []), bill]);
+    });
+
+    return Array.from(groups.entries())
+      .map(([code, groupBills]) => ({
+        code,
+        name: getBankName(code),
+        color: code ? getBankInfo(code).color : "transparent",
+        total: groupBills.reduce((sum, bill) => sum + bill.amount, 0),
+        bills: groupBills
+      }))
+      .sort((a, b) => (a.code === null ? 1 : b.code === null ? -1 : a.name.localeCompare(b.name)));
+  };
+
+  const renderBill = (bill: Bill) => (
+    <div
+      key={bill.id}
+      onClick={() => bill.status === "paid" && openDownloadDialog(bill.beneficiary)}
+      className={cn(
+        "flex items-start space-x-2 sm:space-x-3 p-2 sm:p-3 rounded-lg border transition-all duration-200",
+        bill.status === "paid" 
+          ? "bg-success-light/30 border-success/30 cursor-pointer hover:bg-success-light/40" 
+          : "bg-card border-border hover:shadow-md"
+      )}
+    >
+      {showCheckbox && bill.status === "pending" && (
+        <Checkbox
+          checked={false}
+          onCheckedChange={() => openConfirmDialog(bill.id, bill.beneficiary, "pay")}
+          className="transition-transform hover:scale-110 mt-1 flex-shrink-0"
+        />
+      )}
+      
+      {bill.status === "paid" && (
+        <Button
+          variant="ghost"
+          size="sm"
+          onClick={(e) => {
+            e.stopPropagation();
+            openConfirmDialog(bill.id, bill.beneficiary, "unpay");
+          }}
+          className="h-6 w-6 p-0 text-muted-foreground hover:text-foreground mt-1 flex-shrink-0"
+          title="Desfazer pagamento"
+        >
+          <RotateCcw className="h-3 w-3" />
+        </Button>
+      )}
+      
+      <div className="flex-1 min-w-0 space-y-1">
+        <div className="flex flex-col sm:flex-row sm:items-center sm:justify-between gap-1 sm:gap-2">
+          <div className="flex items-center gap-1 min-w-0">
+            <Building className="h-3 w-3 text-muted-foreground flex-shrink-0" />
+            <span className="font-medium text-foreground text-sm truncate">{bill.beneficiary}</span>
+            {bill.installmentNumber && bill.installmentTotal && (
+              <Badge variant="outline" className="text-[10px] px-1.5 py-0 flex-shrink-0">
+                Parcela {bill.installmentNumber}/{bill.installmentTotal}
+              </Badge>
+            )}
+          </div>
+          <div className="flex items-center gap-1">
+            <div className="flex-shrink-0">
+              {getStatusBadge(bill)}
+            </div>
+            {bill.barcode && (
+              <Button
+                variant="ghost"
+                size="sm"
+                onClick={(e) => {
+                  e.stopPropagation();
+                  setDetailsBill(bill);
+                }}
+                className="h-6 w-6 p-0 text-muted-foreground hover:text-foreground flex-shrink-0"
+                title="Ver código de barras"
+              >
+                <Barcode className="h-3 w-3" />
+              </Button>
+            )}
+            <Button
+              variant="ghost"
+              size="sm"
+              onClick={(e) => {
+                e.stopPropagation();
+                openConfirmDialog(bill.id, bill.beneficiary, "delete");
+              }}
+              className="h-6 w-6 p-0 text-muted-foreground hover:text-destructive flex-shrink-0"
+              title="Excluir boleto"
+            >
+              <Trash2 className="h-3 w-3" />
+            </Button>
+          </div>
+        </div>
+        
+        <div className="flex flex-col sm:flex-row sm:items-center sm:justify-between gap-1 sm:gap-2">
+          <div className="flex flex-col xs:flex-row xs:items-center gap-1 xs:gap-2 text-xs">
+            <div className="flex items-center gap-1 text-muted-foreground">
+              <Calendar className="h-2.5 w-2.5 flex-shrink-0" />
+              <span className="whitespace-nowrap">{formatDate(bill.dueDate)}</span>
+            </div>
+            {bill.category && (
+              <span className="text-xs bg-muted px-1.5 py-0.5 rounded-full whitespace-nowrap">
+                {bill.category}
+              </span>
+            )}
+            {bill.issuerBank && (
+              <span
+                className="flex items-center gap-1 text-xs border px-1.5 py-0.5 rounded-full whitespace-nowrap"
+                title={getBankInfo(bill.issuerBank).name}
+              >
+                <span className="h-1.5 w-1.5 rounded-full" style={{ backgroundColor: getBankInfo(bill.issuerBank).color }} />
+                {getBankName(bill.issuerBank)}
+              </span>
+            )}
+          </div>
+          {renderAmount(bill)}
+        </div>
+
+        {(bill.barcode || bill.pixPayload) && (
+          <div className="flex items-center gap-2 mt-1">
+            {bill.barcode && (
+              <div
+                onClick={(e) => {
+                  e.stopPropagation();
+                  setDetailsBill(bill);
+                }}
+                className="flex items-center gap-1 min-w-0 text-[11px] sm:text-xs text-muted-foreground cursor-pointer hover:text-foreground"
+              >
+                <Barcode className="h-3 w-3 flex-shrink-0" />
+                <span className="truncate" title={formatLinhaDigitavel(bill.barcode)}>{formatLinhaDigitavel(bill.barcode)}</span>
+              </div>
+            )}
+            {bill.pixPayload && (
+              <Button
+                variant="outline"
+                size="sm"
+                onClick={(e) => {
+                  e.stopPropagation();
+                  handleCopyPix(bill.pixPayload!);
+                }}
+                className="h-6 px-2 text-[11px] gap-1 ml-auto flex-shrink-0"
+                title="Copiar PIX copia e cola"
+              >
+                <QrCode className="h-3 w-3" />
+                PIX
+              </Button>
+            )}
+          </div>
+        )}
+      </div>
+    </div>
+  );
   return (
     <Card className="h-full flex flex-col">
       <CardHeader className="flex-shrink-0">
-        <CardTitle className="flex items-center gap-2">
-          <DollarSign className="h-5 w-5 text-primary" />
-          {title}
-        </CardTitle>
+        <div className="flex items-center justify-between gap-2">
+          <CardTitle className="flex items-center gap-2">
+            <DollarSign className="h-5 w-5 text-primary" />
+            {title}
+          </CardTitle>
+          {bills.some((bill) => bill.issuerBank) && (
+            <Button
+              variant={groupByBank ? "default" : "outline"}
+              size="sm"
+              onClick={() => setGroupByBank((current) => !current)}
+              className="h-7 px-2 text-xs gap-1"
+              title="Agrupar por banco emissor"
+            >
+              <Landmark className="h-3 w-3" />
+              <span className="hidden sm:inline">Por banco</span>
+            </Button>
+          )}
+        </div>
       </CardHeader>
       <CardContent className="flex-1 overflow-auto">
         <div className="space-y-3 h-full">
@@ -179,95 +396,28 @@ export const BillsList = ({
               <p>Nenhuma conta encontrada</p>
             </div>
           ) : (
-            bills.map((bill) => (
-              <div
-                key={bill.id}
-                onClick={() => bill.status === "paid" && openDownloadDialog(bill.beneficiary)}
-                className={cn(
-                  "flex items-start space-x-2 sm:space-x-3 p-2 sm:p-3 rounded-lg border transition-all duration-200",
-                  bill.status === "paid" 
-                    ? "bg-success-light/30 border-success/30 cursor-pointer hover:bg-success-light/40" 
-                    : "bg-card border-border hover:shadow-md"
-                )}
-              >
-                {showCheckbox && bill.status === "pending" && (
-                  <Checkbox
-                    checked={false}
-                    onCheckedChange={() => openConfirmDialog(bill.id, bill.beneficiary, "pay")}
-                    className="transition-transform hover:scale-110 mt-1 flex-shrink-0"
-                  />
-                )}
-                
-                {bill.status === "paid" && (
-                  <Button
-                    variant="ghost"
-                    size="sm"
-                    onClick={(e) => {
-                      e.stopPropagation();
-                      openConfirmDialog(bill.id, bill.beneficiary, "unpay");
-                    }}
-                    className="h-6 w-6 p-0 text-muted-foreground hover:text-foreground mt-1 flex-shrink-0"
-                    title="Desfazer pagamento"
-                  >
-                    <RotateCcw className="h-3 w-3" />
-                  </Button>
-                )}
-                
-                <div className="flex-1 min-w-0 space-y-1">
-                  <div className="flex flex-col sm:flex-row sm:items-center sm:justify-between gap-1 sm:gap-2">
-                    <div className="flex items-center gap-1 min-w-0">
-                      <Building className="h-3 w-3 text-muted-foreground flex-shrink-0" />
-                      <span className="font-medium text-foreground text-sm truncate">{bill.beneficiary}</span>
-                    </div>
-                    <div className="flex items-center gap-1">
-                      <div className="flex-shrink-0">
-                        {getStatusBadge(bill)}
-                      </div>
-                      <Button
-                        variant="ghost"
-                        size="sm"
-                        onClick={(e) => {
-                          e.stopPropagation();
-                          openConfirmDialog(bill.id, bill.beneficiary, "delete");
-                        }}
-                        className="h-6 w-6 p-0 text-muted-foreground hover:text-destructive flex-shrink-0"
-                        title="Excluir boleto"
-                      >
-                        <Trash2 className="h-3 w-3" />
-                      </Button>
-                    </div>
-                  </div>
-                  
-                  <div className="flex flex-col sm:flex-row sm:items-center sm:justify-between gap-1 sm:gap-2">
-                    <div className="flex flex-col xs:flex-row xs:items-center gap-1 xs:gap-2 text-xs">
-                      <div className="flex items-center gap-1 text-muted-foreground">
-                        <Calendar className="h-2.5 w-2.5 flex-shrink-0" />
-                        <span className="whitespace-nowrap">{formatDate(bill.dueDate)}</span>
-                      </div>
-                      {bill.category && (
-                        <span className="text-xs bg-muted px-1.5 py-0.5 rounded-full whitespace-nowrap">
-                          {bill.category}
-                        </span>
-                      )}
-                    </div>
-                    <span className="font-semibold text-primary text-sm sm:text-base flex-shrink-0">
-                      {formatCurrency(bill.amount)}
+            groupByBank ? (
+              getBankGroups().map((group) => (
+                <div key={group.code ?? "none"} className="space-y-2">
+                  <div className="flex items-center justify-between text-xs font-medium text-muted-foreground pt-1">
+                    <span className="flex items-center gap-1.5">
+                      <span className="h-2 w-2 rounded-full" style={{ backgroundColor: group.color }} />
+                      {group.name}
                     </span>
+                    <span>{formatCurrency(group.total)}</span>
                   </div>
-
-                  {bill.barcode && (
-                    <div className="flex items-center gap-1 text-[11px] sm:text-xs text-muted-foreground mt-1">
-                      <Barcode className="h-3 w-3 flex-shrink-0" />
-                      <span className="truncate" title={bill.barcode}>{formatBarcode(bill.barcode)}</span>
-                    </div>
-                  )}
+                  {group.bills.map(renderBill)}
                 </div>
-              </div>
-            ))
+              ))
+            ) : (
+              bills.map(renderBill)
+            )
           )}
         </div>
       </CardContent>
       
+      <BillDetailsDialog bill={detailsBill} onClose={() => setDetailsBill(null)} />
+
       <AlertDialog open={confirmDialog.isOpen} onOpenChange={(open) => 
         !open && closeDialog()
       }>
@@ -0,0 +1,40 @@
+import { encodeItf, normalizeBarcode } from "@/lib/boleto";
+import { cn } from "@/lib/utils";
+
+interface BoletoBarcodeProps {
+  value?: string; // Código de barras (44 dígitos) ou linha digitável
+  height?: number;
+  className?: string;
+}
+
+// Zona de silêncio exigida antes e depois do código, em módulos
+const QUIET_ZONE = 10;
+
+export const BoletoBarcode = ({ value, height = 50, className }: BoletoBarcodeProps) => {
+  const normalized = value ? normalizeBarcode(value) : null;
+
+  if (!normalized) {
+    return null;
+  }
+
+  const { bars, width } = encodeItf(normalized.barcode);
+  const totalWidth = width + QUIET_ZONE * 2;
+
+  return (
+    <div className={cn("bg-white rounded-md p-2", className)}>
+      <svg
+        viewBox={`0 0 ${totalWidth} ${height}`}
+        preserveAspectRatio="none"
+        className="w-full block"
+        style={{ height }}
+        role="img"
+        aria-label={`Código de barras ${normalized.barcode}`}
+        shapeRendering="crispEdges"
+      >
+        {bars.map((bar) => (
+          <rect key={bar.x} x={QUIET_ZONE + bar.x} y={0} width={bar.width} height={height} fill="#000000" />
+        ))}
+      </svg>
+    </div>
+  );
+};
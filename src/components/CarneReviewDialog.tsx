@@ -0,0 +1,199 @@
+import { useState } from "react";
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Badge } from "@/components/ui/badge";
+import { Layers } from "lucide-react";
+import { formatLinhaDigitavel } from "@/lib/boleto";
+import { findDuplicateBill } from "@/lib/duplicates";
+import { FALLBACK_CATEGORY } from "@/lib/categories";
+import { useCategories } from "@/hooks/use-categories";
+import type { CarneDetection } from "@/lib/carne";
+import { CategorySelect } from "./CategorySelect";
+import type { Bill } from "./BillsList";
+import type { NewBill } from "./DuplicateBillDialog";
+
+// Montado somente enquanto há um carnê em revisão; os rascunhos nascem da detecção
+interface CarneReviewDialogProps {
+  detection: CarneDetection;
+  fileName?: string;
+  bills: Bill[]; // Contas já cadastradas, para desmarcar parcelas repetidas
+  onConfirm: (bills: NewBill[]) => void;
+  onCancel: () => void;
+}
+
+// Rascunho editável de uma parcela do carnê
+interface InstallmentDraft {
+  barcode: string;
+  page: number;
+  amount: string; // Valor digitado, ex: "1.250,00"
+  dueDate: string; // YYYY-MM-DD (input type="date")
+  include: boolean;
+  alreadyRegistered: boolean;
+}
+
+const formatAmount = (value: number | null) =>
+  value ? value.toLocaleString("pt-BR", { minimumFractionDigits: 2, maximumFractionDigits: 2 }) : "";
+
+const parseAmount = (value: string) => parseFloat(value.replace(/[^\d,]/g, "").replace(",", "."));
+
+export const CarneReviewDialog = ({ detection, fileName, bills, onConfirm, onCancel }: CarneReviewDialogProps) => {
+  const [beneficiary, setBeneficiary] = useState(detection.beneficiary);
+  const { categories } = useCategories();
+  const [category, setCategory] = useState(detection.category);
+  const [drafts, setDrafts] = useState<InstallmentDraft[]>(() =>
+    detection.slips.map((slip) => {
+      const duplicate = findDuplicateBill(
+        { barcode: slip.barcode, beneficiary: detection.beneficiary, amount: slip.amount ?? 0, dueDate: slip.dueDate ?? "" },
+        bills
+      );
+      // Parcelas já cadastradas ficam desmarcadas para não invalidar o lote inteiro
+      const alreadyRegistered = duplicate?.reason === "barcode";
+      return {
+        barcode: slip.barcode,
+        page: slip.page,
+        amount: formatAmount(slip.amount),
+        dueDate: slip.dueDate ?? "",
+        include: !alreadyRegistered,
+        alreadyRegistered,
+      };
+    })
+  );
+
+  const updateDraft = (index: number, patch: Partial<InstallmentDraft>) => {
+    setDrafts((prev) => prev.map((draft, i) => (i === index ? { ...draft, ...patch } : draft)));
+  };
+
+  const selected = drafts.filter((draft) => draft.include);
+  const invalidCount = selected.filter((draft) => !(parseAmount(draft.amount) > 0) || !draft.dueDate).length;
+  const total = selected.reduce((sum, draft) => sum + (parseAmount(draft.amount) || 0), 0);
+  const canConfirm = !!beneficiary.trim() && selected.length > 0 && invalidCount === 0;
+
+  // Parcelas numeradas pela ordem de vencimento entre todos os boletos do carnê, como
+  // impressas; desmarcar uma parcela (ex: já cadastrada) não renumera as demais
+  const handleConfirm = () => {
+    const ordered = [...drafts].sort((a, b) => (a.dueDate || "9999").localeCompare(b.dueDate || "9999"));
+    onConfirm(
+      ordered
+        .map((draft, index) => ({ draft, installmentNumber: index + 1 }))
+        .filter(({ draft }) => draft.include)
+        .map(({ draft, installmentNumber }) => ({
+          beneficiary: beneficiary.trim(),
+          amount: parseAmount(draft.amount),
+          dueDate: draft.dueDate,
+          category: category || FALLBACK_CATEGORY,
+          barcode: draft.barcode,
+          installmentNumber,
+          installmentTotal: drafts.length,
+        }))
+    );
+  };
+
+  return (
+    <Dialog open onOpenChange={(open) => !open && onCancel()}>
+      <DialogContent className="w-[95vw] max-w-3xl max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle className="flex items-center gap-2">
+            <Layers className="h-5 w-5 text-primary" />
+            Carnê com {drafts.length} boletos
+          </DialogTitle>
+          <DialogDescription>
+            {fileName ? `Encontramos vários boletos em ${fileName}. ` : ""}
+            Revise as parcelas antes de salvar; todas serão cadastradas de uma vez.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="grid grid-cols-1 sm:grid-cols-2 gap-3">
+          <div className="space-y-1">
+            <Label htmlFor="carne-beneficiary" className="text-sm">Favorecido/Beneficiário *</Label>
+            <Input
+              id="carne-beneficiary"
+              placeholder="Ex: Prefeitura Municipal"
+              value={beneficiary}
+              onChange={(e) => setBeneficiary(e.target.value)}
+            />
+          </div>
+          <div className="space-y-1">
+            <Label htmlFor="carne-category" className="text-sm">Categoria</Label>
+            <CategorySelect id="carne-category" categories={categories} value={category} onValueChange={setCategory} />
+          </div>
+        </div>
+
+        <Table>
+          <TableHeader>
+            <TableRow>
+              <TableHead className="w-10" />
+              <TableHead>Vencimento</TableHead>
+              <TableHead>Valor (R$)</TableHead>
+              <TableHead className="hidden sm:table-cell">Linha digitável</TableHead>
+            </TableRow>
+          </TableHeader>
+          <TableBody>
+            {drafts.map((draft, index) => (
+              <TableRow key={draft.barcode} className={draft.include ? undefined : "opacity-50"}>
+                <TableCell>
+                  <Checkbox
+                    checked={draft.include}
+                    onCheckedChange={(checked) => updateDraft(index, { include: checked === true })}
+                    aria-label="Incluir parcela"
+                  />
+                </TableCell>
+                <TableCell>
+                  <Input
+                    type="date"
+                    value={draft.dueDate}
+                    onChange={(e) => updateDraft(index, { dueDate: e.target.value })}
+                    className="h-8 w-[150px] text-xs"
+                  />
+                </TableCell>
+                <TableCell>
+                  <Input
+                    inputMode="decimal"
+                    placeholder="0,00"
+                    value={draft.amount}
+                    onChange={(e) => updateDraft(index, { amount: e.target.value })}
+                    className="h-8 w-[110px] text-xs"
+                  />
+                </TableCell>
+                <TableCell className="hidden sm:table-cell">
+                  <div className="space-y-1">
+                    <p className="font-mono text-[11px] break-all">{formatLinhaDigitavel(draft.barcode)}</p>
+                    <div className="flex gap-1">
+                      <Badge variant="outline" className="text-[10px] px-1.5 py-0">Página {draft.page}</Badge>
+                      {draft.alreadyRegistered && (
+                        <Badge variant="secondary" className="text-[10px] px-1.5 py-0">Já cadastrado</Badge>
+                      )}
+                    </div>
+                  </div>
+                </TableCell>
+              </TableRow>
+            ))}
+          </TableBody>
+        </Table>
+
+        <div className="flex flex-col sm:flex-row sm:items-center sm:justify-between gap-1 text-sm">
+          <span className="text-muted-foreground">
+            {selected.length} parcela(s) selecionada(s) · Total {total.toLocaleString("pt-BR", { style: "currency", currency: "BRL" })}
+          </span>
+          {invalidCount > 0 && (
+            <span className="text-xs text-destructive">
+              Preencha o valor e o vencimento de {invalidCount} parcela(s).
+            </span>
+          )}
+        </div>
+
+        <DialogFooter className="gap-2">
+          <Button type="button" variant="outline" onClick={onCancel}>
+            Cancelar
+          </Button>
+          <Button type="button" onClick={handleConfirm} disabled={!canConfirm}>
+            Salvar {selected.length} parcela(s)
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+};
@@ -5,6 +5,7 @@ import { PieChart, Pie, Cell, ResponsiveContainer, Legend, BarChart, Bar, XAxis,
 import { PieChart as PieChartIcon, BarChart3, TrendingUp } from "lucide-react";
 import { Button } from "@/components/ui/button";
 import { useState } from "react";
+import { getCategoryColor, type Category } from "@/lib/categories";
 
 interface CategoryData {
   category: string;
@@ -14,20 +15,10 @@ interface CategoryData {
 
 interface CategoryChartProps {
   data: CategoryData[];
+  categories: Category[]; // Cores das categorias do usuário
 }
 
-const CATEGORY_COLORS = {
-  "Energia": "hsl(45, 100%, 51%)",      // Amarelo dourado - representa energia elétrica
-  "Água": "hsl(200, 100%, 50%)",       // Azul claro - representa água
-  "Condomínio": "hsl(280, 65%, 60%)",  // Roxo - representa moradia/condomínio
-  "Internet": "hsl(120, 60%, 50%)",    // Verde - representa conectividade/internet
-  "Mercado": "hsl(15, 85%, 55%)",      // Laranja - representa compras/mercado
-  "Aluguel": "hsl(300, 70%, 50%)",     // Magenta - representa aluguel
-  "Gás": "hsl(340, 75%, 50%)",         // Rosa/vermelho - representa gás
-  "Outros": "hsl(0, 0%, 50%)"          // Cinza - categoria genérica
-};
-
-export const CategoryChart = ({ data }: CategoryChartProps) => {
+export const CategoryChart = ({ data, categories }: CategoryChartProps) => {
   const [chartType, setChartType] = useState<'pie' | 'bar' | 'line'>('pie');
   
   const formatCurrency = (value: number) => {
@@ -40,7 +31,7 @@ export const CategoryChart = ({ data }: CategoryChartProps) => {
 
   const chartData = data.map(item => ({
     ...item,
-    fill: CATEGORY_COLORS[item.category as keyof typeof CATEGORY_COLORS] || CATEGORY_COLORS["Outros"]
+    fill: getCategoryColor(categories, item.category)
   }));
 
   const CustomTooltip = ({ active, payload }: any) => {
@@ -64,7 +55,7 @@ export const CategoryChart = ({ data }: CategoryChartProps) => {
   const chartConfig = data.reduce((config, item) => {
     config[item.category] = {
       label: item.category,
-      color: CATEGORY_COLORS[item.category as keyof typeof CATEGORY_COLORS] || CATEGORY_COLORS["Outros"]
+      color: getCategoryColor(categories, item.category)
     };
     return config;
   }, {} as any);
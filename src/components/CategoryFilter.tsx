@@ -1,60 +1,120 @@
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
 import { Badge } from "@/components/ui/badge";
 import { Button } from "@/components/ui/button";
-import { X, Filter } from "lucide-react";
+import { X, Filter, Landmark } from "lucide-react";
+import { getBankInfo, getBankName } from "@/lib/banks";
+import { CategoryIcon } from "@/components/CategoryIcon";
+import type { Category } from "@/lib/categories";
+
+// Categoria exibida no filtro; label inclui a categoria-mãe
+export type CategoryOption = Pick<Category, "name" | "color" | "icon"> & { label: string };
 
 interface CategoryFilterProps {
-  categories: string[];
+  categories: CategoryOption[];
   selectedCategory: string | null;
   onCategoryChange: (category: string | null) => void;
+  banks?: string[]; // Códigos COMPE dos bancos emissores presentes nas contas
+  selectedBank?: string | null;
+  onBankChange?: (bank: string | null) => void;
 }
 
 export const CategoryFilter = ({ 
   categories, 
   selectedCategory, 
-  onCategoryChange 
+  onCategoryChange,
+  banks = [],
+  selectedBank = null,
+  onBankChange
 }: CategoryFilterProps) => {
   const handleClearFilter = () => {
     onCategoryChange(null);
   };
 
   return (
-    <div className="flex items-center gap-4">
-      <div className="flex items-center gap-2">
-        <Filter className="h-4 w-4 text-muted-foreground" />
-        <span className="text-sm font-medium">Filtrar por categoria:</span>
+    <div className="flex flex-col sm:flex-row sm:items-center gap-4">
+      <div className="flex items-center gap-4">
+        <div className="flex items-center gap-2">
+          <Filter className="h-4 w-4 text-muted-foreground" />
+          <span className="text-sm font-medium">Filtrar por categoria:</span>
+        </div>
+        
+        <Select
+          value={selectedCategory || "all"}
+          onValueChange={(value) => onCategoryChange(value === "all" ? null : value)}
+        >
+          <SelectTrigger className="w-[200px]">
+            <SelectValue placeholder="Todas as categorias" />
+          </SelectTrigger>
+          <SelectContent>
+            <SelectItem value="all">Todas as categorias</SelectItem>
+            {categories.map((category) => (
+              <SelectItem key={category.name} value={category.name}>
+                <span className="flex items-center gap-2">
+                  <CategoryIcon icon={category.icon} color={category.color} className="h-3.5 w-3.5" />
+                  {category.label}
+                </span>
+              </SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+
+        {selectedCategory && (
+          <Badge variant="secondary" className="flex items-center gap-1">
+            {selectedCategory}
+            <Button
+              variant="ghost"
+              size="sm"
+              className="h-4 w-4 p-0 hover:bg-transparent"
+              onClick={handleClearFilter}
+            >
+              <X className="h-3 w-3" />
+            </Button>
+          </Badge>
+        )}
       </div>
-      
-      <Select
-        value={selectedCategory || "all"}
-        onValueChange={(value) => onCategoryChange(value === "all" ? null : value)}
-      >
-        <SelectTrigger className="w-[200px]">
-          <SelectValue placeholder="Todas as categorias" />
-        </SelectTrigger>
-        <SelectContent>
-          <SelectItem value="all">Todas as categorias</SelectItem>
-          {categories.map((category) => (
-            <SelectItem key={category} value={category}>
-              {category}
-            </SelectItem>
-          ))}
-        </SelectContent>
-      </Select>
-
-      {selectedCategory && (
-        <Badge variant="secondary" className="flex items-center gap-1">
-          {selectedCategory}
-          <Button
-            variant="ghost"
-            size="sm"
-            className="h-4 w-4 p-0 hover:bg-transparent"
-            onClick={handleClearFilter}
+
+      {onBankChange && banks.length > 0 && (
+        <div className="flex items-center gap-4">
+          <div className="flex items-center gap-2">
+            <Landmark className="h-4 w-4 text-muted-foreground" />
+            <span className="text-sm font-medium">Banco emissor:</span>
+          </div>
+
+          <Select
+            value={selectedBank || "all"}
+            onValueChange={(value) => onBankChange(value === "all" ? null : value)}
           >
-            <X className="h-3 w-3" />
-          </Button>
-        </Badge>
+            <SelectTrigger className="w-[200px]">
+              <SelectValue placeholder="Todos os bancos" />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value="all">Todos os bancos</SelectItem>
+              {banks.map((bank) => (
+                <SelectItem key={bank} value={bank}>
+                  <span className="flex items-center gap-2">
+                    <span className="h-2 w-2 rounded-full" style={{ backgroundColor: getBankInfo(bank).color }} />
+                    {getBankName(bank)}
+                  </span>
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+
+          {selectedBank && (
+            <Badge variant="secondary" className="flex items-center gap-1">
+              {getBankName(selectedBank)}
+              <Button
+                variant="ghost"
+                size="sm"
+                className="h-4 w-4 p-0 hover:bg-transparent"
+                onClick={() => onBankChange(null)}
+              >
+                <X className="h-3 w-3" />
+              </Button>
+            </Badge>
+          )}
+        </div>
       )}
     </div>
   );
-};
\ No newline at end of file
+};
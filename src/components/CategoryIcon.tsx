@@ -0,0 +1,51 @@
+import {
+  Building,
+  Car,
+  CreditCard,
+  Droplet,
+  Flame,
+  GraduationCap,
+  HeartPulse,
+  Home,
+  Landmark,
+  Phone,
+  Shield,
+  ShoppingCart,
+  Tag,
+  Utensils,
+  Wifi,
+  Zap,
+  type LucideIcon,
+} from "lucide-react";
+import type { CATEGORY_ICON_NAMES } from "@/lib/categories";
+
+const ICONS: Record<(typeof CATEGORY_ICON_NAMES)[number], LucideIcon> = {
+  "tag": Tag,
+  "home": Home,
+  "building": Building,
+  "zap": Zap,
+  "droplet": Droplet,
+  "flame": Flame,
+  "wifi": Wifi,
+  "shopping-cart": ShoppingCart,
+  "landmark": Landmark,
+  "car": Car,
+  "heart-pulse": HeartPulse,
+  "graduation-cap": GraduationCap,
+  "phone": Phone,
+  "credit-card": CreditCard,
+  "shield": Shield,
+  "utensils": Utensils,
+};
+
+interface CategoryIconProps {
+  icon: string;
+  color?: string;
+  className?: string;
+}
+
+// Ícone da categoria; nomes desconhecidos usam a etiqueta genérica
+export const CategoryIcon = ({ icon, color, className }: CategoryIconProps) => {
+  const Icon = ICONS[icon as keyof typeof ICONS] ?? Tag;
+  return <Icon className={className} style={color ? { color } : undefined} />;
+};
@@ -0,0 +1,283 @@
+import { useState } from "react";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Badge } from "@/components/ui/badge";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { useToast } from "@/hooks/use-toast";
+import { Check, Loader2, Pencil, Plus, Tags, Trash2, X } from "lucide-react";
+import { cn } from "@/lib/utils";
+import { useCategories } from "@/hooks/use-categories";
+import { CategoryIcon } from "@/components/CategoryIcon";
+import {
+  CATEGORY_COLOR_OPTIONS,
+  CATEGORY_ICON_NAMES,
+  DEFAULT_CATEGORY_COLOR,
+  DEFAULT_CATEGORY_ICON,
+  FALLBACK_CATEGORY,
+  getCategoryLabel,
+  parseKeywords,
+  type Category,
+} from "@/lib/categories";
+
+interface CategoryFormState {
+  name: string;
+  color: string;
+  icon: string;
+  parentId: string | null;
+  keywords: string; // Separadas por vírgula
+}
+
+const EMPTY_FORM: CategoryFormState = {
+  name: "",
+  color: DEFAULT_CATEGORY_COLOR,
+  icon: DEFAULT_CATEGORY_ICON,
+  parentId: null,
+  keywords: "",
+};
+
+const toFormState = (category: Category): CategoryFormState => ({
+  name: category.name,
+  color: category.color,
+  icon: category.icon,
+  parentId: category.parentId,
+  keywords: category.keywords.join(", "),
+});
+
+/**
+ * Cadastro das categorias do usuário: nome, cor, ícone, categoria-mãe e as
+ * palavras-chave usadas para sugerir a categoria. A lista também vai para o prompt da IA.
+ */
+export const CategoryManager = () => {
+  const { toast } = useToast();
+  const { categories, isLoading, addCategory, updateCategory, deleteCategory } = useCategories();
+  // null: formulário fechado; "new": nova categoria; id: categoria em edição
+  const [editing, setEditing] = useState<string | null>(null);
+  const [form, setForm] = useState<CategoryFormState>(EMPTY_FORM);
+
+  const editingCategory = categories.find((category) => category.id === editing);
+  const isSaving = addCategory.isPending || updateCategory.isPending;
+  // Um nível só: subcategorias não recebem filhas
+  const parentOptions = categories.filter(
+    (category) => !category.parentId && category.id !== editing && category.name !== FALLBACK_CATEGORY
+  );
+  const hasChildren = !!editingCategory && categories.some((category) => category.parentId === editingCategory.id);
+
+  const showError = (title: string, error: unknown) => {
+    toast({
+      variant: "destructive",
+      title,
+      description: error instanceof Error ? error.message : "Erro desconhecido",
+    });
+  };
+
+  const openForm = (category?: Category) => {
+    setEditing(category?.id ?? "new");
+    setForm(category ? toFormState(category) : EMPTY_FORM);
+  };
+
+  const closeForm = () => {
+    setEditing(null);
+    setForm(EMPTY_FORM);
+  };
+
+  const handleSave = async () => {
+    const draft = {
+      name: form.name.trim(),
+      color: form.color,
+      icon: form.icon,
+      parentId: hasChildren ? null : form.parentId,
+      keywords: parseKeywords(form.keywords),
+    };
+    try {
+      if (editingCategory) {
+        await updateCategory.mutateAsync({ category: editingCategory, patch: draft });
+      } else {
+        await addCategory.mutateAsync(draft);
+      }
+      toast({ title: "Categoria salva", description: `"${draft.name}" está disponível nas contas e na análise por IA.` });
+      closeForm();
+    } catch (error) {
+      showError("Erro ao salvar categoria", error);
+    }
+  };
+
+  const handleDelete = async (category: Category) => {
+    const parent = categories.find((candidate) => candidate.id === category.parentId);
+    try {
+      await deleteCategory.mutateAsync(category);
+      toast({
+        title: "Categoria excluída",
+        description: `As contas de "${category.name}" passaram para "${parent?.name ?? FALLBACK_CATEGORY}".`,
+      });
+      if (editing === category.id) closeForm();
+    } catch (error) {
+      showError("Erro ao excluir categoria", error);
+    }
+  };
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <Tags className="h-5 w-5 text-primary" />
+          Categorias
+        </CardTitle>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <p className="text-sm text-muted-foreground">
+          Usadas nos gráficos, no filtro e no cadastro das contas. A IA classifica os boletos nesta lista, e as
+          palavras-chave sugerem a categoria quando o texto do PDF é lido sem IA.
+        </p>
+
+        {isLoading && (
+          <div className="flex items-center gap-2 text-sm text-muted-foreground">
+            <Loader2 className="h-4 w-4 animate-spin" />
+            Carregando categorias...
+          </div>
+        )}
+
+        <div className="space-y-2">
+          {categories.map((category) => (
+            <div
+              key={category.id}
+              className={cn(
+                "flex items-center justify-between gap-3 rounded-md border px-3 py-2",
+                editing === category.id && "border-primary"
+              )}
+            >
+              <div className="flex items-center gap-2 min-w-0">
+                <CategoryIcon icon={category.icon} color={category.color} className="h-4 w-4 shrink-0" />
+                <span className="text-sm font-medium truncate">{getCategoryLabel(categories, category)}</span>
+                {category.keywords.length > 0 && (
+                  <Badge variant="outline" className="text-xs shrink-0">
+                    {category.keywords.length} palavra{category.keywords.length > 1 ? "s" : ""}-chave
+                  </Badge>
+                )}
+              </div>
+              <div className="flex gap-1 shrink-0">
+                <Button variant="ghost" size="sm" onClick={() => openForm(category)}>
+                  <Pencil className="h-4 w-4" />
+                </Button>
+                {category.name !== FALLBACK_CATEGORY && (
+                  <Button
+                    variant="ghost"
+                    size="sm"
+                    onClick={() => handleDelete(category)}
+                    disabled={deleteCategory.isPending}
+                  >
+                    <Trash2 className="h-4 w-4" />
+                  </Button>
+                )}
+              </div>
+            </div>
+          ))}
+        </div>
+
+        {editing ? (
+          <div className="space-y-3 rounded-md border p-3">
+            <div className="grid grid-cols-1 sm:grid-cols-2 gap-3">
+              <div className="space-y-1">
+                <Label htmlFor="category-name">Nome</Label>
+                <Input
+                  id="category-name"
+                  value={form.name}
+                  onChange={(e) => setForm((prev) => ({ ...prev, name: e.target.value }))}
+                  disabled={editingCategory?.name === FALLBACK_CATEGORY}
+                  placeholder="Ex: Saúde"
+                />
+              </div>
+              <div className="space-y-1">
+                <Label>Categoria-mãe</Label>
+                <Select
+                  value={form.parentId ?? "none"}
+                  onValueChange={(value) => setForm((prev) => ({ ...prev, parentId: value === "none" ? null : value }))}
+                  disabled={hasChildren || editingCategory?.name === FALLBACK_CATEGORY}
+                >
+                  <SelectTrigger>
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value="none">Nenhuma</SelectItem>
+                    {parentOptions.map((category) => (
+                      <SelectItem key={category.id} value={category.id}>
+                        {category.name}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+            </div>
+
+            <div className="space-y-1">
+              <Label>Cor</Label>
+              <div className="flex flex-wrap gap-2">
+                {CATEGORY_COLOR_OPTIONS.map((color) => (
+                  <button
+                    key={color}
+                    type="button"
+                    aria-label={color}
+                    className={cn(
+                      "h-6 w-6 rounded-full border-2",
+                      form.color === color ? "border-foreground" : "border-transparent"
+                    )}
+                    style={{ backgroundColor: color }}
+                    onClick={() => setForm((prev) => ({ ...prev, color }))}
+                  />
+                ))}
+              </div>
+            </div>
+
+            <div className="space-y-1">
+              <Label>Ícone</Label>
+              <div className="flex flex-wrap gap-1">
+                {CATEGORY_ICON_NAMES.map((icon) => (
+                  <Button
+                    key={icon}
+                    type="button"
+                    variant={form.icon === icon ? "default" : "outline"}
+                    size="sm"
+                    className="h-8 w-8 p-0"
+                    onClick={() => setForm((prev) => ({ ...prev, icon }))}
+                  >
+                    <CategoryIcon icon={icon} className="h-4 w-4" />
+                  </Button>
+                ))}
+              </div>
+            </div>
+
+            <div className="space-y-1">
+              <Label htmlFor="category-keywords">Palavras-chave</Label>
+              <Input
+                id="category-keywords"
+                value={form.keywords}
+                onChange={(e) => setForm((prev) => ({ ...prev, keywords: e.target.value }))}
+                placeholder="Ex: farmácia, drogaria, plano de saúde"
+              />
+              <p className="text-xs text-muted-foreground">
+                Separadas por vírgula. Valem como palavra inteira, sem diferenciar acentos ou maiúsculas.
+              </p>
+            </div>
+
+            <div className="flex justify-end gap-2">
+              <Button variant="ghost" size="sm" onClick={closeForm} disabled={isSaving}>
+                <X className="h-4 w-4 mr-1" />
+                Cancelar
+              </Button>
+              <Button size="sm" onClick={handleSave} disabled={isSaving || !form.name.trim()}>
+                {isSaving ? <Loader2 className="h-4 w-4 mr-1 animate-spin" /> : <Check className="h-4 w-4 mr-1" />}
+                Salvar
+              </Button>
+            </div>
+          </div>
+        ) : (
+          <Button variant="outline" size="sm" onClick={() => openForm()} disabled={isLoading}>
+            <Plus className="h-4 w-4 mr-2" />
+            Nova categoria
+          </Button>
+        )}
+      </CardContent>
+    </Card>
+  );
+};
@@ -0,0 +1,34 @@
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { FALLBACK_CATEGORY, getCategoryLabel, type Category } from "@/lib/categories";
+import { CategoryIcon } from "./CategoryIcon";
+
+interface CategorySelectProps {
+  categories: Category[]; // Categorias do usuário (useCategories)
+  value: string; // Nome da categoria; vazio mostra a categoria genérica como sugestão
+  onValueChange: (value: string) => void;
+  id?: string;
+  className?: string; // Aplicado ao gatilho do select
+}
+
+// Escolha da categoria entre as cadastradas, usada em todos os formulários de conta
+export const CategorySelect = ({ categories, value, onValueChange, id, className }: CategorySelectProps) => (
+  <Select value={value} onValueChange={onValueChange}>
+    <SelectTrigger id={id} className={className}>
+      <SelectValue placeholder={FALLBACK_CATEGORY} />
+    </SelectTrigger>
+    <SelectContent>
+      {categories.map((option) => (
+        <SelectItem key={option.id} value={option.name}>
+          <span className="flex items-center gap-2">
+            <CategoryIcon icon={option.icon} color={option.color} className="h-3.5 w-3.5" />
+            {getCategoryLabel(categories, option)}
+          </span>
+        </SelectItem>
+      ))}
+      {/* Sugestão da IA ou do código de barras fora das categorias cadastradas */}
+      {value && !categories.some((option) => option.name === value) && (
+        <SelectItem value={value}>{value}</SelectItem>
+      )}
+    </SelectContent>
+  </Select>
+);
@@ -0,0 +1,91 @@
+import {
+  AlertDialog,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from "@/components/ui/alert-dialog";
+import { Button } from "@/components/ui/button";
+import { Building, Calendar, DollarSign } from "lucide-react";
+import { formatLinhaDigitavel } from "@/lib/boleto";
+import type { DuplicateMatch } from "@/lib/duplicates";
+import { Bill } from "./BillsList";
+
+export type NewBill = Omit<Bill, "id" | "status">;
+
+interface DuplicateBillDialogProps {
+  duplicate: { bill: NewBill; match: DuplicateMatch<Bill> } | null;
+  onSkip: () => void;
+  onMerge: () => void;
+  onKeepBoth: () => void;
+  onCancel: () => void;
+}
+
+const formatCurrency = (amount: number) =>
+  new Intl.NumberFormat('pt-BR', { style: 'currency', currency: 'BRL' }).format(amount);
+
+const formatDate = (dateString: string) => {
+  const [year, month, day] = dateString.split('-');
+  return `${day}/${month}/${year}`;
+};
+
+export const BillSummary = ({ title, bill }: { title: string; bill: NewBill | Bill }) => (
+  <div className="p-3 rounded-lg border bg-muted/40 space-y-1 min-w-0">
+    <p className="text-[11px] font-medium uppercase text-muted-foreground">{title}</p>
+    <div className="flex items-center gap-1 text-sm font-medium min-w-0">
+      <Building className="h-3 w-3 text-muted-foreground flex-shrink-0" />
+      <span className="truncate">{bill.beneficiary}</span>
+    </div>
+    <div className="flex items-center gap-3 text-xs text-muted-foreground">
+      <span className="flex items-center gap-1"><DollarSign className="h-3 w-3" />{formatCurrency(bill.amount)}</span>
+      <span className="flex items-center gap-1"><Calendar className="h-3 w-3" />{formatDate(bill.dueDate)}</span>
+    </div>
+    {bill.barcode && (
+      <p className="text-[11px] text-muted-foreground truncate">{formatLinhaDigitavel(bill.barcode)}</p>
+    )}
+  </div>
+);
+
+export const DuplicateBillDialog = ({ duplicate, onSkip, onMerge, onKeepBoth, onCancel }: DuplicateBillDialogProps) => {
+  const isSameBarcode = duplicate?.match.reason === "barcode";
+
+  return (
+    <AlertDialog open={!!duplicate} onOpenChange={(open) => !open && onCancel()}>
+      <AlertDialogContent className="max-w-lg">
+        {duplicate && (
+          <>
+            <AlertDialogHeader>
+              <AlertDialogTitle>Este boleto parece já estar cadastrado</AlertDialogTitle>
+              <AlertDialogDescription>
+                {isSameBarcode
+                  ? "Já existe uma conta com o mesmo código de barras. Um mesmo boleto não pode ser cadastrado duas vezes."
+                  : "Encontramos uma conta com beneficiário, valor e vencimento parecidos."}
+                {duplicate.match.bill.status === "paid" && " A conta existente já está marcada como paga."}
+              </AlertDialogDescription>
+            </AlertDialogHeader>
+
+            <div className="grid grid-cols-1 sm:grid-cols-2 gap-2">
+              <BillSummary title="Conta existente" bill={duplicate.match.bill} />
+              <BillSummary title="Novo cadastro" bill={duplicate.bill} />
+            </div>
+
+            <p className="text-xs text-muted-foreground">
+              Mesclar completa a conta existente com os dados que faltam nela (código de barras, PIX, multa e juros, categoria...).
+            </p>
+
+            <AlertDialogFooter className="gap-2 sm:gap-0">
+              <AlertDialogCancel onClick={onCancel}>Voltar</AlertDialogCancel>
+              <Button variant="outline" onClick={onSkip}>Pular</Button>
+              {!isSameBarcode && (
+                <Button variant="outline" onClick={onKeepBoth}>Manter ambos</Button>
+              )}
+              <Button onClick={onMerge}>Mesclar</Button>
+            </AlertDialogFooter>
+          </>
+        )}
+      </AlertDialogContent>
+    </AlertDialog>
+  );
+};
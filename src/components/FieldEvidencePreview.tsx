@@ -0,0 +1,183 @@
+import { useEffect, useState } from "react";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { AlertCircle, ChevronLeft, ChevronRight, Loader2 } from "lucide-react";
+import { cn } from "@/lib/utils";
+import { formatLinhaDigitavel } from "@/lib/boleto";
+import { isPdfFile, renderPdfPageToJpeg } from "@/lib/pdf-converter";
+import { BILL_FIELDS, LOW_FIELD_CONFIDENCE, type BillAnalysisResult, type BillField } from "@/lib/bill-schema";
+
+interface FieldEvidencePreviewProps {
+  file: File;
+  result: BillAnalysisResult;
+  mismatchedFields?: string[]; // Campos que divergem da linha digitável
+}
+
+const FIELD_LABELS: Record<BillField, string> = {
+  beneficiary: "Beneficiário",
+  amount: "Valor",
+  dueDate: "Vencimento",
+  barcode: "Linha digitável",
+  category: "Categoria",
+};
+
+const formatFieldValue = (field: BillField, result: BillAnalysisResult): string => {
+  switch (field) {
+    case "amount":
+      return result.amount ? result.amount.toLocaleString("pt-BR", { style: "currency", currency: "BRL" }) : "";
+    case "dueDate":
+      return result.dueDate ? result.dueDate.split("-").reverse().join("/") : "";
+    case "barcode":
+      return formatLinhaDigitavel(result.barcode);
+    default:
+      return result[field] ?? "";
+  }
+};
+
+// Verde para leituras seguras, âmbar para conferir e vermelho para quase certamente erradas
+const getConfidenceTone = (confidence: number, mismatched: boolean) => {
+  if (mismatched || confidence < 0.4) return { box: "border-red-500 bg-red-500/10", text: "text-red-600" };
+  if (confidence < LOW_FIELD_CONFIDENCE) return { box: "border-amber-500 bg-amber-500/10", text: "text-amber-700" };
+  return { box: "border-green-600 bg-green-600/10", text: "text-green-700" };
+};
+
+/**
+ * Documento analisado com a região de cada valor extraído destacada e a lista
+ * dos campos com a confiança de cada um; os de baixa confiança pedem conferência.
+ */
+export const FieldEvidencePreview = ({ file, result, mismatchedFields = [] }: FieldEvidencePreviewProps) => {
+  const fields = BILL_FIELDS.filter((field) => result.fields?.[field]);
+  const regionPages = Array.from(new Set(fields.map((field) => result.fields![field]!.region?.page).filter(Boolean))).sort((a, b) => a - b);
+  const [page, setPage] = useState(regionPages[0] ?? 1);
+  const [previewUrl, setPreviewUrl] = useState<string | null>(null);
+  const [isRendering, setIsRendering] = useState(false);
+  const [hoveredField, setHoveredField] = useState<BillField | null>(null);
+
+  const hasRegions = regionPages.length > 0;
+
+  // Imagens são exibidas como estão; PDFs têm a página renderizada sob demanda
+  useEffect(() => {
+    if (!hasRegions) return;
+    let cancelled = false;
+    let url: string | null = null;
+
+    const load = async () => {
+      setIsRendering(true);
+      try {
+        const image = isPdfFile(file) ? await renderPdfPageToJpeg(file, page, 1.5) : file;
+        if (cancelled) return;
+        url = URL.createObjectURL(image);
+        setPreviewUrl(url);
+      } catch (error) {
+        console.error('❌ Erro ao gerar a pré-visualização:', error);
+        if (!cancelled) setPreviewUrl(null);
+      } finally {
+        if (!cancelled) setIsRendering(false);
+      }
+    };
+    load();
+
+    return () => {
+      cancelled = true;
+      if (url) URL.revokeObjectURL(url);
+    };
+  }, [file, page, hasRegions]);
+
+  if (fields.length === 0) return null;
+
+  const pageIndex = regionPages.indexOf(page);
+  const lowConfidenceCount = fields.filter(
+    (field) => result.fields![field]!.confidence < LOW_FIELD_CONFIDENCE || mismatchedFields.includes(field)
+  ).length;
+
+  return (
+    <div className="mt-3 space-y-2">
+      {hasRegions && (
+        <div className="relative rounded-md border bg-white overflow-hidden">
+          {previewUrl ? (
+            <>
+              <img src={previewUrl} alt="Documento analisado" className="w-full h-auto block" />
+              {fields.map((field) => {
+                const { confidence, region } = result.fields![field]!;
+                if (!region || region.page !== page) return null;
+                const tone = getConfidenceTone(confidence, mismatchedFields.includes(field));
+                return (
+                  <div
+                    key={field}
+                    title={`${FIELD_LABELS[field]}: ${Math.round(confidence * 100)}%`}
+                    className={cn(
+                      "absolute border-2 rounded-sm transition-shadow",
+                      tone.box,
+                      hoveredField === field && "ring-2 ring-primary ring-offset-1"
+                    )}
+                    style={{
+                      left: `${region.x * 100}%`,
+                      top: `${region.y * 100}%`,
+                      width: `${region.width * 100}%`,
+                      height: `${region.height * 100}%`,
+                    }}
+                  />
+                );
+              })}
+            </>
+          ) : (
+            <div className="flex items-center justify-center h-24 text-xs text-muted-foreground gap-2">
+              {isRendering && <Loader2 className="h-3.5 w-3.5 animate-spin" />}
+              {isRendering ? "Gerando pré-visualização..." : "Pré-visualização indisponível"}
+            </div>
+          )}
+          {regionPages.length > 1 && (
+            <div className="absolute bottom-1 right-1 flex items-center gap-1 rounded bg-background/90 px-1">
+              <Button type="button" variant="ghost" size="sm" className="h-6 w-6 p-0" disabled={pageIndex <= 0} onClick={() => setPage(regionPages[pageIndex - 1])}>
+                <ChevronLeft className="h-3.5 w-3.5" />
+              </Button>
+              <span className="text-[11px]">Página {page}</span>
+              <Button type="button" variant="ghost" size="sm" className="h-6 w-6 p-0" disabled={pageIndex >= regionPages.length - 1} onClick={() => setPage(regionPages[pageIndex + 1])}>
+                <ChevronRight className="h-3.5 w-3.5" />
+              </Button>
+            </div>
+          )}
+        </div>
+      )}
+
+      <div className="space-y-1">
+        {fields.map((field) => {
+          const { confidence, region } = result.fields![field]!;
+          const mismatched = mismatchedFields.includes(field);
+          const tone = getConfidenceTone(confidence, mismatched);
+          const needsReview = mismatched || confidence < LOW_FIELD_CONFIDENCE;
+          return (
+            <div
+              key={field}
+              className="flex items-center justify-between gap-2 text-xs"
+              onMouseEnter={() => {
+                setHoveredField(field);
+                if (region && region.page !== page) setPage(region.page);
+              }}
+              onMouseLeave={() => setHoveredField(null)}
+            >
+              <span className="min-w-0 truncate">
+                <span className="text-muted-foreground">{FIELD_LABELS[field]}:</span> {formatFieldValue(field, result) || "—"}
+              </span>
+              <span className="flex items-center gap-1 flex-shrink-0">
+                {needsReview && (
+                  <Badge variant="outline" className={cn("text-[10px] px-1.5 py-0 gap-1", tone.text)}>
+                    <AlertCircle className="h-2.5 w-2.5" />
+                    {mismatched ? "Divergente" : "Conferir"}
+                  </Badge>
+                )}
+                <span className={cn("font-medium tabular-nums", tone.text)}>{Math.round(confidence * 100)}%</span>
+              </span>
+            </div>
+          );
+        })}
+      </div>
+
+      {lowConfidenceCount > 0 && (
+        <p className="text-[11px] text-amber-700">
+          Confira {lowConfidenceCount === 1 ? "o campo marcado" : `os ${lowConfidenceCount} campos marcados`} antes de salvar.
+        </p>
+      )}
+    </div>
+  );
+};
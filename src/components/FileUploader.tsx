@@ -8,28 +8,42 @@ import { cn } from "@/lib/utils";
 import { toast } from "sonner";
 
 interface FileUploaderProps {
-  onFileSelect: (file: File) => void;
-  onFileRemove: () => void;
+  onFileSelect?: (file: File) => void;
+  onFilesSelect?: (files: File[]) => void; // Vários arquivos de uma vez (maxFiles > 1)
+  onFileRemove?: () => void;
   selectedFile?: File | null;
+  maxFiles?: number;
   disabled?: boolean;
 }
 
 export const FileUploader = ({ 
   onFileSelect, 
+  onFilesSelect,
   onFileRemove, 
   selectedFile, 
+  maxFiles = 1,
   disabled = false 
 }: FileUploaderProps) => {
   const [preview, setPreview] = useState<string | null>(null);
+  const multiple = maxFiles > 1;
 
   const onDrop = useCallback(async (acceptedFiles: File[]) => {
+    // Na seleção múltipla os arquivos seguem para a fila, sem preview individual
+    if (multiple) {
+      if (acceptedFiles.length > 0) {
+        console.log('FileUploader: Arquivos selecionados:', acceptedFiles.map((file) => file.name));
+        onFilesSelect?.(acceptedFiles);
+      }
+      return;
+    }
+
     const file = acceptedFiles[0];
     if (file) {
       console.log('FileUploader: Arquivo selecionado:', file.name, 'Tipo:', file.type);
       
       // Passar o arquivo diretamente para o componente pai
       // A conversão PDF->JPEG será feita no AddBillModal
-      onFileSelect(file);
+      onFileSelect?.(file);
       
       // Create preview for images only
       if (file.type.startsWith('image/')) {
@@ -44,7 +58,7 @@ export const FileUploader = ({
       
       toast.success(`Arquivo "${file.name}" selecionado com sucesso!`);
     }
-  }, [onFileSelect]);
+  }, [multiple, onFileSelect, onFilesSelect]);
 
   const { getRootProps, getInputProps, isDragActive } = useDropzone({
     onDrop,
@@ -53,7 +67,7 @@ export const FileUploader = ({
       'image/jpeg': ['.jpg', '.jpeg'],
       'image/png': ['.png']
     },
-    maxFiles: 1,
+    maxFiles,
     maxSize: 10485760, // 10MB
     disabled,
     onDropRejected: (fileRejections) => {
@@ -61,7 +75,7 @@ export const FileUploader = ({
       if (rejection.errors[0]?.code === 'file-invalid-type') {
         toast.error("Formato não suportado. Use apenas PDF, JPG, JPEG ou PNG.");
       } else if (rejection.errors[0]?.code === 'too-many-files') {  
-        toast.error("Selecione apenas um arquivo por vez.");
+        toast.error(multiple ? `Selecione no máximo ${maxFiles} arquivos por vez.` : "Selecione apenas um arquivo por vez.");
       } else if (rejection.errors[0]?.code === 'file-too-large') {
         toast.error("Arquivo muito grande. Máximo 10MB.");
       }
@@ -77,7 +91,7 @@ export const FileUploader = ({
   };
 
   const handleRemoveFile = () => {
-    onFileRemove();
+    onFileRemove?.();
     setPreview(null);
     toast.success("Arquivo removido.");
   };
@@ -162,8 +176,8 @@ export const FileUploader = ({
           <div className="space-y-1 sm:space-y-2">
             <p className="text-sm font-medium text-foreground">
               {isDragActive 
-                ? "Solte o arquivo aqui..." 
-                : "Upload de Boleto"
+                ? multiple ? "Solte os arquivos aqui..." : "Solte o arquivo aqui..."
+                : multiple ? "Upload de Boletos" : "Upload de Boleto"
               }
             </p>
             <p className="text-xs text-muted-foreground">
@@ -172,7 +186,7 @@ export const FileUploader = ({
             <p className="text-xs text-muted-foreground">
               Formatos aceitos: PDF, JPG, JPEG, PNG (máx. 10MB)
               <br className="hidden sm:block" />
-              <span className="sm:hidden"> • </span>PDFs são analisados diretamente
+              <span className="sm:hidden"> • </span>{multiple ? `Até ${maxFiles} arquivos por vez` : "PDFs são analisados diretamente"}
             </p>
           </div>
           
@@ -184,7 +198,7 @@ export const FileUploader = ({
             className="mx-auto h-8 sm:h-9 text-xs sm:text-sm"
           >
             <File className="h-3 w-3 sm:h-4 sm:w-4 mr-1 sm:mr-2" />
-            Selecionar Arquivo
+            {multiple ? "Selecionar Arquivos" : "Selecionar Arquivo"}
           </Button>
         </div>
       </div>
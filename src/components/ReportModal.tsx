@@ -11,11 +11,15 @@ import {
 } from "@/components/ui/dialog";
 import { Input } from "@/components/ui/input";
 import { Label } from "@/components/ui/label";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
 import { FileDown, Calendar } from "lucide-react";
 import { format } from "date-fns";
 import { ptBR } from "date-fns/locale";
 import jsPDF from "jspdf";
 import { Bill } from "./BillsList";
+import { formatLinhaDigitavel, normalizeBarcode, drawItfOnPdf } from "@/lib/boleto";
+import { getBankName } from "@/lib/banks";
 
 interface ReportModalProps {
   bills: Bill[];
@@ -26,6 +30,25 @@ export const ReportModal = ({ bills }: ReportModalProps) => {
   const [startDate, setStartDate] = useState("");
   const [endDate, setEndDate] = useState("");
   const [isGenerating, setIsGenerating] = useState(false);
+  // "all" = todos os bancos, "none" = guias sem banco emissor
+  const [selectedBank, setSelectedBank] = useState("all");
+  const [groupByBank, setGroupByBank] = useState(false);
+
+  const banks = Array.from(new Set(bills.map(bill => bill.issuerBank).filter(Boolean))).sort();
+
+  const matchesBank = (bill: Bill) => {
+    if (selectedBank === "all") return true;
+    if (selectedBank === "none") return !bill.issuerBank;
+    return bill.issuerBank === selectedBank;
+  };
+
+  const sortByBank = (list: Bill[]) =>
+    groupByBank
+      ? [...list].sort((a, b) => {
+          if (!a.issuerBank !== !b.issuerBank) return a.issuerBank ? -1 : 1;
+          return getBankName(a.issuerBank).localeCompare(getBankName(b.issuerBank));
+        })
+      : list;
 
   const formatCurrency = (amount: number) => {
     return new Intl.NumberFormat('pt-BR', {
@@ -38,11 +61,6 @@ export const ReportModal = ({ bills }: ReportModalProps) => {
     return format(new Date(dateString), "dd/MM/yyyy", { locale: ptBR });
   };
 
-  const formatBarcode = (barcode?: string) => {
-    if (!barcode) return '';
-    return barcode.replace(/\D/g, '').replace(/(.{4})/g, '$1 ').trim();
-  };
-
   const generateReport = async () => {
     if (!startDate || !endDate) {
       alert("Por favor, preencha as datas de início e fim do período.");
@@ -55,10 +73,10 @@ export const ReportModal = ({ bills }: ReportModalProps) => {
       const start = new Date(startDate);
       const end = new Date(endDate);
       
-      // Filtrar contas por período
+      // Filtrar contas por período e banco emissor
       const filteredBills = bills.filter(bill => {
         const billDate = new Date(bill.dueDate);
-        return billDate >= start && billDate <= end;
+        return billDate >= start && billDate <= end && matchesBank(bill);
       });
 
       // Criar PDF
@@ -76,14 +94,17 @@ export const ReportModal = ({ bills }: ReportModalProps) => {
       doc.setTextColor(100, 100, 100);
       doc.text(`Período: ${formatDate(startDate)} a ${formatDate(endDate)}`, 20, 45);
       doc.text(`Gerado em: ${format(new Date(), "dd/MM/yyyy 'às' HH:mm", { locale: ptBR })}`, 20, 55);
+      if (selectedBank !== "all") {
+        doc.text(`Banco emissor: ${getBankName(selectedBank === "none" ? null : selectedBank)}`, 110, 55);
+      }
       
       // Linha separadora
       doc.setDrawColor(200, 200, 200);
       doc.line(20, 65, 190, 65);
       
       // Estatísticas
-      const paidBills = filteredBills.filter(bill => bill.status === "paid");
-      const pendingBills = filteredBills.filter(bill => bill.status === "pending");
+      const paidBills = sortByBank(filteredBills.filter(bill => bill.status === "paid"));
+      const pendingBills = sortByBank(filteredBills.filter(bill => bill.status === "pending"));
       const totalPaid = paidBills.reduce((sum, bill) => sum + bill.amount, 0);
       const totalPending = pendingBills.reduce((sum, bill) => sum + bill.amount, 0);
       
@@ -101,6 +122,90 @@ export const ReportModal = ({ bills }: ReportModalProps) => {
       
       // Lista de contas pagas
       let yPosition = 160;
+
+      // Totais por banco emissor
+      if (groupByBank && filteredBills.length > 0) {
+        const totalsByBank = new Map<string, { count: number; amount: number }>();
+        filteredBills.forEach(bill => {
+          const name = getBankName(bill.issuerBank);
+          const current = totalsByBank.get(name) || { count: 0, amount: 0 };
+          totalsByBank.set(name, { count: current.count + 1, amount: current.amount + bill.amount });
+        });
+
+        doc.setFontSize(14);
+        doc.setTextColor(40, 40, 40);
+        doc.text("POR BANCO EMISSOR", 20, 150);
+        yPosition = 165;
+
+        doc.setFontSize(10);
+        doc.setTextColor(60, 60, 60);
+        totalsByBank.forEach((totals, name) => {
+          if (yPosition > 275) {
+            doc.addPage();
+            yPosition = 30;
+          }
+          doc.text(name, 20, yPosition);
+          doc.text(`${totals.count} conta${totals.count > 1 ? "s" : ""}`, 100, yPosition);
+          doc.text(formatCurrency(totals.amount), 140, yPosition);
+          yPosition += 10;
+        });
+        yPosition += 15;
+      }
+
+      // Subtítulo do banco atual quando a lista está agrupada
+      let currentBankGroup: string | null = null;
+      const drawBankHeading = (bill: Bill) => {
+        const name = getBankName(bill.issuerBank);
+        if (!groupByBank || name === currentBankGroup) return;
+        currentBankGroup = name;
+        if (yPosition + 8 > 285) {
+          doc.addPage();
+          yPosition = 30;
+        }
+        doc.setFontSize(10);
+        doc.setTextColor(40, 40, 40);
+        doc.text(name, 20, yPosition);
+        doc.setFontSize(9);
+        doc.setTextColor(60, 60, 60);
+        yPosition += 8;
+      };
+
+      // Desenha uma conta: colunas principais, linha digitável e o código de barras ITF-25
+      const drawBillRow = (bill: Bill) => {
+        drawBankHeading(bill);
+        const normalizedBarcode = bill.barcode ? normalizeBarcode(bill.barcode) : null;
+        let rowHeight = 12;
+        if (bill.barcode) rowHeight = 18; // aumenta a altura da linha quando existe barcode
+        if (normalizedBarcode) rowHeight = 36; // espaço para o código de barras escaneável
+
+        if (yPosition + rowHeight > 285) {
+          doc.addPage();
+          yPosition = 30;
+        }
+
+        // Linha principal com colunas
+        doc.text(`${bill.beneficiary}`, 20, yPosition);
+        doc.text(`${formatCurrency(bill.amount)}`, 100, yPosition);
+        doc.text(`${formatDate(bill.dueDate)}`, 140, yPosition);
+        doc.text(`${bill.category || "N/A"}`, 170, yPosition);
+
+        // Linha digitável (se existir)
+        if (bill.barcode) {
+          const formattedBarcode = `Linha digitável: ${formatLinhaDigitavel(bill.barcode)}`;
+          doc.setFontSize(8);
+          doc.setTextColor(90, 90, 90);
+          doc.text(formattedBarcode, 20, yPosition + 6, { maxWidth: 170 });
+          doc.setFontSize(9);
+          doc.setTextColor(60, 60, 60);
+        }
+
+        // Código de barras em tamanho real, para leitura no caixa
+        if (normalizedBarcode) {
+          drawItfOnPdf(doc, normalizedBarcode.barcode, 20, yPosition + 10);
+        }
+
+        yPosition += rowHeight;
+      };
       
       if (paidBills.length > 0) {
         doc.setFontSize(14);
@@ -111,34 +216,8 @@ export const ReportModal = ({ bills }: ReportModalProps) => {
         doc.setFontSize(9);
         doc.setTextColor(60, 60, 60);
         
-        paidBills.forEach((bill) => {
-          if (yPosition > 270) {
-            doc.addPage();
-            yPosition = 30;
-          }
-          
-          // Linha principal com colunas
-          doc.text(`${bill.beneficiary}`, 20, yPosition);
-          doc.text(`${formatCurrency(bill.amount)}`, 100, yPosition);
-          doc.text(`${formatDate(bill.dueDate)}`, 140, yPosition);
-          doc.text(`${bill.category || "N/A"}`, 170, yPosition);
-          
-          let rowHeight = 12;
-          
-          // Linha digitável (se existir)
-          if (bill.barcode) {
-            const formattedBarcode = `Linha digitável: ${formatBarcode(bill.barcode)}`;
-            const nextY = yPosition + 6;
-            doc.setFontSize(8);
-            doc.setTextColor(90, 90, 90);
-            doc.text(formattedBarcode, 20, nextY, { maxWidth: 170 });
-            doc.setFontSize(9);
-            doc.setTextColor(60, 60, 60);
-            rowHeight = 18; // aumenta a altura da linha quando existe barcode
-          }
-          
-          yPosition += rowHeight;
-        });
+        currentBankGroup = null;
+        paidBills.forEach(drawBillRow);
         
         yPosition += 10;
       }
@@ -158,32 +237,8 @@ export const ReportModal = ({ bills }: ReportModalProps) => {
         doc.setFontSize(9);
         doc.setTextColor(60, 60, 60);
         
-        pendingBills.forEach((bill) => {
-          if (yPosition > 270) {
-            doc.addPage();
-            yPosition = 30;
-          }
-          
-          // Linha principal com colunas
-          doc.text(`${bill.beneficiary}`, 20, yPosition);
-          doc.text(`${formatCurrency(bill.amount)}`, 100, yPosition);
-          doc.text(`${formatDate(bill.dueDate)}`, 140, yPosition);
-          doc.text(`${bill.category || "N/A"}`, 170, yPosition);
-          
-          let rowHeight = 12;
-          if (bill.barcode) {
-            const formattedBarcode = `Linha digitável: ${formatBarcode(bill.barcode)}`;
-            const nextY = yPosition + 6;
-            doc.setFontSize(8);
-            doc.setTextColor(90, 90, 90);
-            doc.text(formattedBarcode, 20, nextY, { maxWidth: 170 });
-            doc.setFontSize(9);
-            doc.setTextColor(60, 60, 60);
-            rowHeight = 18;
-          }
-          
-          yPosition += rowHeight;
-        });
+        currentBankGroup = null;
+        pendingBills.forEach(drawBillRow);
       }
       
       // Rodapé
@@ -267,6 +322,33 @@ export const ReportModal = ({ bills }: ReportModalProps) => {
             </div>
           </div>
           
+          {/* Banco emissor */}
+          <div className="space-y-2">
+            <Label className="text-sm font-medium">Banco emissor</Label>
+            <Select value={selectedBank} onValueChange={setSelectedBank}>
+              <SelectTrigger className="text-sm h-9 sm:h-10">
+                <SelectValue placeholder="Todos os bancos" />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="all">Todos os bancos</SelectItem>
+                {banks.map((bank) => (
+                  <SelectItem key={bank} value={bank}>{getBankName(bank)}</SelectItem>
+                ))}
+                <SelectItem value="none">Sem banco emissor (arrecadação)</SelectItem>
+              </SelectContent>
+            </Select>
+            <div className="flex items-center gap-2 pt-1">
+              <Checkbox
+                id="group-by-bank"
+                checked={groupByBank}
+                onCheckedChange={(checked) => setGroupByBank(checked === true)}
+              />
+              <Label htmlFor="group-by-bank" className="text-sm font-normal">
+                Agrupar contas por banco emissor
+              </Label>
+            </div>
+          </div>
+          
           {/* Info Box */}
           <div className="bg-muted/50 p-3 sm:p-4 rounded-lg">
             <p className="text-xs sm:text-sm text-muted-foreground leading-relaxed">
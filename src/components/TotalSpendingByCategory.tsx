@@ -7,6 +7,8 @@ import { Calendar } from "@/components/ui/calendar";
 import { Popover, PopoverContent, PopoverTrigger } from "@/components/ui/popover";
 import { Badge } from "@/components/ui/badge";
 import { cn } from "@/lib/utils";
+import { CategoryIcon } from "@/components/CategoryIcon";
+import { DEFAULT_CATEGORY_COLOR, DEFAULT_CATEGORY_ICON, type Category } from "@/lib/categories";
 
 export interface CategorySpending {
   category: string;
@@ -17,11 +19,12 @@ export interface CategorySpending {
 interface TotalSpendingByCategoryProps {
   data: CategorySpending[];
   paymentHistory: Array<{ month: string; [key: string]: string | number }>;
+  categories?: Category[]; // Ícone e cor das categorias do usuário
 }
 
 type ViewType = "total" | "custom";
 
-export const TotalSpendingByCategory = ({ data, paymentHistory }: TotalSpendingByCategoryProps) => {
+export const TotalSpendingByCategory = ({ data, paymentHistory, categories = [] }: TotalSpendingByCategoryProps) => {
   const [viewType, setViewType] = useState<ViewType>("total");
   const [startDate, setStartDate] = useState<Date>();
   const [endDate, setEndDate] = useState<Date>();
@@ -33,6 +36,11 @@ export const TotalSpendingByCategory = ({ data, paymentHistory }: TotalSpendingB
     }).format(amount);
   };
 
+  const categoriesByName = useMemo(
+    () => new Map(categories.map((category) => [category.name, category])),
+    [categories]
+  );
+
   // Calcular dados baseados no tipo de visualização selecionado
   const calculatedData = useMemo(() => {
     if (viewType === "total") {
@@ -157,9 +165,16 @@ export const TotalSpendingByCategory = ({ data, paymentHistory }: TotalSpendingB
             .sort((a, b) => b.displayAmount - a.displayAmount)
             .map((item) => (
               <div key={item.category} className="flex items-center justify-between p-3 border rounded-lg hover:bg-muted/30 transition-colors">
-                <div className="flex-1">
-                  <p className="font-medium text-foreground">{item.category}</p>
-                  <p className="text-sm text-muted-foreground">{item.count} contas</p>
+                <div className="flex-1 flex items-center gap-3">
+                  <CategoryIcon
+                    icon={categoriesByName.get(item.category)?.icon ?? DEFAULT_CATEGORY_ICON}
+                    color={categoriesByName.get(item.category)?.color ?? DEFAULT_CATEGORY_COLOR}
+                    className="h-4 w-4 shrink-0"
+                  />
+                  <div>
+                    <p className="font-medium text-foreground">{item.category}</p>
+                    <p className="text-sm text-muted-foreground">{item.count} contas</p>
+                  </div>
                 </div>
                 <div className="text-right">
                   <p className="font-semibold text-foreground">{formatCurrency(item.displayAmount)}</p>
@@ -0,0 +1,188 @@
+import { useState } from "react";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Badge } from "@/components/ui/badge";
+import { useToast } from "@/hooks/use-toast";
+import { Fingerprint, Lock, LockOpen, ShieldCheck, Trash2 } from "lucide-react";
+import { useVault } from "@/hooks/use-vault";
+import { VaultUnlockForm } from "@/components/VaultUnlockDialog";
+import {
+  addPasskey,
+  createVault,
+  disableVault,
+  isPasskeySupported,
+  lockVault,
+  MIN_PASSPHRASE_LENGTH,
+  removePasskey,
+  setAutoLockMinutes,
+} from "@/lib/settings-vault";
+
+const AUTO_LOCK_OPTIONS = [5, 15, 30, 60];
+
+/**
+ * Cofre das chaves de API: ativação com senha, desbloqueio, passkey opcional
+ * e tempo de bloqueio automático por inatividade.
+ */
+export const VaultSettingsCard = () => {
+  const { toast } = useToast();
+  const vault = useVault();
+  const [passphrase, setPassphrase] = useState("");
+  const [confirmation, setConfirmation] = useState("");
+  const [isBusy, setIsBusy] = useState(false);
+
+  const run = async (action: () => Promise<void>, success: { title: string; description: string }) => {
+    setIsBusy(true);
+    try {
+      await action();
+      toast(success);
+    } catch (error) {
+      toast({
+        variant: "destructive",
+        title: "Erro no cofre de chaves",
+        description: error instanceof Error ? error.message : "Erro desconhecido",
+      });
+    } finally {
+      setIsBusy(false);
+    }
+  };
+
+  const handleCreate = () => {
+    if (passphrase !== confirmation) {
+      toast({ variant: "destructive", title: "Senhas diferentes", description: "Digite a mesma senha nos dois campos." });
+      return;
+    }
+    run(async () => {
+      await createVault(passphrase);
+      setPassphrase("");
+      setConfirmation("");
+    }, {
+      title: "Cofre ativado",
+      description: "As chaves salvas foram cifradas e removidas do armazenamento em texto puro.",
+    });
+  };
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <ShieldCheck className="h-5 w-5 text-primary" />
+          Cofre de chaves
+          {vault.enabled && (
+            <Badge variant={vault.unlocked ? "secondary" : "outline"} className="text-xs">
+              {vault.unlocked ? "Desbloqueado" : "Bloqueado"}
+            </Badge>
+          )}
+        </CardTitle>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {!vault.enabled && (
+          <div className="space-y-3">
+            <p className="text-sm text-muted-foreground">
+              Cifra as chaves de API guardadas neste navegador com uma senha. Sem a senha, nem quem tiver acesso
+              ao armazenamento do navegador consegue lê-las. Não há como recuperar uma senha esquecida.
+            </p>
+            <div className="grid grid-cols-1 sm:grid-cols-2 gap-2">
+              <Input
+                type="password"
+                placeholder={`Senha (mínimo ${MIN_PASSPHRASE_LENGTH} caracteres)`}
+                autoComplete="new-password"
+                value={passphrase}
+                onChange={(e) => setPassphrase(e.target.value)}
+              />
+              <Input
+                type="password"
+                placeholder="Confirme a senha"
+                autoComplete="new-password"
+                value={confirmation}
+                onChange={(e) => setConfirmation(e.target.value)}
+              />
+            </div>
+            <Button onClick={handleCreate} disabled={isBusy || passphrase.length < MIN_PASSPHRASE_LENGTH || !confirmation}>
+              <Lock className="h-4 w-4 mr-2" />
+              Ativar cofre
+            </Button>
+          </div>
+        )}
+
+        {vault.enabled && !vault.unlocked && (
+          <div className="space-y-2">
+            <p className="text-sm text-muted-foreground">
+              Desbloqueie para ver ou alterar as chaves. As análises pedem o desbloqueio quando precisam delas.
+            </p>
+            <VaultUnlockForm />
+          </div>
+        )}
+
+        {vault.enabled && vault.unlocked && (
+          <div className="space-y-4">
+            <div className="space-y-2">
+              <Label>Bloquear após inatividade</Label>
+              <div className="flex gap-2 flex-wrap">
+                {AUTO_LOCK_OPTIONS.map((minutes) => (
+                  <Button
+                    key={minutes}
+                    variant={vault.autoLockMinutes === minutes ? "default" : "outline"}
+                    size="sm"
+                    onClick={() => setAutoLockMinutes(minutes)}
+                  >
+                    {minutes} min
+                  </Button>
+                ))}
+              </div>
+            </div>
+
+            {isPasskeySupported() && (
+              <div className="flex items-center justify-between gap-3">
+                <div className="space-y-0.5">
+                  <Label>Passkey</Label>
+                  <p className="text-xs text-muted-foreground">
+                    {vault.hasPasskey
+                      ? "Desbloqueie com biometria ou PIN do dispositivo; a senha continua valendo."
+                      : "Desbloqueie com biometria ou PIN, em autenticadores com a extensão PRF."}
+                  </p>
+                </div>
+                {vault.hasPasskey ? (
+                  <Button variant="ghost" size="sm" onClick={removePasskey} disabled={isBusy}>
+                    <Trash2 className="h-4 w-4" />
+                  </Button>
+                ) : (
+                  <Button
+                    variant="outline"
+                    size="sm"
+                    className="shrink-0"
+                    disabled={isBusy}
+                    onClick={() => run(addPasskey, { title: "Passkey cadastrada", description: "Use-a para desbloquear o cofre." })}
+                  >
+                    <Fingerprint className="h-4 w-4 mr-1" />
+                    Cadastrar
+                  </Button>
+                )}
+              </div>
+            )}
+
+            <div className="flex gap-2 flex-wrap">
+              <Button variant="outline" size="sm" onClick={lockVault}>
+                <Lock className="h-4 w-4 mr-2" />
+                Bloquear agora
+              </Button>
+              <Button
+                variant="ghost"
+                size="sm"
+                disabled={isBusy}
+                onClick={() => run(disableVault, {
+                  title: "Cofre desativado",
+                  description: "As chaves voltaram a ser guardadas sem criptografia neste navegador.",
+                })}
+              >
+                <LockOpen className="h-4 w-4 mr-2" />
+                Desativar cofre
+              </Button>
+            </div>
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+};
@@ -0,0 +1,101 @@
+import { useState } from "react";
+import {
+  AlertDialog,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from "@/components/ui/alert-dialog";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Fingerprint, Loader2, Lock, Unlock } from "lucide-react";
+import { useVault } from "@/hooks/use-vault";
+import { cancelVaultUnlock, unlockWithPassphrase, unlockWithPasskey } from "@/lib/settings-vault";
+
+interface VaultUnlockFormProps {
+  onCancel?: () => void;
+}
+
+// Senha do cofre ou, quando cadastrada, a passkey
+export const VaultUnlockForm = ({ onCancel }: VaultUnlockFormProps) => {
+  const { hasPasskey } = useVault();
+  const [passphrase, setPassphrase] = useState("");
+  const [error, setError] = useState<string | null>(null);
+  const [isUnlocking, setIsUnlocking] = useState(false);
+
+  const unlock = async (method: () => Promise<void>) => {
+    setIsUnlocking(true);
+    setError(null);
+    try {
+      await method();
+      setPassphrase("");
+    } catch (unlockError) {
+      setError(unlockError instanceof Error ? unlockError.message : "Não foi possível desbloquear o cofre");
+    } finally {
+      setIsUnlocking(false);
+    }
+  };
+
+  return (
+    <form
+      className="space-y-3"
+      onSubmit={(e) => {
+        e.preventDefault();
+        if (passphrase) unlock(() => unlockWithPassphrase(passphrase));
+      }}
+    >
+      <Input
+        type="password"
+        placeholder="Senha do cofre"
+        autoComplete="current-password"
+        value={passphrase}
+        onChange={(e) => setPassphrase(e.target.value)}
+        disabled={isUnlocking}
+        autoFocus
+      />
+      {error && <p className="text-xs text-destructive">{error}</p>}
+      <div className="flex flex-wrap justify-end gap-2">
+        {onCancel && (
+          <Button type="button" variant="ghost" onClick={onCancel} disabled={isUnlocking}>
+            Cancelar
+          </Button>
+        )}
+        {hasPasskey && (
+          <Button type="button" variant="outline" onClick={() => unlock(unlockWithPasskey)} disabled={isUnlocking}>
+            <Fingerprint className="h-4 w-4 mr-1" />
+            Usar passkey
+          </Button>
+        )}
+        <Button type="submit" disabled={!passphrase || isUnlocking}>
+          {isUnlocking ? <Loader2 className="h-4 w-4 mr-1 animate-spin" /> : <Unlock className="h-4 w-4 mr-1" />}
+          Desbloquear
+        </Button>
+      </div>
+    </form>
+  );
+};
+
+/**
+ * Pedido de desbloqueio exibido quando uma análise precisa das chaves guardadas
+ * no cofre bloqueado; cancelar interrompe as análises que aguardavam.
+ */
+export const VaultUnlockDialog = () => {
+  const { unlockRequested } = useVault();
+
+  return (
+    <AlertDialog open={unlockRequested} onOpenChange={(open) => !open && cancelVaultUnlock()}>
+      <AlertDialogContent className="max-w-sm">
+        <AlertDialogHeader>
+          <AlertDialogTitle className="flex items-center gap-2">
+            <Lock className="h-4 w-4 text-primary" />
+            Desbloquear chaves de API
+          </AlertDialogTitle>
+          <AlertDialogDescription>
+            As chaves da IA estão protegidas no cofre. Desbloqueie para continuar a análise.
+          </AlertDialogDescription>
+        </AlertDialogHeader>
+        <VaultUnlockForm onCancel={cancelVaultUnlock} />
+      </AlertDialogContent>
+    </AlertDialog>
+  );
+};
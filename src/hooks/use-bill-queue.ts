@@ -0,0 +1,126 @@
+import { useSyncExternalStore } from 'react';
+import {
+  analyzeQueuedFile,
+  getBatchConcurrency,
+  MAX_BATCH_FILES,
+  type BillDraft,
+  type QueuedFileAnalysis,
+  type QueueItemStatus,
+} from '@/lib/bill-queue';
+import { isAbortError } from '@/lib/providers';
+
+export interface QueueItem {
+  id: string;
+  file: File;
+  status: QueueItemStatus;
+  offline: boolean; // Analisado sem enviar o arquivo à IA
+  draft: BillDraft | null; // Preenchido ao fim da análise
+  source?: 'ai' | 'text' | 'barcode';
+  confidence?: number;
+  fields?: QueuedFileAnalysis['fields'];
+  provider?: string;
+  cached?: boolean;
+  error?: string;
+}
+
+// A fila vive fora dos componentes: fechar o modal não interrompe nem descarta a importação
+let items: QueueItem[] = [];
+const listeners = new Set<() => void>();
+const controllers = new Map<string, AbortController>();
+
+const emit = () => listeners.forEach((listener) => listener());
+
+const setItems = (update: (current: QueueItem[]) => QueueItem[]) => {
+  items = update(items);
+  emit();
+};
+
+const patchItem = (id: string, patch: Partial<QueueItem>) => {
+  setItems((current) => current.map((item) => (item.id === id ? { ...item, ...patch } : item)));
+};
+
+// Inicia os próximos arquivos enquanto houver vaga no limite de análises simultâneas
+const processQueue = () => {
+  const concurrency = getBatchConcurrency();
+  const running = items.filter((item) => item.status === 'analyzing').length;
+  items
+    .filter((item) => item.status === 'queued')
+    .slice(0, Math.max(0, concurrency - running))
+    .forEach((item) => void runItem(item));
+};
+
+const runItem = async ({ id, file, offline }: QueueItem) => {
+  const controller = new AbortController();
+  controllers.set(id, controller);
+  patchItem(id, { status: 'analyzing', error: undefined });
+
+  try {
+    const analysis = await analyzeQueuedFile(file, { offline, signal: controller.signal });
+    if (controller.signal.aborted) return;
+    patchItem(id, { status: 'review', ...analysis });
+  } catch (error) {
+    if (isAbortError(error) || controller.signal.aborted) return;
+    console.error('Fila: Erro ao analisar', file.name, error);
+    patchItem(id, { status: 'failed', error: error instanceof Error ? error.message : 'Erro ao analisar o arquivo' });
+  } finally {
+    controllers.delete(id);
+    processQueue();
+  }
+};
+
+// Adiciona arquivos à fila; retorna quantos couberam no limite
+export const enqueueBillFiles = (files: File[], { offline = false } = {}): number => {
+  const room = Math.max(0, MAX_BATCH_FILES - items.filter((item) => item.status !== 'saved').length);
+  const accepted = files.slice(0, room);
+  setItems((current) => [
+    ...current,
+    ...accepted.map((file) => ({ id: crypto.randomUUID(), file, status: 'queued' as const, offline, draft: null })),
+  ]);
+  processQueue();
+  return accepted.length;
+};
+
+export const updateQueuedDraft = (id: string, patch: Partial<BillDraft>) => {
+  setItems((current) => current.map((item) => (item.id === id && item.draft ? { ...item, draft: { ...item.draft, ...patch } } : item)));
+};
+
+export const retryQueuedFile = (id: string) => {
+  patchItem(id, { status: 'queued', error: undefined });
+  processQueue();
+};
+
+export const removeQueuedFile = (id: string) => {
+  controllers.get(id)?.abort();
+  controllers.delete(id);
+  setItems((current) => current.filter((item) => item.id !== id));
+  processQueue();
+};
+
+export const markQueuedFilesSaved = (ids: string[]) => {
+  setItems((current) => current.map((item) => (ids.includes(item.id) ? { ...item, status: 'saved' } : item)));
+};
+
+// Remove da lista os arquivos já salvos
+export const clearSavedFiles = () => {
+  setItems((current) => current.filter((item) => item.status !== 'saved'));
+};
+
+const subscribe = (listener: () => void) => {
+  listeners.add(listener);
+  return () => {
+    listeners.delete(listener);
+  };
+};
+
+export const useBillQueue = () => {
+  const queue = useSyncExternalStore(subscribe, () => items);
+  return {
+    items: queue,
+    enqueue: enqueueBillFiles,
+    updateDraft: updateQueuedDraft,
+    retry: retryQueuedFile,
+    remove: removeQueuedFile,
+    markSaved: markQueuedFilesSaved,
+    clearSaved: clearSavedFiles,
+  };
+};
@@ -0,0 +1,121 @@
+import { useEffect } from 'react';
+import { useMutation, useQuery, useQueryClient } from '@tanstack/react-query';
+import { supabase } from '@/integrations/supabase/client';
+import type { Tables } from '@/integrations/supabase/types';
+import { useAuth } from '@/hooks/useAuth';
+import {
+  DEFAULT_CATEGORIES,
+  FALLBACK_CATEGORY,
+  mapRowToCategory,
+  setActiveCategories,
+  type Category,
+  type CategoryDraft,
+} from '@/lib/categories';
+
+const NO_CATEGORIES: Category[] = [];
+
+const toRow = (category: Partial<CategoryDraft>): Partial<Tables<'categories'>> => {
+  const row: Partial<Tables<'categories'>> = {};
+  if (category.name !== undefined) row.name = category.name.trim();
+  if (category.color !== undefined) row.color = category.color;
+  if (category.icon !== undefined) row.icon = category.icon;
+  if (category.parentId !== undefined) row.parent_id = category.parentId;
+  if (category.keywords !== undefined) row.keywords = category.keywords;
+  return row;
+};
+
+// 23505: violação do índice único (user_id, name)
+const toCategoryError = (error: { code?: string; message: string }) =>
+  new Error(error.code === '23505' ? 'Já existe uma categoria com este nome.' : error.message);
+
+/**
+ * Categorias do usuário logado, criadas a partir das padrão no primeiro acesso.
+ * Renomear atualiza as contas da categoria; excluir passa as contas para a
+ * categoria-mãe ou para "Outros".
+ */
+export const useCategories = () => {
+  const { user } = useAuth();
+  const queryClient = useQueryClient();
+
+  const { data: categories = NO_CATEGORIES, isLoading } = useQuery({
+    queryKey: ['categories', user?.id],
+    enabled: !!user,
+    queryFn: async () => {
+      const { data, error } = await supabase
+        .from('categories')
+        .select('*')
+        .eq('user_id', user!.id)
+        .order('created_at', { ascending: true })
+        .order('name', { ascending: true });
+      if (error) throw new Error(error.message);
+      if (data.length > 0) return data.map(mapRowToCategory);
+
+      // Primeiro acesso: cria as categorias padrão
+      const { data: seeded, error: seedError } = await supabase
+        .from('categories')
+        .upsert(
+          DEFAULT_CATEGORIES.map((category) => ({ ...toRow(category), name: category.name, user_id: user!.id })),
+          { onConflict: 'user_id,name', ignoreDuplicates: true }
+        )
+        .select('*');
+      if (seedError) throw new Error(seedError.message);
+      return (seeded ?? []).map(mapRowToCategory);
+    },
+  });
+
+  // Prompt da IA e leitura do PDF usam as categorias do usuário
+  useEffect(() => {
+    setActiveCategories(categories);
+  }, [categories]);
+
+  const invalidate = (bills = false) => {
+    queryClient.invalidateQueries({ queryKey: ['categories', user?.id] });
+    if (bills) queryClient.invalidateQueries({ queryKey: ['bills', user?.id] });
+  };
+
+  const addCategory = useMutation({
+    mutationFn: async (category: CategoryDraft) => {
+      const { error } = await supabase
+        .from('categories')
+        .insert({ ...toRow(category), name: category.name.trim(), user_id: user!.id });
+      if (error) throw toCategoryError(error);
+    },
+    onSuccess: () => invalidate(),
+  });
+
+  // Nome e contas mudam juntos, na mesma transação (função update_category)
+  const updateCategory = useMutation({
+    mutationFn: async ({ category, patch }: { category: Category; patch: Partial<CategoryDraft> }) => {
+      const newName = patch.name?.trim();
+      if (category.name === FALLBACK_CATEGORY && newName && newName !== FALLBACK_CATEGORY) {
+        throw new Error(`A categoria "${FALLBACK_CATEGORY}" não pode ser renomeada.`);
+      }
+      const next = { ...category, ...patch };
+      const { data: renamed, error } = await supabase.rpc('update_category', {
+        p_id: category.id,
+        p_name: next.name.trim(),
+        p_color: next.color,
+        p_icon: next.icon,
+        p_parent_id: next.parentId,
+        p_keywords: next.keywords,
+      });
+      if (error) throw toCategoryError(error);
+      return renamed;
+    },
+    onSuccess: (renamed) => invalidate(renamed),
+  });
+
+  // Contas passam para a categoria-mãe ou "Outros" na mesma transação (função delete_category)
+  const deleteCategory = useMutation({
+    mutationFn: async (category: Category) => {
+      if (category.name === FALLBACK_CATEGORY) {
+        throw new Error(`A categoria "${FALLBACK_CATEGORY}" não pode ser excluída.`);
+      }
+      const { error } = await supabase.rpc('delete_category', { p_id: category.id });
+      if (error) throw new Error(error.message);
+    },
+    onSuccess: () => invalidate(true),
+  });
+
+  return { categories, isLoading, addCategory, updateCategory, deleteCategory };
+};
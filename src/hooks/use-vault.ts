@@ -0,0 +1,5 @@
+import { useSyncExternalStore } from 'react';
+import { getVaultState, subscribeVault } from '@/lib/settings-vault';
+
+// Estado do cofre de chaves (ativo, desbloqueado, pedido de desbloqueio pendente)
+export const useVault = () => useSyncExternalStore(subscribeVault, getVaultState);
@@ -51,6 +51,17 @@ export type Database = {
           payment_method: string | null
           paid_at: string | null
           barcode: string | null
+          barcode_type: string | null
+          barcode_conflict: boolean
+          issuer_bank: string | null
+          pix_payload: string | null
+          fine_percent: number | null
+          daily_interest_percent: number | null
+          discount_amount: number | null
+          discount_until: string | null
+          installment_group_id: string | null
+          installment_number: number | null
+          installment_total: number | null
           created_at: string
           updated_at: string
         }
@@ -65,6 +76,17 @@ export type Database = {
           payment_method?: string | null
           paid_at?: string | null
           barcode?: string | null
+          barcode_type?: string | null
+          barcode_conflict?: boolean
+          issuer_bank?: string | null
+          pix_payload?: string | null
+          fine_percent?: number | null
+          daily_interest_percent?: number | null
+          discount_amount?: number | null
+          discount_until?: string | null
+          installment_group_id?: string | null
+          installment_number?: number | null
+          installment_total?: number | null
           created_at?: string
           updated_at?: string
         }
@@ -79,6 +101,17 @@ export type Database = {
           payment_method?: string | null
           paid_at?: string | null
           barcode?: string | null
+          barcode_type?: string | null
+          barcode_conflict?: boolean
+          issuer_bank?: string | null
+          pix_payload?: string | null
+          fine_percent?: number | null
+          daily_interest_percent?: number | null
+          discount_amount?: number | null
+          discount_until?: string | null
+          installment_group_id?: string | null
+          installment_number?: number | null
+          installment_total?: number | null
           created_at?: string
           updated_at?: string
         }
@@ -91,13 +124,207 @@ export type Database = {
             referencedColumns: ["id"]
           }
         ]
+      },
+      ai_usage: {
+        Row: {
+          id: number
+          user_id: string
+          provider: string
+          model: string
+          created_at: string
+        }
+        Insert: {
+          id?: never
+          user_id: string
+          provider: string
+          model: string
+          created_at?: string
+        }
+        Update: {
+          id?: never
+          user_id?: string
+          provider?: string
+          model?: string
+          created_at?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "ai_usage_user_id_fkey",
+            columns: ["user_id"],
+            isOneToOne: false,
+            referencedRelation: "users",
+            referencedColumns: ["id"]
+          }
+        ]
+      }
+      analysis_cache: {
+        Row: {
+          id: string
+          user_id: string
+          cache_key: string
+          file_hash: string
+          provider: string
+          model: string
+          prompt_version: number
+          result: Json
+          created_at: string
+          expires_at: string
+        }
+        Insert: {
+          id?: string
+          user_id: string
+          cache_key: string
+          file_hash: string
+          provider: string
+          model: string
+          prompt_version: number
+          result: Json
+          created_at?: string
+          expires_at: string
+        }
+        Update: {
+          id?: string
+          user_id?: string
+          cache_key?: string
+          file_hash?: string
+          provider?: string
+          model?: string
+          prompt_version?: number
+          result?: Json
+          created_at?: string
+          expires_at?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "analysis_cache_user_id_fkey",
+            columns: ["user_id"],
+            isOneToOne: false,
+            referencedRelation: "users",
+            referencedColumns: ["id"]
+          }
+        ]
+      }
+      categories: {
+        Row: {
+          id: string
+          user_id: string
+          name: string
+          color: string
+          icon: string
+          parent_id: string | null
+          keywords: string[]
+          created_at: string
+        }
+        Insert: {
+          id?: string
+          user_id: string
+          name: string
+          color?: string
+          icon?: string
+          parent_id?: string | null
+          keywords?: string[]
+          created_at?: string
+        }
+        Update: {
+          id?: string
+          user_id?: string
+          name?: string
+          color?: string
+          icon?: string
+          parent_id?: string | null
+          keywords?: string[]
+          created_at?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "categories_parent_id_fkey",
+            columns: ["parent_id"],
+            isOneToOne: false,
+            referencedRelation: "categories",
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "categories_user_id_fkey",
+            columns: ["user_id"],
+            isOneToOne: false,
+            referencedRelation: "users",
+            referencedColumns: ["id"]
+          }
+        ]
+      }
+      user_ai_keys: {
+        Row: {
+          user_id: string
+          provider: string
+          encrypted_key: string
+          iv: string
+          key_hint: string
+          updated_at: string
+        }
+        Insert: {
+          user_id: string
+          provider: string
+          encrypted_key: string
+          iv: string
+          key_hint: string
+          updated_at?: string
+        }
+        Update: {
+          user_id?: string
+          provider?: string
+          encrypted_key?: string
+          iv?: string
+          key_hint?: string
+          updated_at?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "user_ai_keys_user_id_fkey",
+            columns: ["user_id"],
+            isOneToOne: false,
+            referencedRelation: "users",
+            referencedColumns: ["id"]
+          }
+        ]
       }
     }
     Views: {
       [_ in never]: never
     }
     Functions: {
-      [_ in never]: never
+      consume_ai_quota: {
+        Args: {
+          p_user_id: string
+          p_provider: string
+          p_model: string
+          p_limit: number
+          p_window_seconds: number
+        }
+        Returns: number
+      }
+      delete_category: {
+        Args: {
+          p_id: string
+        }
+        Returns: undefined
+      }
+      resolve_barcode_conflict: {
+        Args: {
+          p_keep_id: string
+        }
+        Returns: undefined
+      }
+      update_category: {
+        Args: {
+          p_id: string
+          p_name: string
+          p_color: string
+          p_icon: string
+          p_parent_id: string | null
+          p_keywords: string[]
+        }
+        Returns: boolean
+      }
     }
     Enums: {
       [_ in never]: never
@@ -1,287 +1,193 @@
 // Serviço unificado para diferentes provedores de IA
-export type AIProvider = 'openai' | 'gemini' | 'claude';
+import { validateBillAnalysis, BILL_ANALYSIS_JSON_SCHEMA, type BillAnalysisResult } from './bill-schema';
+import { renderPdfPageToJpeg } from './pdf-converter';
+import { getAnalysisCacheSettings, getCachedAnalysis, hashFile, hashText, saveCachedAnalysis, type AnalysisCacheKey } from './analysis-cache';
+import { AI_KEY_SECRET, getFallbackSecretName, getVaultSecret, hasVaultSecret, isVaultEnabled, isVaultUnlocked } from './settings-vault';
+import { formatCategoriesForPrompt, getActiveCategories } from './categories';
+import { ANALYSIS_PROMPT_VERSION, getAnalysisPrompt } from './analysis-prompt';
+import {
+  AIProviderError,
+  ContentFilterError,
+  ParseError,
+  fetchProviderJson,
+  getProvider,
+  isRetryableError,
+  resolveModel,
+  type ProviderOptions,
+} from './providers';
 
-export interface AIProviderConfig {
-  name: string;
-  displayName: string;
-  requiresApiKey: boolean;
-  supportedModels: string[];
+// Id de um provedor registrado em src/lib/providers (ex: 'openai', 'openai-compatible')
+export type AIProvider = string;
+
+export type { BillAnalysisResult };
+
+// Provedor com as configurações próprias do usuário (chave, endpoint, modelo)
+export interface AIProviderConfig extends Omit<ProviderOptions, 'apiKey'> {
+  apiKey: string | null;
+  provider: AIProvider;
+  apiKeyLocked?: boolean; // Chave guardada no cofre, ainda bloqueado
 }
 
-export const AI_PROVIDERS: Record<AIProvider, AIProviderConfig> = {
-  openai: {
-    name: 'openai',
-    displayName: 'OpenAI (GPT)',
-    requiresApiKey: true,
-    supportedModels: ['gpt-4o', 'gpt-4o-mini', 'gpt-4-vision-preview']
-  },
-  gemini: {
-    name: 'gemini',
-    displayName: 'Google Gemini',
-    requiresApiKey: true,
-    supportedModels: ['gemini-1.5-flash', 'gemini-1.5-pro', 'gemini-pro-vision']
-  },
-  claude: {
-    name: 'claude',
-    displayName: 'Anthropic Claude',
-    requiresApiKey: true,
-    supportedModels: ['claude-3-sonnet-20240229', 'claude-3-haiku-20240307']
-  }
-};
+export interface AnalyzeOptions {
+  signal?: AbortSignal; // Cancela a análise (ex: arquivo removido pelo usuário)
+  skipCache?: boolean; // Ignora o resultado em cache e chama a IA de novo
+  // Desbloqueia o cofre e retorna a cadeia com as chaves; chamado só quando a IA
+  // precisa mesmo ser chamada e algum provedor depende de uma chave bloqueada
+  unlockProviders?: () => Promise<AIProviderConfig[]>;
+}
 
-export interface BillAnalysisResult {
-  beneficiary: string;
-  amount: number;
-  dueDate: string;
-  category: string;
-  confidence: number;
-  summary: string; // Resumo textual das informações extraídas
-  barcode?: string; // Linha digitável (somente números)
+export interface ProviderAnalysisResult extends BillAnalysisResult {
+  provider: AIProvider; // Provedor que respondeu
+  usedFallback: boolean; // Algum provedor anterior da lista falhou
+  failedProviders: AIProvider[];
+  cachedAt?: string; // Resultado reaproveitado do cache (ISO), sem nova chamada à IA
 }
 
-// Função para analisar boleto usando diferentes provedores de IA
+/**
+ * Analisa o boleto tentando os provedores na ordem informada. Falhas do provedor
+ * (cota, indisponibilidade, chave inválida...) passam para o próximo; erros que
+ * se repetiriam em qualquer provedor interrompem a cadeia.
+ */
 export const analyzeBillWithProvider = async (
-  file: File, 
-  apiKey: string, 
-  provider: AIProvider = 'openai'
-): Promise<BillAnalysisResult> => {
-  if (!apiKey) {
-    throw new Error('Chave da API não configurada');
+  file: File,
+  providers: AIProviderConfig[],
+  { signal, skipCache = false, unlockProviders }: AnalyzeOptions = {}
+): Promise<ProviderAnalysisResult> => {
+  if (providers.length === 0) {
+    throw new Error('Nenhum provedor de IA configurado');
   }
 
   // Suporta tanto imagens quanto PDFs
-  const isPDF = file.type === 'application/pdf';
-  if (!file.type.startsWith('image/') && !isPDF) {
+  if (!file.type.startsWith('image/') && file.type !== 'application/pdf') {
     throw new Error('Apenas arquivos de imagem ou PDF são suportados para análise.');
   }
 
-  console.log(`AI Provider: Iniciando análise com ${provider}:`, file.name, isPDF ? '(PDF)' : '(Imagem)');
-
-  const base64 = await fileToBase64(file);
+  // Um resultado em cache de qualquer provedor da cadeia evita uma nova chamada paga
+  const cacheSettings = getAnalysisCacheSettings();
+  const fileHash = cacheSettings.ttlDays > 0 ? await hashFile(file).catch(() => null) : null;
+  // Outras categorias mudam o prompt e a resposta, então não reaproveitam o cache
+  const categoriesHash = fileHash ? await hashText(formatCategoriesForPrompt(getActiveCategories())).catch(() => null) : null;
+  const getCacheKey = (config: AIProviderConfig): AnalysisCacheKey | null => {
+    const definition = getProvider(config.provider);
+    if (!fileHash || !categoriesHash || !definition) return null;
+    return {
+      fileHash,
+      provider: config.provider,
+      model: resolveModel(definition, config.model),
+      promptVersion: ANALYSIS_PROMPT_VERSION,
+      categoriesHash,
+    };
+  };
 
-  switch (provider) {
-    case 'openai':
-      return await analyzeWithOpenAI(file, base64, apiKey, isPDF);
-    case 'gemini':
-      return await analyzeWithGemini(file, base64, apiKey, isPDF);
-    case 'claude':
-      return await analyzeWithClaude(file, base64, apiKey, isPDF);
-    default:
-      throw new Error(`Provedor ${provider} não suportado`);
+  if (fileHash && !skipCache) {
+    for (const config of providers) {
+      const cacheKey = getCacheKey(config);
+      const cached = cacheKey ? await getCachedAnalysis(cacheKey, cacheSettings) : null;
+      if (cached) {
+        console.log(`AI Provider: Resultado em cache de ${config.provider} (${cached.createdAt})`);
+        return { ...cached.result, provider: config.provider, usedFallback: false, failedProviders: [], cachedAt: cached.createdAt };
+      }
+    }
   }
-};
-
-// Função para gerar prompt baseado no tipo de arquivo
-const getAnalysisPrompt = (isPDF: boolean): string => {
-  const fileType = isPDF ? 'PDF de um boleto bancário' : 'imagem de um boleto bancário';
-  
-  return `Leia este ${fileType} brasileiro e extraia as informações.
-
-PRIMEIRO: Gere um resumo detalhado com as seguintes informações:
-1. Favorecido/Beneficiário: [nome completo da empresa ou pessoa]
-2. Valor (em reais): [valor total a ser pago]
-3. Data de Vencimento: [data limite para pagamento no formato DD/MM/AAAA]
-4. Categoria: [classifique em: Aluguel, Condomínio, Energia, Água, Gás, Internet, Mercado, Impostos, ou Outros]
-5. Código de barras (linha digitável): [apenas números, sem espaços ou pontos - geralmente 44 a 48 dígitos]
-
-SEGUNDO: Com base nesse resumo, retorne um objeto JSON válido:
-{
-  "beneficiary": "nome_completo_do_beneficiário",
-  "amount": valor_numérico_sem_formatação,
-  "dueDate": "YYYY-MM-DD",
-  "category": "categoria_apropriada",
-  "confidence": valor_entre_0_e_1,
-  "summary": "resumo_textual_das_informações_extraídas",
-  "barcode": "string_com_apenas_números_da_linha_digitável"
-}
-
-INSTRUÇÕES:
-1. Para "amount": use apenas números (ex: 125.50)
-2. Para "dueDate": sempre formato YYYY-MM-DD
-3. Para "category": escolha da lista acima
-4. Para "confidence": avalie a clareza do arquivo (0.0 a 1.0)
-5. Para "summary": inclua o resumo detalhado das informações encontradas
-6. Para "barcode": retorne somente os números da linha digitável, sem espaços, pontos ou hífens. Se não conseguir identificar com confiança, deixe vazio ou omita.
-
-Retorne SOMENTE o objeto JSON final.`;
-};
 
-// Implementação para OpenAI
-const analyzeWithOpenAI = async (file: File, base64: string, apiKey: string, isPDF: boolean = false): Promise<BillAnalysisResult> => {
-  console.log('OpenAI: Enviando requisição...', isPDF ? '(PDF)' : '(Imagem)');
-  
-  const content = isPDF 
-    ? [
-        {
-          type: 'text',
-          text: getAnalysisPrompt(true)
-        },
-        {
-          type: 'text', 
-          text: `Dados do PDF em base64: ${base64}`
-        }
-      ]
-    : [
-        {
-          type: 'text',
-          text: getAnalysisPrompt(false)
-        },
-        {
-          type: 'image_url',
-          image_url: {
-            url: `data:${file.type};base64,${base64}`
-          }
-        }
-      ];
-  
-  const response = await fetch('https://api.openai.com/v1/chat/completions', {
-    method: 'POST',
-    headers: {
-      'Authorization': `Bearer ${apiKey}`,
-      'Content-Type': 'application/json',
-    },
-    body: JSON.stringify({
-      model: isPDF ? 'gpt-4o' : 'gpt-4o',
-      messages: [
-        {
-          role: 'user',
-          content: content
-        }
-      ],
-      max_tokens: 1000,
-      temperature: 0.1
-    })
-  });
+  if (unlockProviders && providers.some(needsVaultUnlock)) {
+    providers = await unlockProviders();
+  }
 
-  if (!response.ok) {
-    const errorData = await response.json();
-    throw new Error(`Erro da API OpenAI: ${errorData.error?.message || 'Erro desconhecido'}`);
+  const failures: { provider: AIProvider; error: unknown }[] = [];
+  for (const config of providers) {
+    try {
+      const result = await analyzeWithProvider(file, config, signal);
+      if (failures.length > 0) {
+        console.log(`AI Provider: Análise concluída com o provedor reserva ${config.provider}`);
+      }
+      const cacheKey = getCacheKey(config);
+      if (cacheKey) void saveCachedAnalysis(cacheKey, result, cacheSettings);
+      return {
+        ...result,
+        provider: config.provider,
+        usedFallback: failures.length > 0,
+        failedProviders: failures.map((failure) => failure.provider),
+      };
+    } catch (error) {
+      console.error(`AI Provider: Falha com ${config.provider}:`, error);
+      if (!isRetryableError(error)) throw error;
+      failures.push({ provider: config.provider, error });
+    }
   }
 
-  const data = await response.json();
-  return parseAIResponse(data.choices[0]?.message?.content);
+  // Com um único provedor, mantém a mensagem original
+  if (failures.length === 1) throw failures[0].error;
+  const details = failures
+    .map(({ provider, error }) => `${getProvider(provider)?.displayName ?? provider}: ${error instanceof Error ? error.message : 'Erro desconhecido'}`)
+    .join('; ');
+  throw new Error(`Nenhum provedor de IA conseguiu analisar o boleto. ${details}`);
 };
 
-// Implementação para Google Gemini
-const analyzeWithGemini = async (file: File, base64: string, apiKey: string, isPDF: boolean = false): Promise<BillAnalysisResult> => {
-  console.log('Gemini: Enviando requisição...', isPDF ? '(PDF)' : '(Imagem)');
-  
-  const parts = isPDF 
-    ? [
-        {
-          text: getAnalysisPrompt(true)
-        },
-        {
-          text: `Dados do PDF em base64: ${base64}`
-        }
-      ]
-    : [
-        {
-          text: getAnalysisPrompt(false)
-        },
-        {
-          inline_data: {
-            mime_type: file.type,
-            data: base64
-          }
-        }
-      ];
-  
-  const response = await fetch(`https://generativelanguage.googleapis.com/v1beta/models/gemini-1.5-flash:generateContent?key=${apiKey}`, {
-    method: 'POST',
-    headers: {
-      'Content-Type': 'application/json',
-    },
-    body: JSON.stringify({
-      contents: [{
-        parts: parts
-      }],
-      generationConfig: {
-        temperature: 0.1,
-        maxOutputTokens: 1000,
-      }
-    })
-  });
-
-  if (!response.ok) {
-    const errorData = await response.json();
-    throw new Error(`Erro da API Gemini: ${errorData.error?.message || 'Erro desconhecido'}`);
+// Função para analisar boleto com um único provedor
+const analyzeWithProvider = async (file: File, config: AIProviderConfig, signal?: AbortSignal): Promise<BillAnalysisResult> => {
+  const { provider, apiKey, apiKeyLocked, ...options } = config;
+  const definition = getProvider(provider);
+  if (!definition) {
+    throw new AIProviderError(`Provedor ${provider} não suportado`, { provider, retryable: true });
+  }
+  if (definition.capabilities.requiresApiKey && !apiKey) {
+    throw new AIProviderError('Chave da API não configurada', { provider, retryable: true });
+  }
+  if (definition.capabilities.requiresBaseUrl && !options.baseUrl) {
+    throw new AIProviderError('URL do endpoint não configurada', { provider, retryable: true });
   }
 
-  const data = await response.json();
-  const content = data.candidates?.[0]?.content?.parts?.[0]?.text;
-  
-  if (!content) {
-    throw new Error('Resposta vazia da API Gemini');
+  // Provedores sem suporte a PDF recebem a primeira página como imagem
+  const sourceIsPDF = file.type === 'application/pdf';
+  if (sourceIsPDF && !definition.capabilities.pdf) {
+    console.log(`AI Provider: ${definition.displayName} não aceita PDF, enviando a primeira página como imagem`);
+    try {
+      file = await getRasterizedPdf(file);
+    } catch (error) {
+      // Outro provedor da cadeia pode aceitar o PDF original
+      throw new AIProviderError(
+        `Não foi possível converter o PDF em imagem: ${error instanceof Error ? error.message : 'Erro desconhecido'}`,
+        { provider, retryable: true }
+      );
+    }
   }
+  const isPDF = file.type === 'application/pdf';
+  console.log(`AI Provider: Iniciando análise com ${provider}:`, file.name, isPDF ? '(PDF)' : '(Imagem)');
 
-  return parseAIResponse(content);
-};
+  const model = resolveModel(definition, options.model);
+  if (options.model && model !== options.model.trim()) {
+    console.log(`AI Provider: Modelo ${options.model} descontinuado, usando ${model}`);
+  }
 
-// Implementação para Claude (Anthropic)
-const analyzeWithClaude = async (file: File, base64: string, apiKey: string, isPDF: boolean = false): Promise<BillAnalysisResult> => {
-  console.log('Claude: Enviando requisição...', isPDF ? '(PDF)' : '(Imagem)');
-  
-  const content = isPDF 
-    ? [
-        {
-          type: 'text',
-          text: `${getAnalysisPrompt(true)}
-
-Dados do PDF em base64: ${base64}`
-        }
-      ]
-    : [
-        {
-          type: 'text',
-          text: getAnalysisPrompt(false)
-        },
-        {
-          type: 'image',
-          source: {
-            type: 'base64',
-            media_type: file.type,
-            data: base64
-          }
-        }
-      ];
-  
-  const response = await fetch('https://api.anthropic.com/v1/messages', {
-    method: 'POST',
-    headers: {
-      'Authorization': `Bearer ${apiKey}`,
-      'Content-Type': 'application/json',
-      'anthropic-version': '2023-06-01'
-    },
-    body: JSON.stringify({
-      model: 'claude-3-sonnet-20240229',
-      max_tokens: 1000,
-      messages: [
-        {
-          role: 'user',
-          content: content
-        }
-      ]
-    })
+  const base64 = await fileToBase64(file);
+  const request = definition.buildRequest({
+    file,
+    base64,
+    isPDF,
+    prompt: getAnalysisPrompt(isPDF, getActiveCategories().map((category) => category.name)),
+    options: { ...options, apiKey: definition.resolveApiKey ? await definition.resolveApiKey() : apiKey, model },
+    responseSchema: definition.capabilities.structuredOutput ? BILL_ANALYSIS_JSON_SCHEMA : undefined,
   });
 
-  if (!response.ok) {
-    const errorData = await response.json(); 
-    throw new Error(`Erro da API Claude: ${errorData.error?.message || 'Erro desconhecido'}`);
+  console.log(`${definition.displayName}: Enviando requisição (${model})...`, isPDF ? '(PDF)' : '(Imagem)');
+  const data = await fetchProviderJson(definition, request, { signal });
+
+  const blockReason = definition.detectContentFilter?.(data);
+  if (blockReason) {
+    throw new ContentFilterError(`A API ${definition.displayName} recusou o arquivo pelo filtro de conteúdo (${blockReason})`, { provider });
   }
 
-  const data = await response.json();
-  const content_text = data.content?.[0]?.text;
-  
-  if (!content_text) {
-    throw new Error('Resposta vazia da API Claude');
+  const content = definition.parseResponse(data);
+  if (!content) {
+    throw new ParseError(`Resposta vazia da API ${definition.displayName}`, { provider });
   }
 
-  return parseAIResponse(content_text);
+  return parseAIResponse(content, provider);
 };
 
 // Função auxiliar para fazer parse da resposta da IA
-const parseAIResponse = (content: string): BillAnalysisResult => {
+const parseAIResponse = (content: string, provider: AIProvider): BillAnalysisResult => {
   console.log('AI Response:', content);
   
   // Tentar extrair JSON da resposta
@@ -294,30 +200,39 @@ const parseAIResponse = (content: string): BillAnalysisResult => {
   }
   
   if (!jsonMatch) {
-    throw new Error(`A IA não conseguiu analisar o boleto. Resposta: ${content.substring(0, 200)}...`);
+    throw new ParseError(`A IA não conseguiu analisar o boleto. Resposta: ${content.substring(0, 200)}...`, { provider });
   }
 
-  let result;
+  let result: unknown;
   try {
     result = JSON.parse(jsonMatch[0]);
   } catch (parseError) {
-    throw new Error(`Erro ao interpretar resposta da IA: ${parseError instanceof Error ? parseError.message : 'Erro desconhecido'}`);
+    throw new ParseError(`Erro ao interpretar resposta da IA: ${parseError instanceof Error ? parseError.message : 'Erro desconhecido'}`, { provider });
   }
   
-  // Validar resultado
-  if (!result.beneficiary || !result.amount || !result.dueDate) {
-    throw new Error('Dados incompletos extraídos do boleto. Verifique se a imagem está legível.');
+  // Validar e normalizar (valores "R$ 1.250,00", datas DD/MM/AAAA...)
+  const validation = validateBillAnalysis(result);
+  if (!validation.data) {
+    const details = Object.values(validation.errors).flat().join('; ');
+    throw new ParseError(`Dados incompletos ou inválidos extraídos do boleto (${details}). Verifique se a imagem está legível.`, { provider });
   }
 
-  return {
-    beneficiary: result.beneficiary,
-    amount: parseFloat(result.amount),
-    dueDate: result.dueDate,
-    category: result.category || 'Outros',
-    confidence: result.confidence || 0.8,
-    summary: result.summary || `Beneficiário: ${result.beneficiary}, Valor: R$ ${result.amount}, Vencimento: ${result.dueDate}, Categoria: ${result.category || 'Outros'}`,
-    barcode: result.barcode ? String(result.barcode).replace(/\D/g, '') : undefined,
-  };
+  return validation.data;
+};
+
+// Imagens já geradas a partir de PDFs, para não renderizar de novo a cada provedor da cadeia
+const rasterizedPdfs = new WeakMap<File, Promise<File>>();
+
+const getRasterizedPdf = (file: File): Promise<File> => {
+  let rasterized = rasterizedPdfs.get(file);
+  if (!rasterized) {
+    rasterized = renderPdfPageToJpeg(file).catch((error) => {
+      rasterizedPdfs.delete(file);
+      throw error;
+    });
+    rasterizedPdfs.set(file, rasterized);
+  }
+  return rasterized;
 };
 
 // Função auxiliar para converter arquivo para base64
@@ -334,19 +249,74 @@ const fileToBase64 = (file: File): Promise<string> => {
   });
 };
 
+export interface AISettings extends AIProviderConfig {
+  fallbacks: AIProviderConfig[]; // Tentados em ordem quando o provedor principal falha
+}
+
 // Função para obter configurações da IA do localStorage
-export const getAISettings = (): { apiKey: string | null; provider: AIProvider } => {
+export const getAISettings = (): AISettings => {
   try {
     const settings = localStorage.getItem("finanscan-settings");
     if (settings) {
       const parsed = JSON.parse(settings);
+      const provider = parsed.aiProvider || 'openai';
+      // Modelo escolhido para cada provedor; aiModel é o campo antigo, só do endpoint local
+      const getModel = (id: AIProvider): string | undefined =>
+        parsed.aiModels?.[id] || (id === 'openai-compatible' ? parsed.aiModel : undefined) || undefined;
+      // Com o cofre ativo, as chaves vêm dele (decifradas apenas enquanto desbloqueado)
+      const vaultEnabled = isVaultEnabled();
+      const getKey = (secretName: string, plaintext?: string) => {
+        if (!vaultEnabled) return { apiKey: plaintext || null };
+        const apiKey = getVaultSecret(secretName);
+        return { apiKey, ...(!apiKey && !isVaultUnlocked() && hasVaultSecret(secretName) ? { apiKeyLocked: true } : {}) };
+      };
+      const fallbacks: AIProviderConfig[] = Array.isArray(parsed.aiFallbacks)
+        ? parsed.aiFallbacks
+            .filter((entry: { provider?: string }) => entry?.provider)
+            .map((entry: { id?: string; provider: string; apiKey?: string; baseUrl?: string }) => ({
+              provider: entry.provider,
+              ...getKey(getFallbackSecretName(entry.id ?? ''), entry.apiKey),
+              baseUrl: entry.baseUrl || undefined,
+              model: getModel(entry.provider),
+            }))
+        : [];
       return {
-        apiKey: parsed.aiApiKey || null,
-        provider: parsed.aiProvider || 'openai'
+        ...getKey(AI_KEY_SECRET, parsed.aiApiKey),
+        provider,
+        baseUrl: parsed.aiBaseUrl || undefined,
+        model: getModel(provider),
+        fallbacks,
       };
     }
   } catch (error) {
     console.error('Erro ao obter configurações da IA:', error);
   }
-  return { apiKey: null, provider: 'openai' };
-};
\ No newline at end of file
+  return { apiKey: null, provider: 'openai', fallbacks: [] };
+};
+
+// Indica se há o necessário para chamar o provedor (chave e/ou endpoint); uma chave
+// no cofre bloqueado conta, pois a análise pede o desbloqueio antes de começar
+export const isProviderConfigured = (config: AIProviderConfig): boolean => {
+  const definition = getProvider(config.provider);
+  if (!definition) return false;
+  if (definition.capabilities.requiresApiKey && !config.apiKey && !config.apiKeyLocked) return false;
+  if (definition.capabilities.requiresBaseUrl && !config.baseUrl) return false;
+  return true;
+};
+
+// Indica se chamar o provedor exige desbloquear o cofre; o proxy do Supabase usa a
+// sessão do usuário e ignora a chave das configurações
+export const needsVaultUnlock = (config: AIProviderConfig): boolean =>
+  !!config.apiKeyLocked && !getProvider(config.provider)?.resolveApiKey;
+
+// Provedor principal seguido dos reservas, na ordem de tentativa; os incompletos
+// são ignorados, exceto o principal quando não há alternativa (para informar o motivo)
+export const getProviderChain = (settings: AISettings = getAISettings()): AIProviderConfig[] => {
+  const { fallbacks, ...primary } = settings;
+  const chain = [primary, ...fallbacks].filter(isProviderConfigured);
+  return chain.length > 0 ? chain : [primary];
+};
+
+// Indica se algum provedor da cadeia pode ser chamado
+export const isAIConfigured = (settings: AISettings = getAISettings()): boolean =>
+  [settings, ...settings.fallbacks].some(isProviderConfigured);
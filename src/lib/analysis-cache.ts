@@ -0,0 +1,235 @@
+// Cache das análises da IA pelo conteúdo do arquivo: reenviar o mesmo boleto não gera nova cobrança
+import { supabase } from '@/integrations/supabase/client';
+import type { Json } from '@/integrations/supabase/types';
+import type { BillAnalysisResult } from './bill-schema';
+
+// A mesma análise só vale para o mesmo arquivo, provedor, modelo e prompt (versão e categorias)
+export interface AnalysisCacheKey {
+  fileHash: string; // SHA-256 do conteúdo, em hexadecimal
+  provider: string;
+  model: string;
+  promptVersion: number;
+  categoriesHash: string; // SHA-256 da lista de categorias enviada no prompt
+}
+
+export interface CachedAnalysis {
+  result: BillAnalysisResult;
+  createdAt: string; // ISO
+}
+
+export interface AnalysisCacheSettings {
+  ttlDays: number; // 0 desativa o cache
+  sync: boolean; // Também guarda no Supabase, para valer em outros dispositivos
+}
+
+export const DEFAULT_CACHE_TTL_DAYS = 30;
+
+const DB_NAME = 'meuboleto-ai';
+const DB_VERSION = 1;
+const STORE_NAME = 'analyses';
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+interface StoredAnalysis extends CachedAnalysis {
+  key: string;
+  fileHash: string;
+  expiresAt: number; // Timestamp em ms
+}
+
+// Configurações do cache salvas em Configurações
+export const getAnalysisCacheSettings = (): AnalysisCacheSettings => {
+  try {
+    const settings = localStorage.getItem('finanscan-settings');
+    const parsed = settings ? JSON.parse(settings) : {};
+    const ttlDays = Number(parsed.analysisCacheTtlDays);
+    return {
+      ttlDays: Number.isFinite(ttlDays) && ttlDays >= 0 ? ttlDays : DEFAULT_CACHE_TTL_DAYS,
+      sync: parsed.analysisCacheSync === true,
+    };
+  } catch (error) {
+    console.error('Erro ao carregar configurações do cache:', error);
+    return { ttlDays: DEFAULT_CACHE_TTL_DAYS, sync: false };
+  }
+};
+
+const sha256 = async (data: BufferSource): Promise<string> => {
+  const digest = await crypto.subtle.digest('SHA-256', data);
+  return Array.from(new Uint8Array(digest), (byte) => byte.toString(16).padStart(2, '0')).join('');
+};
+
+export const hashFile = async (file: File): Promise<string> => sha256(await file.arrayBuffer());
+
+export const hashText = (text: string): Promise<string> => sha256(new TextEncoder().encode(text));
+
+const toCacheKey = ({ fileHash, provider, model, promptVersion, categoriesHash }: AnalysisCacheKey) =>
+  `${fileHash}:${provider}:${model}:v${promptVersion}:${categoriesHash}`;
+
+let databasePromise: Promise<IDBDatabase> | null = null;
+
+const openDatabase = (): Promise<IDBDatabase> => {
+  if (!databasePromise) {
+    databasePromise = new Promise((resolve, reject) => {
+      const request = indexedDB.open(DB_NAME, DB_VERSION);
+      request.onupgradeneeded = () => {
+        const store = request.result.createObjectStore(STORE_NAME, { keyPath: 'key' });
+        store.createIndex('fileHash', 'fileHash');
+      };
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => {
+        databasePromise = null;
+        reject(request.error);
+      };
+    });
+  }
+  return databasePromise;
+};
+
+// Executa uma operação no object store e aguarda o fim da transação
+const withStore = async <T>(mode: IDBTransactionMode, operation: (store: IDBObjectStore) => IDBRequest<T> | void): Promise<T | undefined> => {
+  const database = await openDatabase();
+  return new Promise((resolve, reject) => {
+    const transaction = database.transaction(STORE_NAME, mode);
+    const request = operation(transaction.objectStore(STORE_NAME));
+    transaction.oncomplete = () => resolve(request ? request.result : undefined);
+    transaction.onerror = () => reject(transaction.error);
+  });
+};
+
+const getLocal = async (key: string): Promise<CachedAnalysis | null> => {
+  const stored = await withStore<StoredAnalysis>('readonly', (store) => store.get(key));
+  if (!stored) return null;
+  if (stored.expiresAt <= Date.now()) {
+    await withStore('readwrite', (store) => store.delete(key));
+    return null;
+  }
+  return { result: stored.result, createdAt: stored.createdAt };
+};
+
+const putLocal = (stored: StoredAnalysis) => withStore('readwrite', (store) => store.put(stored));
+
+const deleteLocalByHash = (fileHash: string) =>
+  withStore('readwrite', (store) => {
+    const request = store.index('fileHash').openCursor(IDBKeyRange.only(fileHash));
+    request.onsuccess = () => {
+      const cursor = request.result;
+      if (cursor) {
+        cursor.delete();
+        cursor.continue();
+      }
+    };
+  });
+
+// Sem sessão não há cache remoto; a leitura da sessão é local, sem requisição
+const getUserId = async (): Promise<string | null> => {
+  const { data } = await supabase.auth.getSession();
+  return data.session?.user.id ?? null;
+};
+
+const getRemote = async (key: string): Promise<(CachedAnalysis & { expiresAt: number }) | null> => {
+  const userId = await getUserId();
+  if (!userId) return null;
+  const { data, error } = await supabase
+    .from('analysis_cache')
+    .select('result, created_at, expires_at')
+    .eq('user_id', userId)
+    .eq('cache_key', key)
+    .gt('expires_at', new Date().toISOString())
+    .maybeSingle();
+  if (error) throw new Error(error.message);
+  return data
+    ? { result: data.result as unknown as BillAnalysisResult, createdAt: data.created_at, expiresAt: Date.parse(data.expires_at) }
+    : null;
+};
+
+/**
+ * Procura a análise no IndexedDB e, com a sincronização ativa, no Supabase
+ * (guardando localmente o que vier de lá). Falhas do cache nunca impedem a análise.
+ */
+export const getCachedAnalysis = async (
+  cacheKey: AnalysisCacheKey,
+  settings: AnalysisCacheSettings = getAnalysisCacheSettings()
+): Promise<CachedAnalysis | null> => {
+  if (settings.ttlDays <= 0) return null;
+  const key = toCacheKey(cacheKey);
+
+  try {
+    const local = await getLocal(key);
+    if (local) return local;
+  } catch (error) {
+    console.error('Cache: Erro ao ler o IndexedDB:', error);
+  }
+
+  if (!settings.sync) return null;
+  try {
+    const remote = await getRemote(key);
+    if (!remote) return null;
+    const { expiresAt, ...cached } = remote;
+    await putLocal({ key, fileHash: cacheKey.fileHash, expiresAt, ...cached }).catch((error) =>
+      console.error('Cache: Erro ao gravar no IndexedDB:', error)
+    );
+    return cached;
+  } catch (error) {
+    console.error('Cache: Erro ao ler o cache remoto:', error);
+    return null;
+  }
+};
+
+export const saveCachedAnalysis = async (
+  cacheKey: AnalysisCacheKey,
+  result: BillAnalysisResult,
+  settings: AnalysisCacheSettings = getAnalysisCacheSettings()
+): Promise<void> => {
+  if (settings.ttlDays <= 0) return;
+  const key = toCacheKey(cacheKey);
+  const createdAt = new Date().toISOString();
+  const expiresAt = Date.now() + settings.ttlDays * DAY_MS;
+
+  try {
+    await putLocal({ key, fileHash: cacheKey.fileHash, result, createdAt, expiresAt });
+  } catch (error) {
+    console.error('Cache: Erro ao gravar no IndexedDB:', error);
+  }
+
+  if (!settings.sync) return;
+  try {
+    const userId = await getUserId();
+    if (!userId) return;
+    const { error } = await supabase.from('analysis_cache').upsert(
+      {
+        user_id: userId,
+        cache_key: key,
+        file_hash: cacheKey.fileHash,
+        provider: cacheKey.provider,
+        model: cacheKey.model,
+        prompt_version: cacheKey.promptVersion,
+        result: result as unknown as Json,
+        created_at: createdAt,
+        expires_at: new Date(expiresAt).toISOString(),
+      },
+      { onConflict: 'user_id,cache_key' }
+    );
+    if (error) throw new Error(error.message);
+  } catch (error) {
+    console.error('Cache: Erro ao gravar o cache remoto:', error);
+  }
+};
+
+// Descarta as análises de um arquivo em todos os provedores e modelos
+export const invalidateCachedFile = async (file: File): Promise<void> => {
+  const fileHash = await hashFile(file);
+  await deleteLocalByHash(fileHash);
+
+  const userId = await getUserId();
+  if (!userId) return;
+  const { error } = await supabase.from('analysis_cache').delete().eq('user_id', userId).eq('file_hash', fileHash);
+  if (error) throw new Error(error.message);
+};
+
+// Apaga todo o cache local e, com sessão ativa, o remoto
+export const clearAnalysisCache = async (): Promise<void> => {
+  await withStore('readwrite', (store) => store.clear());
+
+  const userId = await getUserId();
+  if (!userId) return;
+  const { error } = await supabase.from('analysis_cache').delete().eq('user_id', userId);
+  if (error) throw new Error(error.message);
+};
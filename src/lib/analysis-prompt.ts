@@ -0,0 +1,8 @@
+// Prompt da análise compartilhado com a Edge Function analyze-bill (supabase/functions/_shared/prompt.ts)
+export {
+  ANALYSIS_PROMPT_VERSION,
+  DEFAULT_CATEGORY_NAMES,
+  FALLBACK_CATEGORY,
+  formatCategoryNames,
+  getAnalysisPrompt,
+} from '../../supabase/functions/_shared/prompt';
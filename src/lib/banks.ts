@@ -0,0 +1,55 @@
+// Cadastro de bancos emissores de boletos, indexado pelo código COMPE
+import { normalizeBarcode } from './boleto';
+
+export interface BankInfo {
+  code: string; // Código COMPE (3 dígitos), primeiro campo do código de barras
+  name: string;
+  shortName: string;
+  ispb: string; // Identificador no SPB (8 dígitos)
+  color: string; // Cor predominante da marca
+}
+
+export const BANKS: Record<string, BankInfo> = {
+  '001': { code: '001', name: 'Banco do Brasil S.A.', shortName: 'Banco do Brasil', ispb: '00000000', color: '#F8D117' },
+  '004': { code: '004', name: 'Banco do Nordeste do Brasil S.A.', shortName: 'BNB', ispb: '07237373', color: '#A6193C' },
+  '021': { code: '021', name: 'Banestes S.A.', shortName: 'Banestes', ispb: '28127603', color: '#004B8D' },
+  '033': { code: '033', name: 'Banco Santander (Brasil) S.A.', shortName: 'Santander', ispb: '90400888', color: '#EC0000' },
+  '041': { code: '041', name: 'Banco do Estado do Rio Grande do Sul S.A.', shortName: 'Banrisul', ispb: '92702067', color: '#0067B1' },
+  '070': { code: '070', name: 'BRB - Banco de Brasília S.A.', shortName: 'BRB', ispb: '00000208', color: '#0C2D83' },
+  '077': { code: '077', name: 'Banco Inter S.A.', shortName: 'Inter', ispb: '00416968', color: '#FF7A00' },
+  '104': { code: '104', name: 'Caixa Econômica Federal', shortName: 'Caixa', ispb: '00360305', color: '#005CA9' },
+  '208': { code: '208', name: 'Banco BTG Pactual S.A.', shortName: 'BTG Pactual', ispb: '30306294', color: '#0A2240' },
+  '212': { code: '212', name: 'Banco Original S.A.', shortName: 'Original', ispb: '92894922', color: '#00A868' },
+  '237': { code: '237', name: 'Banco Bradesco S.A.', shortName: 'Bradesco', ispb: '60746948', color: '#CC092F' },
+  '260': { code: '260', name: 'Nu Pagamentos S.A.', shortName: 'Nubank', ispb: '18236120', color: '#820AD1' },
+  '290': { code: '290', name: 'PagSeguro Internet Instituição de Pagamento S.A.', shortName: 'PagBank', ispb: '08561701', color: '#1BB99A' },
+  '323': { code: '323', name: 'Mercado Pago Instituição de Pagamento Ltda.', shortName: 'Mercado Pago', ispb: '10573521', color: '#00B1EA' },
+  '336': { code: '336', name: 'Banco C6 S.A.', shortName: 'C6 Bank', ispb: '31872495', color: '#242424' },
+  '341': { code: '341', name: 'Itaú Unibanco S.A.', shortName: 'Itaú', ispb: '60701190', color: '#EC7000' },
+  '380': { code: '380', name: 'PicPay Instituição de Pagamento S.A.', shortName: 'PicPay', ispb: '22896431', color: '#21C25E' },
+  '389': { code: '389', name: 'Banco Mercantil do Brasil S.A.', shortName: 'Mercantil', ispb: '17184037', color: '#0E2D5E' },
+  '422': { code: '422', name: 'Banco Safra S.A.', shortName: 'Safra', ispb: '58160789', color: '#1A2D5A' },
+  '655': { code: '655', name: 'Banco Votorantim S.A.', shortName: 'BV', ispb: '59588111', color: '#1C3E94' },
+  '745': { code: '745', name: 'Banco Citibank S.A.', shortName: 'Citibank', ispb: '33479023', color: '#003B70' },
+  '748': { code: '748', name: 'Banco Cooperativo Sicredi S.A.', shortName: 'Sicredi', ispb: '01181521', color: '#3FA110' },
+  '756': { code: '756', name: 'Banco Cooperativo do Brasil S.A.', shortName: 'Sicoob', ispb: '02038232', color: '#003641' }
+};
+
+const UNKNOWN_BANK_COLOR = '#9CA3AF';
+
+// Bancos fora do cadastro continuam identificados pelo código
+export const getBankInfo = (code: string): BankInfo =>
+  BANKS[code] || { code, name: `Banco ${code}`, shortName: `Banco ${code}`, ispb: '', color: UNKNOWN_BANK_COLOR };
+
+export const getBankName = (code?: string | null): string =>
+  code ? getBankInfo(code).shortName : 'Sem banco emissor';
+
+/**
+ * Código do banco emissor a partir do código de barras ou linha digitável.
+ * Guias de arrecadação (contas de consumo, tributos) não têm banco emissor.
+ */
+export const getIssuerBankCode = (barcode?: string | null): string | null => {
+  const normalized = barcode ? normalizeBarcode(barcode) : null;
+  if (!normalized || normalized.type !== 'bancario') return null;
+  return normalized.barcode.substring(0, 3);
+};
@@ -0,0 +1,29 @@
+// Leitura local do código de barras do boleto em imagens e PDFs, sem chamar a IA
+import { decodeBoleto, scanItfBarcode, type Boleto } from './boleto';
+import { rasterizeFile } from './raster';
+
+export interface BarcodeScanResult {
+  barcode: string; // Código de barras de 44 dígitos
+  page: number;
+  boleto: Boleto;
+}
+
+/**
+ * Procura o código de barras ITF-25 na imagem ou nas páginas do PDF e
+ * retorna o primeiro código válido encontrado, já decodificado.
+ */
+export const scanBoletoBarcode = async (file: File, options: { maxPages?: number } = {}): Promise<BarcodeScanResult | null> => {
+  console.log('Barcode Scanner: Procurando código de barras em', file.name);
+
+  for await (const { page, image } of rasterizeFile(file, { maxPages: options.maxPages ?? 3 })) {
+    const result = scanItfBarcode(image);
+    if (result) {
+      const decoded = decodeBoleto(result.barcode);
+      console.log(`Barcode Scanner: Código encontrado na página ${page} (${result.orientation})`);
+      return { barcode: result.barcode, page, boleto: decoded.boleto };
+    }
+  }
+
+  console.log('Barcode Scanner: Nenhum código de barras encontrado');
+  return null;
+};
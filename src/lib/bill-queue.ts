@@ -0,0 +1,145 @@
+// Importação em lote: análise de cada arquivo da fila, independente do modal de cadastro
+import { analyzeBillWithAI, getApiKey, isAIConfigured, type BillAnalysisResult } from './ocr-service';
+import { extractBillFromPdfText, TEXT_ANALYSIS_MIN_CONFIDENCE } from './pdf-text-extractor';
+import { scanBoletoBarcode } from './barcode-scanner';
+import { scanPixQrCode } from './qr-scanner';
+import { formatLinhaDigitavel } from './boleto';
+import { isPdfFile } from './pdf-converter';
+import { isAbortError } from './providers';
+import { FALLBACK_CATEGORY, getActiveCategories, resolveCategoryName } from './categories';
+
+export type QueueItemStatus = 'queued' | 'analyzing' | 'review' | 'saved' | 'failed';
+
+// Rascunho editável na própria fila antes de salvar
+export interface BillDraft {
+  beneficiary: string;
+  amount: string; // Valor digitado, ex: "1.250,00"
+  dueDate: string; // YYYY-MM-DD (input type="date")
+  category: string;
+  barcode: string; // Linha digitável formatada (código de barras convertido)
+  pixPayload: string;
+}
+
+export interface QueuedFileAnalysis {
+  draft: BillDraft;
+  source: 'ai' | 'text' | 'barcode';
+  confidence: number;
+  fields?: BillAnalysisResult['fields']; // Confiança de cada campo, para destacar o que conferir
+  provider?: string; // Provedor de IA que gerou o resultado
+  cached?: boolean; // Análise da IA reaproveitada do cache
+}
+
+export interface QueuedFileOptions {
+  offline?: boolean; // O arquivo nunca é enviado à IA
+  signal?: AbortSignal;
+}
+
+export const DEFAULT_BATCH_CONCURRENCY = 2;
+export const MAX_BATCH_CONCURRENCY = 5;
+// Mais arquivos por vez que isso deixa de ser uma importação mensal
+export const MAX_BATCH_FILES = 30;
+
+// Arquivos analisados ao mesmo tempo, configurado em Configurações
+export const getBatchConcurrency = (): number => {
+  try {
+    const settings = localStorage.getItem('finanscan-settings');
+    const value = settings ? Number(JSON.parse(settings).batchConcurrency) : NaN;
+    return Number.isInteger(value) ? Math.min(MAX_BATCH_CONCURRENCY, Math.max(1, value)) : DEFAULT_BATCH_CONCURRENCY;
+  } catch (error) {
+    console.error('Erro ao carregar configurações da fila:', error);
+    return DEFAULT_BATCH_CONCURRENCY;
+  }
+};
+
+export const formatDraftAmount = (value: number | null | undefined): string =>
+  value ? value.toLocaleString('pt-BR', { minimumFractionDigits: 2, maximumFractionDigits: 2 }) : '';
+
+export const parseDraftAmount = (value: string): number => parseFloat(value.replace(/[^\d,]/g, '').replace(',', '.'));
+
+// Campos mínimos para salvar o rascunho
+export const isDraftComplete = (draft: BillDraft): boolean =>
+  !!draft.beneficiary.trim() && parseDraftAmount(draft.amount) > 0 && !!draft.dueDate;
+
+const toDraft = (result: BillAnalysisResult): BillDraft => ({
+  beneficiary: result.beneficiary ?? '',
+  amount: formatDraftAmount(result.amount),
+  dueDate: result.dueDate ?? '',
+  // Sugestão fora das categorias do usuário cai na categoria genérica
+  category: result.category ? resolveCategoryName(getActiveCategories(), result.category) : '',
+  barcode: result.barcode ? formatLinhaDigitavel(result.barcode) : '',
+  pixPayload: result.pixPayload ?? '',
+});
+
+const emptyDraft = (file: File): BillDraft => ({
+  beneficiary: `Boleto ${file.name.split('.')[0]}`,
+  amount: '',
+  dueDate: '',
+  category: '',
+  barcode: '',
+  pixPayload: '',
+});
+
+// Leituras locais nunca interrompem a fila; falhas apenas resultam em null
+const safely = async <T>(label: string, task: () => Promise<T>): Promise<T | null> => {
+  try {
+    return await task();
+  } catch (error) {
+    console.error(`Fila: Erro na ${label}:`, error);
+    return null;
+  }
+};
+
+/**
+ * Analisa um arquivo da fila com o mesmo fluxo do cadastro individual: texto do
+ * PDF primeiro, IA quando a leitura local não basta e, por fim, o código de
+ * barras e o QR Code PIX lidos da imagem completam o que faltar.
+ */
+export const analyzeQueuedFile = async (file: File, { offline = false, signal }: QueuedFileOptions = {}): Promise<QueuedFileAnalysis> => {
+  console.log('Fila: Analisando', file.name);
+
+  const [scan, pixScan, textAnalysis] = await Promise.all([
+    safely('leitura do código de barras', () => scanBoletoBarcode(file)),
+    safely('leitura do QR Code', () => scanPixQrCode(file)),
+    isPdfFile(file) ? safely('leitura do texto do PDF', () => extractBillFromPdfText(file)) : null,
+  ]);
+  if (signal?.aborted) throw new DOMException('Análise cancelada', 'AbortError');
+
+  let analysis: QueuedFileAnalysis | null = null;
+  let aiError: unknown = null;
+
+  if (textAnalysis && (offline || textAnalysis.confidence >= TEXT_ANALYSIS_MIN_CONFIDENCE || !isAIConfigured())) {
+    analysis = { draft: toDraft(textAnalysis), source: 'text', confidence: textAnalysis.confidence, fields: textAnalysis.fields };
+  } else if (!offline && isAIConfigured()) {
+    try {
+      const result = await analyzeBillWithAI(file, getApiKey(), { signal });
+      analysis = { draft: toDraft(result), source: 'ai', confidence: result.confidence, fields: result.fields, provider: result.provider, cached: !!result.cachedAt };
+    } catch (error) {
+      if (isAbortError(error)) throw error;
+      aiError = error;
+      // A leitura do texto, mesmo com baixa confiança, é melhor que nada
+      if (textAnalysis) {
+        analysis = { draft: toDraft(textAnalysis), source: 'text', confidence: textAnalysis.confidence, fields: textAnalysis.fields };
+      }
+    }
+  }
+
+  if (!analysis && !scan && !pixScan) {
+    if (aiError) throw aiError;
+    throw new Error('Não encontramos o texto nem o código de barras do boleto no arquivo.');
+  }
+
+  // Código de barras e PIX lidos localmente completam o resultado (ou são o único resultado)
+  const { draft, ...meta } = analysis ?? { draft: emptyDraft(file), source: 'barcode' as const, confidence: scan ? 0.5 : 0.2 };
+  if (scan) {
+    draft.barcode ||= formatLinhaDigitavel(scan.barcode);
+    draft.amount ||= formatDraftAmount(scan.boleto.amount);
+    if (scan.boleto.kind === 'bancario') draft.dueDate ||= scan.boleto.dueDate ?? '';
+    if (scan.boleto.kind === 'arrecadacao' && (!draft.category || draft.category === FALLBACK_CATEGORY)) {
+      draft.category = resolveCategoryName(getActiveCategories(), scan.boleto.segment.category);
+    }
+  }
+  if (pixScan) draft.pixPayload ||= pixScan.pix.payload;
+
+  console.log(`Fila: ${file.name} analisado (${meta.source})`);
+  return { draft, ...meta };
+};
@@ -0,0 +1,112 @@
+// Dados do boleto vindos da IA: formatos brasileiros de valor e data e erros por campo
+import { describe, expect, it } from 'vitest';
+import { parseBrazilianCurrency, parseBrazilianDate, validateBillAnalysis } from './bill-schema';
+
+const VALID = {
+  beneficiary: '  CONDOMINIO EDIFICIO SOL ',
+  amount: 'R$ 1.250,00',
+  dueDate: '05/11/2026',
+  category: 'Condomínio',
+  confidence: 0.9,
+  summary: 'Condomínio de novembro',
+};
+
+describe('parseBrazilianCurrency', () => {
+  it.each([
+    ['R$ 1.250,00', 1250],
+    ['R$1.250,00', 1250],
+    ['1250,00', 1250],
+    ['1.250', 1250], // Ponto como separador de milhar, sem centavos
+    ['1,250.00', 1250],
+    ['12.345.678,90', 12345678.9],
+    ['125.50', 125.5],
+    ['0,99', 0.99],
+    [1250, 1250],
+  ])('%s -> %d', (value, expected) => {
+    expect(parseBrazilianCurrency(value)).toBe(expected);
+  });
+
+  it.each(['', 'R$', 'mil reais', '1.2.3', '12a', null, undefined, Number.NaN, {}])('%s -> null', (value) => {
+    expect(parseBrazilianCurrency(value)).toBeNull();
+  });
+});
+
+describe('parseBrazilianDate', () => {
+  it.each([
+    ['05/11/2026', '2026-11-05'],
+    ['5/11/2026', '2026-11-05'],
+    ['05-11-2026', '2026-11-05'],
+    ['05.11.26', '2026-11-05'],
+    ['2026-11-05', '2026-11-05'],
+    ['2026-11-05T00:00:00Z', '2026-11-05'],
+    [' 29/02/2028 ', '2028-02-29'],
+  ])('%s -> %s', (value, expected) => {
+    expect(parseBrazilianDate(value)).toBe(expected);
+  });
+
+  it.each(['31/04/2026', '29/02/2026', '05/13/2026', '2026/11/05', 'novembro', '', 20261105])('%s -> null', (value) => {
+    expect(parseBrazilianDate(value)).toBeNull();
+  });
+});
+
+describe('validateBillAnalysis', () => {
+  it('converte valor e data brasileiros e limpa os campos', () => {
+    const { data, errors } = validateBillAnalysis({
+      ...VALID,
+      barcode: '00190.00009 01234.567897 01234.567897 5 16260000015000',
+      finePercent: '2%',
+      dailyInterestPercent: '0,033',
+      discountAmount: 'R$ 10,00',
+      discountUntil: '01/11/2026',
+    });
+    expect(errors).toEqual({});
+    expect(data).toMatchObject({
+      beneficiary: 'CONDOMINIO EDIFICIO SOL',
+      amount: 1250,
+      dueDate: '2026-11-05',
+      barcode: '00190000090123456789701234567897516260000015000',
+      finePercent: 2,
+      dailyInterestPercent: 0.033,
+      discountAmount: 10,
+      discountUntil: '2026-11-01',
+    });
+  });
+
+  it('completa categoria, confiança e resumo ausentes', () => {
+    const { data } = validateBillAnalysis({ beneficiary: 'Enel', amount: 89.9, dueDate: '2026-11-10', category: '', confidence: '85%' });
+    expect(data).toMatchObject({ category: 'Outros', confidence: 0.85 });
+    expect(data?.summary).toContain('Beneficiário: Enel');
+  });
+
+  it('descarta condições de pagamento inválidas sem recusar a leitura', () => {
+    const { data } = validateBillAnalysis({ ...VALID, finePercent: 'dois', discountAmount: 0, discountUntil: '31/02/2026' });
+    expect(data).not.toBeNull();
+    expect(data?.finePercent).toBeUndefined();
+    expect(data?.discountAmount).toBeUndefined();
+    expect(data?.discountUntil).toBeUndefined();
+  });
+
+  it('retorna um erro para cada campo inválido', () => {
+    const { data, errors } = validateBillAnalysis({ ...VALID, beneficiary: ' ', amount: 'mil reais', dueDate: '31/04/2026' });
+    expect(data).toBeNull();
+    expect(errors).toEqual({
+      beneficiary: ['Beneficiário ausente'],
+      amount: ['Valor em formato não reconhecido'],
+      dueDate: ['Data de vencimento em formato não reconhecido'],
+    });
+  });
+
+  it.each([
+    [{ amount: undefined }, 'amount', 'Valor ausente'],
+    [{ amount: '' }, 'amount', 'Valor ausente'],
+    [{ amount: 'R$ 0,00' }, 'amount', 'Valor deve ser maior que zero'],
+    [{ amount: -10 }, 'amount', 'Valor deve ser maior que zero'],
+    [{ dueDate: null }, 'dueDate', 'Data de vencimento ausente'],
+    [{ dueDate: 20261105 }, 'dueDate', 'Data de vencimento inválida'],
+    [{ beneficiary: 42 }, 'beneficiary', 'Beneficiário inválido'],
+  ])('%o -> erro em %s', (patch, field, message) => {
+    const { data, errors } = validateBillAnalysis({ ...VALID, ...patch });
+    expect(data).toBeNull();
+    expect(errors).toEqual({ [field]: [message] });
+  });
+});
@@ -0,0 +1,246 @@
+// Validação dos dados de boleto extraídos pela IA, aceitando os formatos brasileiros
+// de valor ("R$ 1.250,00") e data ("05/11/2026")
+import { z } from 'zod';
+import { normalizePixPayload, parsePixBrCode } from './pix';
+import type { PaymentTerms } from './late-fees';
+
+// Campos conferidos individualmente na revisão
+export const BILL_FIELDS = ['beneficiary', 'amount', 'dueDate', 'barcode', 'category'] as const;
+export type BillField = typeof BILL_FIELDS[number];
+
+// Abaixo disso o campo é destacado para conferência na revisão
+export const LOW_FIELD_CONFIDENCE = 0.7;
+
+// Região do valor no documento, em frações da página (0 a 1) a partir do canto superior esquerdo
+export interface FieldRegion {
+  page: number; // 1 para imagens
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+}
+
+export interface FieldEvidence {
+  confidence: number; // 0 a 1
+  region?: FieldRegion;
+}
+
+export interface BillAnalysisResult extends PaymentTerms {
+  beneficiary: string;
+  amount: number;
+  dueDate: string;
+  category: string;
+  confidence: number; // Confiança geral da leitura
+  summary: string; // Resumo textual das informações extraídas
+  barcode?: string; // Linha digitável (somente números)
+  pixPayload?: string; // PIX copia e cola, somente quando o CRC confere
+  fields?: Partial<Record<BillField, FieldEvidence>>; // Confiança e localização de cada campo
+}
+
+const ISO_DATE = /^\d{4}-\d{2}-\d{2}$/;
+
+const isEmpty = (value: unknown) => value === undefined || value === null || (typeof value === 'string' && value.trim() === '');
+
+// Função para converter "R$ 1.250,00", "1250,00", "1,250.00" ou 1250 em número
+export const parseBrazilianCurrency = (value: unknown): number | null => {
+  if (typeof value === 'number') return Number.isFinite(value) ? value : null;
+  if (typeof value !== 'string') return null;
+
+  const cleaned = value.replace(/R\$|\s/gi, '');
+  if (!/^[\d.,]+$/.test(cleaned) || !/\d/.test(cleaned)) return null;
+
+  const lastComma = cleaned.lastIndexOf(',');
+  const lastDot = cleaned.lastIndexOf('.');
+  let normalized: string;
+
+  if (lastComma >= 0 && lastDot >= 0) {
+    // O último separador é o decimal; o outro é de milhar
+    normalized = lastComma > lastDot
+      ? cleaned.replace(/\./g, '').replace(',', '.')
+      : cleaned.replace(/,/g, '');
+  } else if (lastComma >= 0) {
+    normalized = cleaned.replace(',', '.');
+  } else if (/^\d{1,3}(\.\d{3})+$/.test(cleaned)) {
+    // "1.250" sem centavos: ponto como separador de milhar
+    normalized = cleaned.replace(/\./g, '');
+  } else {
+    normalized = cleaned;
+  }
+
+  if ((normalized.match(/\./g) || []).length > 1) return null;
+  const parsed = Number(normalized);
+  return Number.isFinite(parsed) ? parsed : null;
+};
+
+// Função para converter DD/MM/AAAA, DD-MM-AAAA, DD.MM.AA ou ISO em YYYY-MM-DD
+export const parseBrazilianDate = (value: unknown): string | null => {
+  if (typeof value !== 'string') return null;
+  const trimmed = value.trim();
+
+  let year: number, month: number, day: number;
+  const iso = trimmed.match(/^(\d{4})-(\d{2})-(\d{2})(?:[T ].*)?$/);
+  const brazilian = trimmed.match(/^(\d{1,2})[/.-](\d{1,2})[/.-](\d{2}|\d{4})$/);
+
+  if (iso) {
+    [year, month, day] = [Number(iso[1]), Number(iso[2]), Number(iso[3])];
+  } else if (brazilian) {
+    [day, month, year] = [Number(brazilian[1]), Number(brazilian[2]), Number(brazilian[3])];
+    if (year < 100) year += 2000;
+  } else {
+    return null;
+  }
+
+  const date = new Date(Date.UTC(year, month - 1, day));
+  if (date.getUTCFullYear() !== year || date.getUTCMonth() !== month - 1 || date.getUTCDate() !== day) {
+    return null;
+  }
+  return `${year}-${String(month).padStart(2, '0')}-${String(day).padStart(2, '0')}`;
+};
+
+// Percentuais e valores opcionais: "2%", "2,5" ou 2.5; ausentes, zerados ou inválidos viram undefined
+const optionalPositiveNumber = z.preprocess((value) => {
+  if (isEmpty(value)) return undefined;
+  const parsed = parseBrazilianCurrency(typeof value === 'string' ? value.replace('%', '') : value);
+  return parsed && parsed > 0 ? parsed : undefined;
+}, z.number().optional());
+
+// Confiança pode vir como fração (0.9) ou percentual (90)
+const parseConfidence = (value: unknown): number | undefined => {
+  const parsed = isEmpty(value) ? null : parseBrazilianCurrency(typeof value === 'string' ? value.replace('%', '') : value);
+  if (parsed === null) return undefined;
+  return Math.min(1, Math.max(0, parsed > 1 ? parsed / 100 : parsed));
+};
+
+/**
+ * Região em frações da página. Coordenadas acima de 1 são tratadas como a escala
+ * 0–1000 usada por alguns modelos; caixas vazias ou fora da página são descartadas.
+ */
+const parseRegion = (value: Record<string, unknown>): FieldRegion | undefined => {
+  const coordinates = [value.x, value.y, value.width, value.height].map((coordinate) => parseBrazilianCurrency(coordinate));
+  if (coordinates.some((coordinate) => coordinate === null || coordinate < 0)) return undefined;
+  const scale = coordinates.some((coordinate) => coordinate > 1) ? 1000 : 1;
+  const [x, y, width, height] = coordinates.map((coordinate) => coordinate / scale);
+  if (width <= 0 || height <= 0 || x + width > 1.01 || y + height > 1.01) return undefined;
+  const page = Number(value.page);
+  return { page: Number.isInteger(page) && page > 0 ? page : 1, x, y, width, height };
+};
+
+// Evidências por campo; entradas malformadas são ignoradas sem invalidar a leitura
+const parseFieldEvidence = (value: unknown): Partial<Record<BillField, FieldEvidence>> | undefined => {
+  if (!value || typeof value !== 'object') return undefined;
+  const fields: Partial<Record<BillField, FieldEvidence>> = {};
+  BILL_FIELDS.forEach((field) => {
+    const entry = (value as Record<string, unknown>)[field];
+    if (!entry || typeof entry !== 'object') return;
+    const confidence = parseConfidence((entry as Record<string, unknown>).confidence);
+    if (confidence === undefined) return;
+    const region = parseRegion(entry as Record<string, unknown>);
+    fields[field] = region ? { confidence, region } : { confidence };
+  });
+  return Object.keys(fields).length > 0 ? fields : undefined;
+};
+
+const optionalDate = z.preprocess((value) => parseBrazilianDate(value) ?? undefined, z.string().optional());
+
+const requiredText = (label: string) =>
+  z.preprocess(
+    (value) => (typeof value === 'string' ? value.trim() : value),
+    z.string({ required_error: `${label} ausente`, invalid_type_error: `${label} inválido` }).min(1, `${label} ausente`)
+  );
+
+export const billAnalysisSchema = z
+  .object({
+    beneficiary: requiredText('Beneficiário'),
+    // Valores que não puderem ser convertidos seguem como texto e falham com mensagem própria
+    amount: z.preprocess(
+      (value) => (isEmpty(value) ? undefined : parseBrazilianCurrency(value) ?? value),
+      z.number({ required_error: 'Valor ausente', invalid_type_error: 'Valor em formato não reconhecido' })
+        .positive('Valor deve ser maior que zero')
+    ),
+    dueDate: z.preprocess(
+      (value) => (isEmpty(value) ? undefined : parseBrazilianDate(value) ?? value),
+      z.string({ required_error: 'Data de vencimento ausente', invalid_type_error: 'Data de vencimento inválida' })
+        .regex(ISO_DATE, 'Data de vencimento em formato não reconhecido')
+    ),
+    category: z.preprocess((value) => (isEmpty(value) ? undefined : value), z.string().default('Outros')),
+    confidence: z.preprocess(parseConfidence, z.number().default(0.8)),
+    summary: z.preprocess((value) => (isEmpty(value) ? undefined : value), z.string().optional()),
+    barcode: z.preprocess((value) => {
+      const digits = isEmpty(value) ? '' : String(value).replace(/\D/g, '');
+      return digits || undefined;
+    }, z.string().optional()),
+    // O CRC do BR Code descarta transcrições com qualquer caractere trocado
+    pixPayload: z.preprocess((value) => {
+      if (isEmpty(value)) return undefined;
+      const payload = normalizePixPayload(String(value));
+      if (parsePixBrCode(payload).valid) return payload;
+      console.log('AI Response: PIX copia e cola descartado (estrutura ou CRC inválidos)');
+      return undefined;
+    }, z.string().optional()),
+    finePercent: optionalPositiveNumber,
+    dailyInterestPercent: optionalPositiveNumber,
+    discountAmount: optionalPositiveNumber,
+    discountUntil: optionalDate,
+    fields: z.preprocess(parseFieldEvidence, z.custom<Partial<Record<BillField, FieldEvidence>>>().optional()),
+  })
+  .transform((result) => ({
+    ...result,
+    summary: result.summary
+      ?? `Beneficiário: ${result.beneficiary}, Valor: R$ ${result.amount}, Vencimento: ${result.dueDate}, Categoria: ${result.category}`,
+  }));
+
+export interface BillAnalysisValidation {
+  data: BillAnalysisResult | null; // null quando algum campo obrigatório é inválido
+  errors: Partial<Record<keyof BillAnalysisResult, string[]>>;
+}
+
+// Valida o objeto bruto retornado pela IA, com os erros separados por campo
+export const validateBillAnalysis = (raw: unknown): BillAnalysisValidation => {
+  const result = billAnalysisSchema.safeParse(raw);
+  if (result.success) {
+    return { data: result.data as BillAnalysisResult, errors: {} };
+  }
+  return { data: null, errors: result.error.flatten().fieldErrors };
+};
+
+// Coordenadas em frações da página (0 a 1), origem no canto superior esquerdo
+const FIELD_EVIDENCE_JSON_SCHEMA = {
+  type: 'object',
+  properties: {
+    confidence: { type: 'number', description: 'Certeza da leitura deste campo, de 0 a 1' },
+    page: { type: 'integer', description: 'Página onde o valor aparece, começando em 1' },
+    x: { type: 'number', description: 'Distância da borda esquerda, de 0 a 1' },
+    y: { type: 'number', description: 'Distância da borda superior, de 0 a 1' },
+    width: { type: 'number', description: 'Largura do valor, de 0 a 1' },
+    height: { type: 'number', description: 'Altura do valor, de 0 a 1' },
+  },
+  required: ['confidence'],
+  additionalProperties: false,
+};
+
+// JSON Schema enviado aos provedores com saída estruturada nativa
+export const BILL_ANALYSIS_JSON_SCHEMA = {
+  type: 'object',
+  properties: {
+    beneficiary: { type: 'string', description: 'Nome completo do beneficiário' },
+    amount: { type: 'number', description: 'Valor total em reais, ex: 125.50' },
+    dueDate: { type: 'string', description: 'Data de vencimento no formato YYYY-MM-DD' },
+    category: { type: 'string', description: 'Categoria da conta' },
+    confidence: { type: 'number', description: 'Clareza do arquivo, de 0 a 1' },
+    summary: { type: 'string', description: 'Resumo textual das informações extraídas' },
+    barcode: { type: 'string', description: 'Linha digitável somente com números' },
+    pixPayload: { type: 'string', description: 'PIX copia e cola impresso, começando com 000201' },
+    finePercent: { type: 'number', description: 'Multa por atraso em %' },
+    dailyInterestPercent: { type: 'number', description: 'Juros de mora em % ao dia' },
+    discountAmount: { type: 'number', description: 'Desconto em reais' },
+    discountUntil: { type: 'string', description: 'Data limite do desconto, YYYY-MM-DD' },
+    fields: {
+      type: 'object',
+      description: 'Confiança e posição de cada campo no documento',
+      properties: Object.fromEntries(BILL_FIELDS.map((field) => [field, FIELD_EVIDENCE_JSON_SCHEMA])),
+      additionalProperties: false,
+    },
+  },
+  required: ['beneficiary', 'amount', 'dueDate', 'category', 'confidence', 'summary'],
+  additionalProperties: false,
+} as const;
@@ -0,0 +1,115 @@
+// Validação e decodificação de guias de arrecadação (contas de consumo e tributos, 48 dígitos)
+import { modulo10, modulo11Arrecadacao } from './checksum';
+import { linhaArrecadacaoToBarcode } from './convert';
+
+export interface SegmentoArrecadacao {
+  code: string;
+  description: string;
+  category: string; // Categoria sugerida, entre as categorias padrão (DEFAULT_CATEGORIES)
+}
+
+export interface BoletoArrecadacao {
+  kind: 'arrecadacao';
+  linhaDigitavel: string;
+  codigoBarras: string; // 44 dígitos, sem os DVs de cada bloco
+  segment: SegmentoArrecadacao;
+  valueType: '6' | '7' | '8' | '9';
+  checksumModule: 10 | 11;
+  isEffectiveValue: boolean; // false = valor de referência (ex.: quantidade de moeda/índice)
+  amount: number | null; // null quando o valor é de referência ou está zerado
+  companyCode: string; // Código do órgão/empresa (4 dígitos) ou CNPJ-base (8 dígitos) no segmento 6
+}
+
+export interface BoletoArrecadacaoResult {
+  valid: boolean;
+  errors: string[];
+  boleto: BoletoArrecadacao | null;
+}
+
+export const LINHA_DIGITAVEL_ARRECADACAO_LENGTH = 48;
+
+export const SEGMENTOS_ARRECADACAO: Record<string, SegmentoArrecadacao> = {
+  '1': { code: '1', description: 'Prefeituras', category: 'Impostos' },
+  '2': { code: '2', description: 'Saneamento', category: 'Água' },
+  '3': { code: '3', description: 'Energia elétrica e gás', category: 'Energia' },
+  '4': { code: '4', description: 'Telecomunicações', category: 'Internet' },
+  '5': { code: '5', description: 'Órgãos governamentais', category: 'Impostos' },
+  '6': { code: '6', description: 'Carnês e assemelhados', category: 'Outros' },
+  '7': { code: '7', description: 'Multas de trânsito', category: 'Impostos' },
+  '9': { code: '9', description: 'Uso exclusivo do banco', category: 'Outros' }
+};
+
+const UNKNOWN_SEGMENT = (code: string): SegmentoArrecadacao => ({
+  code,
+  description: 'Segmento desconhecido',
+  category: 'Outros'
+});
+
+/**
+ * Valida os DVs dos quatro blocos e o DV geral (módulo 10 ou 11, conforme o
+ * identificador de valor) e decodifica segmento, valor e código da empresa.
+ */
+export const decodeBoletoArrecadacao = (value: string): BoletoArrecadacaoResult => {
+  const linha = value.replace(/\D/g, '');
+
+  if (linha.length !== LINHA_DIGITAVEL_ARRECADACAO_LENGTH) {
+    return {
+      valid: false,
+      errors: [`A linha digitável de arrecadação deve ter ${LINHA_DIGITAVEL_ARRECADACAO_LENGTH} dígitos (recebidos ${linha.length}).`],
+      boleto: null
+    };
+  }
+
+  if (linha[0] !== '8') {
+    return {
+      valid: false,
+      errors: ['Guias de arrecadação começam com o dígito 8.'],
+      boleto: null
+    };
+  }
+
+  const valueType = linha[2];
+  if (!['6', '7', '8', '9'].includes(valueType)) {
+    return {
+      valid: false,
+      errors: [`Identificador de valor inválido: ${valueType}.`],
+      boleto: null
+    };
+  }
+
+  const checksumModule = valueType === '6' || valueType === '7' ? 10 : 11;
+  const checkDigit = checksumModule === 10 ? modulo10 : modulo11Arrecadacao;
+  const errors: string[] = [];
+
+  const blocks = [0, 1, 2, 3].map((index) => linha.substring(index * 12, index * 12 + 12));
+  blocks.forEach((block, index) => {
+    if (checkDigit(block.substring(0, 11)) !== Number(block[11])) {
+      errors.push(`Dígito verificador do bloco ${index + 1} inválido.`);
+    }
+  });
+
+  const codigoBarras = linhaArrecadacaoToBarcode(linha);
+  if (checkDigit(codigoBarras.substring(0, 3) + codigoBarras.substring(4)) !== Number(codigoBarras[3])) {
+    errors.push('Dígito verificador geral inválido.');
+  }
+
+  const segmentCode = codigoBarras[1];
+  const isEffectiveValue = valueType === '6' || valueType === '8';
+  const amountInCents = Number(codigoBarras.substring(4, 15));
+
+  return {
+    valid: errors.length === 0,
+    errors,
+    boleto: {
+      kind: 'arrecadacao',
+      linhaDigitavel: linha,
+      codigoBarras,
+      segment: SEGMENTOS_ARRECADACAO[segmentCode] || UNKNOWN_SEGMENT(segmentCode),
+      valueType: valueType as BoletoArrecadacao['valueType'],
+      checksumModule,
+      isEffectiveValue,
+      amount: isEffectiveValue && amountInCents > 0 ? amountInCents / 100 : null,
+      companyCode: segmentCode === '6' ? codigoBarras.substring(15, 23) : codigoBarras.substring(15, 19)
+    }
+  };
+};
@@ -0,0 +1,78 @@
+// Validação e decodificação da linha digitável de boletos bancários (47 dígitos)
+import { modulo10, modulo11Bancario } from './checksum';
+import { linhaBancariaToBarcode } from './convert';
+import { dueDateFromFactor } from './due-date-factor';
+
+export interface BoletoBancario {
+  kind: 'bancario';
+  linhaDigitavel: string;
+  codigoBarras: string; // 44 dígitos, reconstruído a partir da linha digitável
+  bankCode: string; // Código COMPE do banco emissor (3 dígitos)
+  currencyCode: string; // 9 = Real
+  dueDateFactor: number;
+  dueDate: string | null; // YYYY-MM-DD; null quando o fator é zero (sem vencimento)
+  amount: number | null; // null quando o valor está zerado (valor livre)
+}
+
+export interface BoletoBancarioResult {
+  valid: boolean;
+  errors: string[];
+  boleto: BoletoBancario | null;
+}
+
+export const LINHA_DIGITAVEL_BANCARIA_LENGTH = 47;
+
+/**
+ * Valida os dígitos verificadores (módulo 10 por campo e módulo 11 geral)
+ * e decodifica banco, moeda, fator de vencimento e valor.
+ * @param referenceDate - Referência para resolver o ciclo do fator de vencimento
+ */
+export const decodeBoletoBancario = (value: string, referenceDate?: Date): BoletoBancarioResult => {
+  const linha = value.replace(/\D/g, '');
+
+  if (linha.length !== LINHA_DIGITAVEL_BANCARIA_LENGTH) {
+    return {
+      valid: false,
+      errors: [`A linha digitável deve ter ${LINHA_DIGITAVEL_BANCARIA_LENGTH} dígitos (recebidos ${linha.length}).`],
+      boleto: null
+    };
+  }
+
+  const errors: string[] = [];
+
+  const fields = [
+    { name: 'primeiro', data: linha.substring(0, 9), dv: linha[9] },
+    { name: 'segundo', data: linha.substring(10, 20), dv: linha[20] },
+    { name: 'terceiro', data: linha.substring(21, 31), dv: linha[31] }
+  ];
+
+  fields.forEach(({ name, data, dv }) => {
+    if (modulo10(data) !== Number(dv)) {
+      errors.push(`Dígito verificador do ${name} campo inválido.`);
+    }
+  });
+
+  const codigoBarras = linhaBancariaToBarcode(linha);
+  const generalDv = modulo11Bancario(codigoBarras.substring(0, 4) + codigoBarras.substring(5));
+  if (generalDv !== Number(codigoBarras[4])) {
+    errors.push('Dígito verificador geral inválido.');
+  }
+
+  const dueDateFactor = Number(linha.substring(33, 37));
+  const amountInCents = Number(linha.substring(37, 47));
+
+  return {
+    valid: errors.length === 0,
+    errors,
+    boleto: {
+      kind: 'bancario',
+      linhaDigitavel: linha,
+      codigoBarras,
+      bankCode: linha.substring(0, 3),
+      currencyCode: linha[3],
+      dueDateFactor,
+      dueDate: dueDateFromFactor(dueDateFactor, referenceDate),
+      amount: amountInCents > 0 ? amountInCents / 100 : null
+    }
+  };
+};
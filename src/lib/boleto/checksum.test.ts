@@ -0,0 +1,53 @@
+// Dígitos verificadores FEBRABAN: módulo 10 e as duas variantes do módulo 11
+import { describe, expect, it } from 'vitest';
+import { modulo10, modulo11Arrecadacao, modulo11Bancario } from './checksum';
+
+describe('modulo10', () => {
+  it.each([
+    ['01230067896', 3], // Exemplo do manual FEBRABAN
+    ['0019000009', 1],
+    ['0123456789', 7],
+    ['123', 0], // Soma múltipla de 10
+    ['9', 1], // 9 x 2 = 18 -> 1 + 8 = 9
+  ])('%s -> %i', (digits, dv) => {
+    expect(modulo10(digits)).toBe(dv);
+  });
+
+  it.each([
+    ['01230067896', 4],
+    ['0019000009', 0],
+  ])('recusa %s com DV %i', (digits, dv) => {
+    expect(modulo10(digits)).not.toBe(dv);
+  });
+});
+
+describe('modulo11Bancario', () => {
+  it.each([
+    ['0019162600000150000000001234567890123456789', 5],
+    ['123', 6],
+    ['000', 1], // Resultado 11 vira 1
+    ['0006', 1], // Resultado 10 vira 1
+  ])('%s -> %i', (digits, dv) => {
+    expect(modulo11Bancario(digits)).toBe(dv);
+  });
+
+  it('nunca resulta em 0', () => {
+    expect(modulo11Bancario('000')).not.toBe(0);
+  });
+});
+
+describe('modulo11Arrecadacao', () => {
+  it.each([
+    ['123', 6],
+    ['000', 0], // Resto 0 vira 0
+    ['0006', 0], // Resto 1 vira 0
+    ['8280000001234502702026111012345678901234567', 0],
+  ])('%s -> %i', (digits, dv) => {
+    expect(modulo11Arrecadacao(digits)).toBe(dv);
+  });
+
+  it('difere do bancário nos restos 0 e 1', () => {
+    expect(modulo11Arrecadacao('0006')).toBe(0);
+    expect(modulo11Bancario('0006')).toBe(1);
+  });
+});
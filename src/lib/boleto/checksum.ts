@@ -0,0 +1,46 @@
+// Dígitos verificadores usados nos boletos (padrão FEBRABAN)
+
+// Módulo 10: pesos 2,1,2,1... da direita para a esquerda, somando os algarismos de cada produto
+export const modulo10 = (digits: string): number => {
+  let sum = 0;
+  let weight = 2;
+
+  for (let i = digits.length - 1; i >= 0; i--) {
+    let product = Number(digits[i]) * weight;
+    if (product > 9) {
+      product = Math.floor(product / 10) + (product % 10);
+    }
+    sum += product;
+    weight = weight === 2 ? 1 : 2;
+  }
+
+  return (10 - (sum % 10)) % 10;
+};
+
+// Módulo 11 do código de barras bancário: pesos 2 a 9; resultados 0, 10 e 11 viram 1
+export const modulo11Bancario = (digits: string): number => {
+  let sum = 0;
+  let weight = 2;
+
+  for (let i = digits.length - 1; i >= 0; i--) {
+    sum += Number(digits[i]) * weight;
+    weight = weight === 9 ? 2 : weight + 1;
+  }
+
+  const dv = 11 - (sum % 11);
+  return dv === 0 || dv === 10 || dv === 11 ? 1 : dv;
+};
+
+// Módulo 11 das guias de arrecadação: pesos 2 a 9; restos 0 e 1 resultam em DV 0
+export const modulo11Arrecadacao = (digits: string): number => {
+  let sum = 0;
+  let weight = 2;
+
+  for (let i = digits.length - 1; i >= 0; i--) {
+    sum += Number(digits[i]) * weight;
+    weight = weight === 9 ? 2 : weight + 1;
+  }
+
+  const rest = sum % 11;
+  return rest === 0 || rest === 1 ? 0 : 11 - rest;
+};
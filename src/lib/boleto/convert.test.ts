@@ -0,0 +1,63 @@
+// Conversão entre código de barras e linha digitável, e o agrupamento da linha
+import { describe, expect, it } from 'vitest';
+import { barcodeToLinhaDigitavel, formatLinhaDigitavel, linhaDigitavelToBarcode, normalizeBarcode } from './convert';
+
+// Mesmo boleto nas três formas: código de barras, linha digitável e linha formatada
+const CASES = [
+  {
+    name: 'bancário',
+    type: 'bancario',
+    barcode: '00195162600000150000000001234567890123456789',
+    linha: '00190000090123456789701234567897516260000015000',
+    formatted: '00190.00009 01234.567897 01234.567897 5 16260000015000',
+  },
+  {
+    name: 'arrecadação com DV módulo 10',
+    type: 'arrecadacao',
+    barcode: '83620000000667800481001809756573100158963608',
+    linha: '836200000005667800481000180975657313001589636081',
+    formatted: '83620000000-5 66780048100-0 18097565731-3 00158963608-1',
+  },
+  {
+    name: 'arrecadação com DV módulo 11',
+    type: 'arrecadacao',
+    barcode: '82800000001234502702026111012345678901234567',
+    linha: '828000000010234502702025611101234566789012345675',
+    formatted: '82800000001-0 23450270202-5 61110123456-6 78901234567-5',
+  },
+] as const;
+
+describe.each(CASES)('$name', ({ type, barcode, linha, formatted }) => {
+  it('converte o código de barras na linha digitável', () => {
+    expect(barcodeToLinhaDigitavel(barcode)).toBe(linha);
+  });
+
+  it('converte a linha digitável no código de barras', () => {
+    expect(linhaDigitavelToBarcode(linha)).toBe(barcode);
+    expect(linhaDigitavelToBarcode(formatted)).toBe(barcode);
+  });
+
+  it('normaliza as três formas para o código de barras', () => {
+    for (const value of [barcode, linha, formatted]) {
+      expect(normalizeBarcode(value)).toEqual({ barcode, type });
+    }
+  });
+
+  it('formata a linha digitável e o código de barras no agrupamento oficial', () => {
+    expect(formatLinhaDigitavel(linha)).toBe(formatted);
+    expect(formatLinhaDigitavel(barcode)).toBe(formatted);
+  });
+});
+
+describe('tamanhos não suportados', () => {
+  it('recusa códigos de barras e linhas com outro tamanho', () => {
+    expect(() => barcodeToLinhaDigitavel('0019516260000015000')).toThrow('44 dígitos');
+    expect(() => linhaDigitavelToBarcode('0019000009012345')).toThrow('47 ou 48 dígitos');
+    expect(normalizeBarcode('123456')).toBeNull();
+  });
+
+  it('agrupa outros tamanhos de 4 em 4', () => {
+    expect(formatLinhaDigitavel('1234567890')).toBe('1234 5678 90');
+    expect(formatLinhaDigitavel(undefined)).toBe('');
+  });
+});
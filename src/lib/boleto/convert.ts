@@ -0,0 +1,131 @@
+// Conversão entre o código de barras (44 dígitos) e a linha digitável (47 ou 48 dígitos)
+import { modulo10, modulo11Arrecadacao } from './checksum';
+
+export type BarcodeType = 'bancario' | 'arrecadacao';
+
+export interface NormalizedBarcode {
+  barcode: string; // Forma canônica: código de barras de 44 dígitos
+  type: BarcodeType;
+}
+
+export const CODIGO_BARRAS_LENGTH = 44;
+
+const onlyDigits = (value: string) => value.replace(/\D/g, '');
+
+// Guias de arrecadação são identificadas pelo dígito 8 na primeira posição do código de barras
+export const getBarcodeType = (barcode: string): BarcodeType =>
+  barcode[0] === '8' ? 'arrecadacao' : 'bancario';
+
+// Campos da linha digitável: AAABC.CCCCX DDDDD.DDDDDY EEEEE.EEEEEZ K UUUUVVVVVVVVVV
+export const linhaBancariaToBarcode = (linha: string): string =>
+  linha.substring(0, 4) +
+  linha.substring(32, 33) +
+  linha.substring(33, 47) +
+  linha.substring(4, 9) +
+  linha.substring(10, 20) +
+  linha.substring(21, 31);
+
+// Quatro blocos de 11 dígitos, cada um seguido do seu DV
+export const linhaArrecadacaoToBarcode = (linha: string): string =>
+  [0, 1, 2, 3].map((index) => linha.substring(index * 12, index * 12 + 11)).join('');
+
+const barcodeToLinhaBancaria = (barcode: string): string => {
+  const field1 = barcode.substring(0, 4) + barcode.substring(19, 24);
+  const field2 = barcode.substring(24, 34);
+  const field3 = barcode.substring(34, 44);
+
+  return (
+    field1 + modulo10(field1) +
+    field2 + modulo10(field2) +
+    field3 + modulo10(field3) +
+    barcode[4] +
+    barcode.substring(5, 19)
+  );
+};
+
+const barcodeToLinhaArrecadacao = (barcode: string): string => {
+  const checkDigit = barcode[2] === '6' || barcode[2] === '7' ? modulo10 : modulo11Arrecadacao;
+  return [0, 1, 2, 3]
+    .map((index) => {
+      const block = barcode.substring(index * 11, index * 11 + 11);
+      return block + checkDigit(block);
+    })
+    .join('');
+};
+
+/**
+ * Converte o código de barras de 44 dígitos na linha digitável correspondente,
+ * recalculando os DVs de cada campo/bloco.
+ */
+export const barcodeToLinhaDigitavel = (value: string): string => {
+  const barcode = onlyDigits(value);
+  if (barcode.length !== CODIGO_BARRAS_LENGTH) {
+    throw new Error(`O código de barras deve ter ${CODIGO_BARRAS_LENGTH} dígitos (recebidos ${barcode.length}).`);
+  }
+  return getBarcodeType(barcode) === 'arrecadacao'
+    ? barcodeToLinhaArrecadacao(barcode)
+    : barcodeToLinhaBancaria(barcode);
+};
+
+/**
+ * Converte a linha digitável (47 dígitos bancária, 48 arrecadação) no código de barras de 44 dígitos.
+ */
+export const linhaDigitavelToBarcode = (value: string): string => {
+  const linha = onlyDigits(value);
+  if (linha.length === 47) return linhaBancariaToBarcode(linha);
+  if (linha.length === 48) return linhaArrecadacaoToBarcode(linha);
+  throw new Error(`A linha digitável deve ter 47 ou 48 dígitos (recebidos ${linha.length}).`);
+};
+
+/**
+ * Normaliza qualquer representação (44, 47 ou 48 dígitos) para a forma
+ * armazenada em `bills.barcode`: o código de barras de 44 dígitos e o seu tipo.
+ * Retorna null quando o tamanho não corresponde a nenhum formato conhecido.
+ */
+export const normalizeBarcode = (value: string): NormalizedBarcode | null => {
+  const digits = onlyDigits(value);
+  let barcode: string;
+
+  if (digits.length === CODIGO_BARRAS_LENGTH) {
+    barcode = digits;
+  } else if (digits.length === 47 || digits.length === 48) {
+    barcode = linhaDigitavelToBarcode(digits);
+  } else {
+    return null;
+  }
+
+  return { barcode, type: getBarcodeType(barcode) };
+};
+
+/**
+ * Formata a linha digitável no agrupamento oficial:
+ * bancária `00190.00009 01234.567890 12345.678901 2 12340000010000`,
+ * arrecadação `83620000000-5 66780048100-0 18097565731-3 00158963608-1`.
+ * Códigos de barras de 44 dígitos são convertidos antes; outros tamanhos ficam em grupos de 4.
+ */
+export const formatLinhaDigitavel = (value?: string): string => {
+  if (!value) return '';
+  let digits = onlyDigits(value);
+
+  if (digits.length === CODIGO_BARRAS_LENGTH) {
+    digits = barcodeToLinhaDigitavel(digits);
+  }
+
+  if (digits.length === 47) {
+    return [
+      `${digits.substring(0, 5)}.${digits.substring(5, 10)}`,
+      `${digits.substring(10, 15)}.${digits.substring(15, 21)}`,
+      `${digits.substring(21, 26)}.${digits.substring(26, 32)}`,
+      digits[32],
+      digits.substring(33)
+    ].join(' ');
+  }
+
+  if (digits.length === 48) {
+    return [0, 1, 2, 3]
+      .map((index) => `${digits.substring(index * 12, index * 12 + 11)}-${digits[index * 12 + 11]}`)
+      .join(' ');
+  }
+
+  return digits.replace(/(.{4})/g, '$1 ').trim();
+};
@@ -0,0 +1,67 @@
+// Fator de vencimento com o reinício do ciclo em 22/02/2025 e a janela de -3000/+6000 dias
+import { describe, expect, it } from 'vitest';
+import { dueDateFromFactor, factorFromDueDate } from './due-date-factor';
+
+const REFERENCE_DATE = new Date(2026, 9, 19); // 19/10/2026, data local
+
+// Data YYYY-MM-DD deslocada em dias, em UTC para não depender do fuso
+const addDays = (isoDate: string, days: number) => {
+  const date = new Date(`${isoDate}T00:00:00Z`);
+  date.setUTCDate(date.getUTCDate() + days);
+  return date.toISOString().split('T')[0];
+};
+
+describe('dueDateFromFactor', () => {
+  it.each([
+    [1000, '2000-07-03', new Date(2000, 6, 1)],
+    [9999, '2025-02-21', new Date(2025, 1, 20)],
+    [1000, '2025-02-22', new Date(2025, 1, 20)], // Reinício do ciclo
+    [1001, '2025-02-23', new Date(2025, 1, 20)],
+    [1626, '2026-11-10', REFERENCE_DATE],
+  ])('fator %i -> %s', (factor, dueDate, referenceDate) => {
+    expect(dueDateFromFactor(factor, referenceDate)).toBe(dueDate);
+  });
+
+  it('retorna null para o fator zero (sem vencimento)', () => {
+    expect(dueDateFromFactor(0, REFERENCE_DATE)).toBeNull();
+  });
+
+  it('aceita datas até 3000 dias antes da referência', () => {
+    const oldest = addDays('2026-10-19', -3000);
+    expect(dueDateFromFactor(factorFromDueDate(oldest), REFERENCE_DATE)).toBe(oldest);
+  });
+
+  it('leva um dia antes da janela para o ciclo seguinte', () => {
+    const beforeWindow = addDays('2026-10-19', -3001);
+    expect(dueDateFromFactor(factorFromDueDate(beforeWindow), REFERENCE_DATE)).toBe(addDays(beforeWindow, 9000));
+  });
+
+  it('aceita datas até 5999 dias depois da referência', () => {
+    const latest = addDays('2026-10-19', 5999);
+    expect(dueDateFromFactor(factorFromDueDate(latest), REFERENCE_DATE)).toBe(latest);
+  });
+
+  it('leva 6000 dias depois da referência para o ciclo anterior', () => {
+    const afterWindow = addDays('2026-10-19', 6000);
+    expect(dueDateFromFactor(factorFromDueDate(afterWindow), REFERENCE_DATE)).toBe(addDays(afterWindow, -9000));
+  });
+});
+
+describe('factorFromDueDate', () => {
+  it.each([
+    ['2000-07-03', 1000],
+    ['2025-02-21', 9999],
+    ['2025-02-22', 1000],
+    ['2026-11-10', 1626],
+  ])('%s -> fator %i', (dueDate, factor) => {
+    expect(factorFromDueDate(dueDate)).toBe(factor);
+  });
+
+  it('recusa datas anteriores ao fator 1000', () => {
+    expect(() => factorFromDueDate('2000-07-02')).toThrow('Data anterior');
+  });
+
+  it.each(['2025-02-21', '2025-02-22', '2026-10-19', '2030-01-01'])('ida e volta com %s', (dueDate) => {
+    expect(dueDateFromFactor(factorFromDueDate(dueDate), REFERENCE_DATE)).toBe(dueDate);
+  });
+});
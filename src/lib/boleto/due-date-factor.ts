@@ -0,0 +1,56 @@
+// Fator de vencimento dos boletos bancários, com o reinício de ciclo da FEBRABAN em 2025
+//
+// O fator conta dias a partir de 07/10/1997 e usa 4 dígitos (1000 a 9999). Ao atingir
+// 9999 (21/02/2025) ele volta para 1000, que passa a representar 22/02/2025. Como um
+// mesmo fator aponta para datas separadas por 9000 dias, a data é escolhida dentro de
+// uma janela em torno da data de referência: até 3000 dias no passado e 6000 no futuro.
+
+export const DUE_DATE_FACTOR_BASE = '1997-10-07';
+export const DUE_DATE_FACTOR_MIN = 1000;
+export const DUE_DATE_FACTOR_MAX = 9999;
+export const DUE_DATE_FACTOR_CYCLE_DAYS = DUE_DATE_FACTOR_MAX - DUE_DATE_FACTOR_MIN + 1; // 9000
+
+const WINDOW_PAST_DAYS = 3000;
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const BASE_DAY = Date.UTC(1997, 9, 7) / DAY_MS;
+
+// Dia (contado desde a época Unix) da data de calendário local, sem influência de fuso
+const toDayNumber = (date: Date): number =>
+  Date.UTC(date.getFullYear(), date.getMonth(), date.getDate()) / DAY_MS;
+
+const fromDayNumber = (day: number): string =>
+  new Date(day * DAY_MS).toISOString().split('T')[0];
+
+/**
+ * Converte o fator de vencimento em data (YYYY-MM-DD), considerando o reinício do ciclo.
+ * Fator 0 indica boleto sem vencimento e retorna null.
+ * @param referenceDate - Data em torno da qual a janela é aplicada (padrão: hoje).
+ *   Para boletos já armazenados, use a data de cadastro.
+ */
+export const dueDateFromFactor = (factor: number, referenceDate: Date = new Date()): string | null => {
+  if (!factor) return null;
+
+  const firstCycleDay = BASE_DAY + factor;
+  const windowStart = toDayNumber(referenceDate) - WINDOW_PAST_DAYS;
+  const cycles = Math.max(0, Math.ceil((windowStart - firstCycleDay) / DUE_DATE_FACTOR_CYCLE_DAYS));
+
+  return fromDayNumber(firstCycleDay + cycles * DUE_DATE_FACTOR_CYCLE_DAYS);
+};
+
+/**
+ * Calcula o fator de vencimento (1000 a 9999) de uma data no formato YYYY-MM-DD.
+ */
+export const factorFromDueDate = (isoDate: string): number => {
+  const [year, month, day] = isoDate.split('-').map(Number);
+  let factor = Date.UTC(year, month - 1, day) / DAY_MS - BASE_DAY;
+
+  if (factor < DUE_DATE_FACTOR_MIN) {
+    throw new Error(`Data anterior ao primeiro fator de vencimento válido: ${isoDate}`);
+  }
+
+  while (factor > DUE_DATE_FACTOR_MAX) {
+    factor -= DUE_DATE_FACTOR_CYCLE_DAYS;
+  }
+  return factor;
+};
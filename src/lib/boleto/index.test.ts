@@ -0,0 +1,61 @@
+// Validação dos dígitos verificadores da linha digitável bancária e de arrecadação
+import { describe, expect, it } from 'vitest';
+import { decodeBoleto } from './index';
+
+const REFERENCE_DATE = new Date(2026, 9, 19);
+
+// Troca o dígito da posição informada por outro, invalidando o DV correspondente
+const changeDigit = (digits: string, index: number) =>
+  digits.substring(0, index) + ((Number(digits[index]) + 1) % 10) + digits.substring(index + 1);
+
+const BANCARIA = '00190000090123456789701234567897516260000015000';
+const ARRECADACAO_MOD10 = '836200000005667800481000180975657313001589636081';
+const ARRECADACAO_MOD11 = '828000000010234502702025611101234566789012345675';
+
+describe('decodeBoleto', () => {
+  it('decodifica a linha bancária válida', () => {
+    const result = decodeBoleto(BANCARIA, REFERENCE_DATE);
+    expect(result?.valid).toBe(true);
+    expect(result?.boleto).toMatchObject({
+      kind: 'bancario',
+      bankCode: '001',
+      currencyCode: '9',
+      dueDateFactor: 1626,
+      dueDate: '2026-11-10',
+      amount: 150,
+    });
+  });
+
+  it.each([
+    ['módulo 10', ARRECADACAO_MOD10, { checksumModule: 10, amount: 66.78, segment: expect.objectContaining({ code: '3' }) }],
+    ['módulo 11', ARRECADACAO_MOD11, { checksumModule: 11, amount: 123.45, segment: expect.objectContaining({ code: '2' }) }],
+  ])('decodifica a guia de arrecadação válida (%s)', (_, linha, expected) => {
+    const result = decodeBoleto(linha);
+    expect(result?.valid).toBe(true);
+    expect(result?.boleto).toMatchObject({ kind: 'arrecadacao', ...expected });
+  });
+
+  it('aceita o código de barras de 44 dígitos', () => {
+    expect(decodeBoleto('00195162600000150000000001234567890123456789', REFERENCE_DATE)?.boleto?.linhaDigitavel).toBe(BANCARIA);
+  });
+
+  it.each([
+    ['DV do primeiro campo', BANCARIA, 9, 'Dígito verificador do primeiro campo inválido.'],
+    ['DV do segundo campo', BANCARIA, 20, 'Dígito verificador do segundo campo inválido.'],
+    ['DV do terceiro campo', BANCARIA, 31, 'Dígito verificador do terceiro campo inválido.'],
+    ['DV geral', BANCARIA, 32, 'Dígito verificador geral inválido.'],
+    ['valor sem ajustar o DV geral', BANCARIA, 46, 'Dígito verificador geral inválido.'],
+    ['DV do bloco 2 (módulo 10)', ARRECADACAO_MOD10, 23, 'Dígito verificador do bloco 2 inválido.'],
+    ['DV geral (módulo 10)', ARRECADACAO_MOD10, 3, 'Dígito verificador geral inválido.'],
+    ['DV do bloco 4 (módulo 11)', ARRECADACAO_MOD11, 47, 'Dígito verificador do bloco 4 inválido.'],
+    ['DV geral (módulo 11)', ARRECADACAO_MOD11, 3, 'Dígito verificador geral inválido.'],
+  ])('recusa a linha com %s errado', (_, linha, index, error) => {
+    const result = decodeBoleto(changeDigit(linha, index), REFERENCE_DATE);
+    expect(result?.valid).toBe(false);
+    expect(result?.errors).toContain(error);
+  });
+
+  it('ignora tamanhos que não são de boleto', () => {
+    expect(decodeBoleto('1234567890')).toBeNull();
+  });
+});
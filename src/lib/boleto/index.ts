@@ -0,0 +1,119 @@
+// Ponto de entrada do módulo de boletos: validação offline da linha digitável
+import { decodeBoletoBancario, LINHA_DIGITAVEL_BANCARIA_LENGTH, type BoletoBancario } from './bancario';
+import { decodeBoletoArrecadacao, LINHA_DIGITAVEL_ARRECADACAO_LENGTH, type BoletoArrecadacao } from './arrecadacao';
+import { barcodeToLinhaDigitavel, CODIGO_BARRAS_LENGTH } from './convert';
+
+export * from './bancario';
+export * from './arrecadacao';
+export * from './convert';
+export * from './due-date-factor';
+export * from './itf';
+export * from './itf-decoder';
+export { modulo10, modulo11Bancario, modulo11Arrecadacao } from './checksum';
+
+export type Boleto = BoletoBancario | BoletoArrecadacao;
+
+export interface BoletoDecodeResult {
+  valid: boolean;
+  errors: string[];
+  boleto: Boleto | null;
+}
+
+export interface BoletoMismatch {
+  field: 'amount' | 'dueDate';
+  message: string;
+}
+
+export interface BoletoCrossCheck {
+  // 'unsupported' = tamanho que não corresponde a nenhum formato conhecido
+  status: 'empty' | 'unsupported' | 'invalid' | 'ok' | 'mismatch';
+  errors: string[];
+  mismatches: BoletoMismatch[];
+  boleto: Boleto | null;
+}
+
+const formatBRL = (value: number) =>
+  new Intl.NumberFormat('pt-BR', { style: 'currency', currency: 'BRL' }).format(value);
+
+const formatISODate = (isoDate: string) => isoDate.split('-').reverse().join('/');
+
+// Escolhe o decodificador pelo tamanho: 47 dígitos = bancário, 48 = arrecadação;
+// códigos de barras de 44 dígitos são convertidos para a linha digitável antes
+export const decodeBoleto = (value: string | undefined, referenceDate?: Date): BoletoDecodeResult | null => {
+  let digits = (value || '').replace(/\D/g, '');
+
+  if (digits.length === CODIGO_BARRAS_LENGTH) {
+    digits = barcodeToLinhaDigitavel(digits);
+  }
+
+  if (digits.length === LINHA_DIGITAVEL_BANCARIA_LENGTH) {
+    return decodeBoletoBancario(digits, referenceDate);
+  }
+  if (digits.length === LINHA_DIGITAVEL_ARRECADACAO_LENGTH) {
+    return decodeBoletoArrecadacao(digits);
+  }
+  return null;
+};
+
+// Vencimento derivado do fator de um boleto bancário válido (YYYY-MM-DD)
+export const dueDateFromBarcode = (value: string | undefined, referenceDate?: Date): string | null => {
+  const decoded = decodeBoleto(value, referenceDate);
+  if (!decoded?.valid || decoded.boleto?.kind !== 'bancario') return null;
+  return decoded.boleto.dueDate;
+};
+
+// Categoria sugerida pelo segmento de uma guia de arrecadação válida
+export const suggestCategoryFromBarcode = (value: string | undefined): string | null => {
+  const decoded = decodeBoleto(value);
+  if (!decoded?.valid || decoded.boleto?.kind !== 'arrecadacao') return null;
+  return decoded.boleto.segment.category;
+};
+
+/**
+ * Confere a linha digitável e compara o valor e o vencimento decodificados
+ * com os informados (pela IA ou manualmente).
+ */
+export const crossCheckBoleto = (
+  barcode: string | undefined,
+  expected: { amount?: number | null; dueDate?: string | null }
+): BoletoCrossCheck => {
+  const digits = (barcode || '').replace(/\D/g, '');
+
+  if (!digits) {
+    return { status: 'empty', errors: [], mismatches: [], boleto: null };
+  }
+
+  const decoded = decodeBoleto(digits);
+  if (!decoded) {
+    return { status: 'unsupported', errors: [], mismatches: [], boleto: null };
+  }
+
+  const { valid, errors, boleto } = decoded;
+  if (!valid) {
+    return { status: 'invalid', errors, mismatches: [], boleto };
+  }
+
+  const mismatches: BoletoMismatch[] = [];
+
+  if (boleto.amount !== null && expected.amount && Math.abs(boleto.amount - expected.amount) >= 0.01) {
+    mismatches.push({
+      field: 'amount',
+      message: `Valor no código de barras (${formatBRL(boleto.amount)}) difere do informado (${formatBRL(expected.amount)}).`
+    });
+  }
+
+  // Guias de arrecadação não têm vencimento em posição padronizada
+  if (boleto.kind === 'bancario' && boleto.dueDate && expected.dueDate && boleto.dueDate !== expected.dueDate) {
+    mismatches.push({
+      field: 'dueDate',
+      message: `Vencimento no código de barras (${formatISODate(boleto.dueDate)}) difere do informado (${formatISODate(expected.dueDate)}).`
+    });
+  }
+
+  return {
+    status: mismatches.length > 0 ? 'mismatch' : 'ok',
+    errors: [],
+    mismatches,
+    boleto
+  };
+};
@@ -0,0 +1,173 @@
+// Leitura de códigos ITF-25 de boletos a partir dos pixels de uma imagem (sem IA)
+import { decodeBoletoBancario } from './bancario';
+import { decodeBoletoArrecadacao } from './arrecadacao';
+import { barcodeToLinhaDigitavel, getBarcodeType, CODIGO_BARRAS_LENGTH } from './convert';
+
+// Estrutura compatível com ImageData, para permitir uso fora do navegador
+export interface RasterImage {
+  data: Uint8ClampedArray;
+  width: number;
+  height: number;
+}
+
+export interface ItfScanResult {
+  barcode: string; // 44 dígitos, já validados pelo DV geral
+  orientation: 'horizontal' | 'vertical';
+  line: number; // Linha (ou coluna) da imagem em que o código foi lido
+}
+
+const DIGIT_PATTERNS: Record<string, number> = {
+  '00110': 0, '10001': 1, '01001': 2, '11000': 3, '00101': 4,
+  '10100': 5, '01100': 6, '00011': 7, '10010': 8, '01010': 9
+};
+
+// Início (4) + 22 pares de dígitos (10 elementos cada) + fim (3)
+const BOLETO_RUN_COUNT = 4 + (CODIGO_BARRAS_LENGTH / 2) * 10 + 3;
+const SCANLINES_PER_AXIS = 120;
+
+const toGrayscale = ({ data, width, height }: RasterImage): Uint8Array => {
+  const gray = new Uint8Array(width * height);
+  for (let i = 0; i < gray.length; i++) {
+    const offset = i * 4;
+    gray[i] = (data[offset] * 299 + data[offset + 1] * 587 + data[offset + 2] * 114) / 1000;
+  }
+  return gray;
+};
+
+// Binariza a linha pelo ponto médio entre o mínimo e o máximo e gera as larguras das faixas,
+// começando sempre por uma faixa escura (barra)
+const toRuns = (line: Uint8Array): number[] => {
+  let min = 255;
+  let max = 0;
+  for (let i = 0; i < line.length; i++) {
+    if (line[i] < min) min = line[i];
+    if (line[i] > max) max = line[i];
+  }
+  if (max - min < 48) return [];
+
+  const threshold = (min + max) / 2;
+  const runs: number[] = [];
+  let isDark = false;
+  let length = 0;
+
+  for (let i = 0; i < line.length; i++) {
+    const dark = line[i] < threshold;
+    if (dark === isDark) {
+      length++;
+    } else {
+      if (isDark || runs.length > 0) runs.push(length);
+      isDark = dark;
+      length = 1;
+    }
+  }
+  if (isDark) runs.push(length);
+
+  return runs;
+};
+
+// Os dois elementos mais largos de cada grupo de cinco são os largos do ITF
+const decodeDigit = (widths: number[]): number | null => {
+  const sorted = [...widths].sort((a, b) => b - a);
+  if (sorted[1] < sorted[2] * 1.5) return null;
+
+  const pattern = widths.map((width) => (width >= sorted[1] ? '1' : '0')).join('');
+  return pattern in DIGIT_PATTERNS ? DIGIT_PATTERNS[pattern] : null;
+};
+
+// Tenta ler um código completo a partir da barra de índice `start` (índices pares = barras)
+const decodeAt = (runs: number[], start: number): string | null => {
+  const [b1, s1, b2, s2] = runs.slice(start, start + 4);
+  const narrow = (b1 + s1 + b2 + s2) / 4;
+  if ([b1, s1, b2, s2].some((width) => width > narrow * 1.8 || width < narrow * 0.4)) return null;
+
+  // Zona de silêncio antes do início
+  if (start > 0 && runs[start - 1] < narrow * 5) return null;
+
+  let digits = '';
+  for (let pair = 0; pair < CODIGO_BARRAS_LENGTH / 2; pair++) {
+    const offset = start + 4 + pair * 10;
+    const bars: number[] = [];
+    const spaces: number[] = [];
+    for (let i = 0; i < 10; i++) {
+      (i % 2 === 0 ? bars : spaces).push(runs[offset + i]);
+    }
+    const first = decodeDigit(bars);
+    const second = decodeDigit(spaces);
+    if (first === null || second === null) return null;
+    digits += `${first}${second}`;
+  }
+
+  const stopOffset = start + 4 + CODIGO_BARRAS_LENGTH * 5;
+  const [stopWide, stopSpace, stopNarrow] = runs.slice(stopOffset, stopOffset + 3);
+  if (!(stopWide > stopSpace * 1.5 && stopWide > stopNarrow * 1.5)) return null;
+
+  return digits;
+};
+
+const isValidBoletoBarcode = (barcode: string): boolean => {
+  const linha = barcodeToLinhaDigitavel(barcode);
+  return getBarcodeType(barcode) === 'arrecadacao'
+    ? decodeBoletoArrecadacao(linha).valid
+    : decodeBoletoBancario(linha).valid;
+};
+
+const decodeRuns = (runs: number[]): string | null => {
+  for (let start = 0; start + BOLETO_RUN_COUNT <= runs.length; start += 2) {
+    const digits = decodeAt(runs, start);
+    if (digits && isValidBoletoBarcode(digits)) {
+      return digits;
+    }
+  }
+  return null;
+};
+
+const scanLine = (line: Uint8Array): string | null => {
+  const runs = toRuns(line);
+  if (runs.length < BOLETO_RUN_COUNT) return null;
+
+  // Lê também no sentido inverso (imagem de cabeça para baixo)
+  const reversedLine = line.slice().reverse();
+  return decodeRuns(runs) ?? decodeRuns(toRuns(reversedLine));
+};
+
+// Varre linhas horizontais e depois colunas verticais, reunindo os códigos distintos
+const collectBarcodes = (image: RasterImage, stopAtFirst: boolean): ItfScanResult[] => {
+  const { width, height } = image;
+  const gray = toGrayscale(image);
+  const results: ItfScanResult[] = [];
+  const add = (barcode: string | null, orientation: ItfScanResult['orientation'], line: number) => {
+    if (barcode && !results.some((result) => result.barcode === barcode)) {
+      results.push({ barcode, orientation, line });
+    }
+    return stopAtFirst && results.length > 0;
+  };
+
+  const rowStep = Math.max(1, Math.floor(height / SCANLINES_PER_AXIS));
+  for (let y = Math.floor(rowStep / 2); y < height; y += rowStep) {
+    if (add(scanLine(gray.subarray(y * width, (y + 1) * width)), 'horizontal', y)) return results;
+  }
+
+  const columnStep = Math.max(1, Math.floor(width / SCANLINES_PER_AXIS));
+  const column = new Uint8Array(height);
+  for (let x = Math.floor(columnStep / 2); x < width; x += columnStep) {
+    for (let y = 0; y < height; y++) {
+      column[y] = gray[y * width + x];
+    }
+    if (add(scanLine(column), 'vertical', x)) return results;
+  }
+
+  return results;
+};
+
+/**
+ * Procura o código de barras ITF-25 de um boleto varrendo linhas horizontais
+ * e, se não encontrar, colunas verticais da imagem. Só aceita leituras cujo
+ * DV geral confere.
+ */
+export const scanItfBarcode = (image: RasterImage): ItfScanResult | null => collectBarcodes(image, true)[0] ?? null;
+
+/**
+ * Lê todos os códigos distintos da imagem, para páginas de carnê com vários
+ * boletos, na ordem em que aparecem (de cima para baixo).
+ */
+export const scanItfBarcodes = (image: RasterImage): ItfScanResult[] => collectBarcodes(image, false);
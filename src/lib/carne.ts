@@ -0,0 +1,127 @@
+// Detecção de carnês (IPTU, IPVA, mensalidades...): vários boletos no mesmo PDF,
+// lidos página a página e boleto a boleto, sem IA
+import { barcodeToLinhaDigitavel, decodeBoleto, normalizeBarcode, scanItfBarcodes } from './boleto';
+import { extractPdfText, getPdfPageCount } from './pdf-converter';
+import { findDueDateInText, findLinhasDigitaveis, parseBoletoText } from './pdf-text-extractor';
+import { rasterizeFile } from './raster';
+import { getActiveCategories, resolveCategoryName } from './categories';
+
+export interface CarneSlip {
+  barcode: string; // Linha digitável (47 ou 48 dígitos)
+  page: number;
+  amount: number | null;
+  dueDate: string | null; // YYYY-MM-DD; guias de arrecadação só têm a data impressa
+  source: 'text' | 'barcode'; // Camada de texto ou leitura do código na imagem
+}
+
+export interface CarneDetection {
+  slips: CarneSlip[];
+  beneficiary: string; // Comum a todas as parcelas; vazio se não identificado
+  category: string;
+}
+
+// Carnês raramente passam de 12 parcelas, às vezes com um boleto por página e capa
+const MAX_CARNE_PAGES = 24;
+
+const toSlip = (digits: string, page: number, source: CarneSlip['source'], text = ''): CarneSlip => {
+  const boleto = decodeBoleto(digits)?.boleto;
+  return {
+    barcode: digits,
+    page,
+    amount: boleto?.amount || null,
+    dueDate: (boleto?.kind === 'bancario' ? boleto.dueDate : null) ?? findDueDateInText(text),
+    source,
+  };
+};
+
+/**
+ * Boletos de uma página a partir do texto. A mesma linha digitável costuma
+ * aparecer duas vezes por boleto (recibo do pagador e ficha de compensação);
+ * o vencimento de cada uma é procurado no trecho entre a anterior e a seguinte.
+ */
+const findSlipsInPageText = (text: string, page: number): CarneSlip[] => {
+  const found = findLinhasDigitaveis(text);
+  return found.map(({ digits }, index) => {
+    const start = index > 0 ? found[index - 1].index : 0;
+    const end = index < found.length - 1 ? found[index + 1].index : text.length;
+    return toSlip(digits, page, 'text', text.slice(start, end));
+  });
+};
+
+// Carnês costumam se identificar na capa ou na primeira parcela
+const CARNE_TEXT_PATTERN = /carn[eê]|parcela\s*\d+\s*(?:\/|de)\s*\d+/i;
+
+// O mesmo boleto pode ter sido lido como linha digitável e como código de barras
+const uniqueSlips = (slips: CarneSlip[]): CarneSlip[] => {
+  const keys = slips.map((slip) => normalizeBarcode(slip.barcode)?.barcode ?? slip.barcode);
+  return slips.filter((_, index) => keys.indexOf(keys[index]) === index);
+};
+
+const throwIfAborted = (signal?: AbortSignal) => {
+  if (signal?.aborted) throw new DOMException('Detecção cancelada', 'AbortError');
+};
+
+// Boletos das páginas escaneadas, pelos códigos de barras da imagem
+const scanPagesForSlips = async (file: File, pages: number[], signal?: AbortSignal): Promise<CarneSlip[]> => {
+  const slips: CarneSlip[] = [];
+  for await (const { page, image } of rasterizeFile(file, { maxPages: MAX_CARNE_PAGES, pages })) {
+    throwIfAborted(signal);
+    // O leitor já valida o DV geral; o código de 44 dígitos vira linha digitável
+    scanItfBarcodes(image).forEach(({ barcode }) => slips.push(toSlip(barcodeToLinhaDigitavel(barcode), page, 'barcode')));
+  }
+  return slips;
+};
+
+/**
+ * Procura todos os boletos do PDF. Páginas com camada de texto são lidas pelo
+ * texto; as escaneadas, pelos códigos de barras da imagem. O restante do PDF só
+ * é lido quando a primeira página parece de um carnê (dois boletos, menção a
+ * carnê/parcelas ou um boleto seguido de outras páginas), para não renderizar
+ * todas as páginas de um boleto comum. Boletos repetidos são descartados e o
+ * resultado é ordenado pelo vencimento.
+ */
+export const detectCarneSlips = async (file: File, { signal }: { signal?: AbortSignal } = {}): Promise<CarneDetection> => {
+  console.log('Carnê: Procurando boletos em', file.name);
+
+  const [[firstText = ''], pageCount] = await Promise.all([extractPdfText(file, 1), getPdfPageCount(file)]);
+  throwIfAborted(signal);
+  const firstSlips = uniqueSlips(
+    firstText.trim() ? findSlipsInPageText(firstText, 1) : await scanPagesForSlips(file, [1], signal)
+  );
+  const looksLikeCarne =
+    firstSlips.length > 1 || CARNE_TEXT_PATTERN.test(firstText) || (firstSlips.length === 1 && pageCount > 1);
+
+  let pages = [firstText];
+  let slips = firstSlips;
+  if (looksLikeCarne && pageCount > 1) {
+    pages = await extractPdfText(file, MAX_CARNE_PAGES);
+    throwIfAborted(signal);
+    const scannedPages: number[] = [];
+    slips = [...firstSlips];
+    pages.forEach((text, index) => {
+      if (index === 0) return;
+      if (text.trim()) {
+        slips.push(...findSlipsInPageText(text, index + 1));
+      } else {
+        scannedPages.push(index + 1);
+      }
+    });
+
+    if (scannedPages.length > 0) {
+      console.log(`Carnê: Lendo códigos de barras de ${scannedPages.length} página(s) sem texto`);
+      slips.push(...(await scanPagesForSlips(file, scannedPages, signal)));
+    }
+    slips = uniqueSlips(slips);
+  }
+  slips.sort((a, b) => (a.dueDate ?? '9999').localeCompare(b.dueDate ?? '9999') || a.page - b.page);
+
+  // Beneficiário e categoria vêm do texto do documento inteiro
+  const summary = parseBoletoText(pages.join('\n'));
+  console.log(`Carnê: ${slips.length} boleto(s) encontrado(s)`);
+
+  return {
+    slips,
+    beneficiary: summary?.beneficiary ?? '',
+    category: resolveCategoryName(getActiveCategories(), summary?.category),
+  };
+};
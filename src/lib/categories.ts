@@ -0,0 +1,149 @@
+// Categorias das contas: lista padrão, cores, palavras-chave e a lista ativa do usuário
+import type { Tables } from '@/integrations/supabase/types';
+import { DEFAULT_CATEGORY_NAMES, FALLBACK_CATEGORY, formatCategoryNames } from './analysis-prompt';
+
+export { FALLBACK_CATEGORY };
+
+export interface Category {
+  id: string;
+  name: string;
+  color: string; // Cor CSS (hsl) usada nos gráficos e no filtro
+  icon: string; // Nome de um ícone em CATEGORY_ICON_NAMES
+  parentId: string | null;
+  keywords: string[]; // Palavras que, no texto do boleto, sugerem a categoria
+}
+
+export type CategoryDraft = Omit<Category, 'id'>;
+
+export const DEFAULT_CATEGORY_COLOR = 'hsl(0, 0%, 50%)';
+export const DEFAULT_CATEGORY_ICON = 'tag';
+
+// Ícones disponíveis para as categorias (nomes dos ícones do lucide)
+export const CATEGORY_ICON_NAMES = [
+  'tag',
+  'home',
+  'building',
+  'zap',
+  'droplet',
+  'flame',
+  'wifi',
+  'shopping-cart',
+  'landmark',
+  'car',
+  'heart-pulse',
+  'graduation-cap',
+  'phone',
+  'credit-card',
+  'shield',
+  'utensils',
+] as const;
+
+// Cores sugeridas no cadastro de categorias
+export const CATEGORY_COLOR_OPTIONS = [
+  'hsl(45, 100%, 51%)',
+  'hsl(200, 100%, 50%)',
+  'hsl(280, 65%, 60%)',
+  'hsl(120, 60%, 50%)',
+  'hsl(15, 85%, 55%)',
+  'hsl(300, 70%, 50%)',
+  'hsl(340, 75%, 50%)',
+  'hsl(220, 15%, 40%)',
+  'hsl(170, 70%, 40%)',
+  'hsl(0, 0%, 50%)',
+];
+
+// Aparência e palavras-chave das categorias padrão; os nomes vêm do prompt compartilhado
+// com o servidor, e a migração 20261019210000_add_categories.sql usa os mesmos valores
+const DEFAULT_CATEGORY_DETAILS: Record<(typeof DEFAULT_CATEGORY_NAMES)[number], Omit<CategoryDraft, 'name' | 'parentId'>> = {
+  'Aluguel': { color: 'hsl(300, 70%, 50%)', icon: 'home', keywords: ['aluguel', 'locação', 'imobiliária'] },
+  'Condomínio': { color: 'hsl(280, 65%, 60%)', icon: 'building', keywords: ['condomínio'] },
+  'Energia': { color: 'hsl(45, 100%, 51%)', icon: 'zap', keywords: ['energia', 'elétrica', 'elétrico', 'distribuidora'] },
+  'Água': { color: 'hsl(200, 100%, 50%)', icon: 'droplet', keywords: ['saneamento', 'água', 'esgoto'] },
+  'Gás': { color: 'hsl(340, 75%, 50%)', icon: 'flame', keywords: ['gás', 'comgás'] },
+  'Internet': { color: 'hsl(120, 60%, 50%)', icon: 'wifi', keywords: ['internet', 'telecom', 'fibra', 'banda larga'] },
+  'Mercado': { color: 'hsl(15, 85%, 55%)', icon: 'shopping-cart', keywords: ['supermercado', 'mercado', 'atacado', 'atacadão', 'atacadista'] },
+  'Impostos': { color: 'hsl(220, 15%, 40%)', icon: 'landmark', keywords: ['imposto', 'iptu', 'ipva', 'darf', 'tributo', 'receita federal'] },
+  [FALLBACK_CATEGORY]: { color: DEFAULT_CATEGORY_COLOR, icon: DEFAULT_CATEGORY_ICON, keywords: [] },
+};
+
+// Categorias criadas para novos usuários
+export const DEFAULT_CATEGORIES: CategoryDraft[] = DEFAULT_CATEGORY_NAMES.map((name) => ({
+  name,
+  parentId: null,
+  ...DEFAULT_CATEGORY_DETAILS[name],
+}));
+
+export const mapRowToCategory = (row: Tables<'categories'>): Category => ({
+  id: row.id,
+  name: row.name,
+  color: row.color,
+  icon: row.icon,
+  parentId: row.parent_id,
+  keywords: row.keywords ?? [],
+});
+
+// Palavras-chave digitadas separadas por vírgula, sem repetições
+export const parseKeywords = (value: string): string[] =>
+  Array.from(new Set(value.split(',').map((keyword) => keyword.trim().toLowerCase()).filter(Boolean)));
+
+// Cor da categoria pelo nome; categorias desconhecidas ficam com a cor neutra
+export const getCategoryColor = (categories: Category[], name: string | undefined): string =>
+  categories.find((category) => category.name === name)?.color ?? DEFAULT_CATEGORY_COLOR;
+
+// Nome exibido com a categoria-mãe, ex: "Moradia › Condomínio"
+export const getCategoryLabel = (categories: Category[], category: Category): string => {
+  const parent = category.parentId ? categories.find((candidate) => candidate.id === category.parentId) : null;
+  return parent ? `${parent.name} › ${category.name}` : category.name;
+};
+
+// Lista para o prompt da IA, terminando sempre na categoria genérica
+export const formatCategoriesForPrompt = (categories: CategoryDraft[]): string =>
+  formatCategoryNames(categories.map((category) => category.name));
+
+const normalizeText = (value: string) => value.normalize('NFD').replace(/[\u0300-\u036f]/g, '').toLowerCase();
+
+const escapeRegExp = (value: string) => value.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+
+// Ocorrências da palavra-chave como palavra inteira no texto já normalizado
+const countKeyword = (normalizedText: string, keyword: string): number => {
+  const term = normalizeText(keyword.trim());
+  if (!term) return 0;
+  const pattern = new RegExp(`(?<![a-z0-9])${escapeRegExp(term).replace(/\s+/g, '\\s+')}(?![a-z0-9])`, 'g');
+  return normalizedText.match(pattern)?.length ?? 0;
+};
+
+/**
+ * Categoria cujas palavras-chave mais aparecem no texto, sem diferenciar acentos
+ * e maiúsculas. No empate vence a subcategoria, por ser mais específica, e depois
+ * a ordem da lista. Retorna null quando nenhuma palavra-chave aparece.
+ */
+export const matchCategoryByKeywords = (categories: CategoryDraft[], text: string): string | null => {
+  const normalized = normalizeText(text);
+  let best: { name: string; hits: number; isChild: boolean } | null = null;
+  for (const category of categories) {
+    const hits = category.keywords.reduce((sum, keyword) => sum + countKeyword(normalized, keyword), 0);
+    const isChild = !!category.parentId;
+    if (hits > 0 && (!best || hits > best.hits || (hits === best.hits && isChild && !best.isChild))) {
+      best = { name: category.name, hits, isChild };
+    }
+  }
+  return best?.name ?? null;
+};
+
+// Nome cadastrado que corresponde à sugestão, sem diferenciar acentos e maiúsculas;
+// fora da lista vale a categoria genérica
+export const resolveCategoryName = (categories: CategoryDraft[], name?: string | null): string => {
+  const normalized = normalizeText(name?.trim() ?? '');
+  const match = normalized && categories.find((category) => normalizeText(category.name) === normalized);
+  return match ? match.name : FALLBACK_CATEGORY;
+};
+
+// Categorias do usuário logado, para o código fora do React (prompt da IA, leitura do PDF).
+// Preenchida pelo useCategories; antes disso valem as categorias padrão.
+let activeCategories: Category[] | null = null;
+
+export const setActiveCategories = (categories: Category[] | null) => {
+  activeCategories = categories && categories.length > 0 ? categories : null;
+};
+
+export const getActiveCategories = (): CategoryDraft[] => activeCategories ?? DEFAULT_CATEGORIES;
@@ -0,0 +1,44 @@
+// Mesclagem de um boleto repetido com o cadastro existente
+import { describe, expect, it } from 'vitest';
+import { getMergePatch } from './duplicates';
+
+const EXISTING = { beneficiary: 'Boleto fatura', amount: 150, dueDate: '2026-11-10', category: 'Outros' };
+const INCOMING = {
+  beneficiary: 'CONDOMINIO EDIFICIO SOL',
+  amount: 150,
+  dueDate: '2026-11-10',
+  category: 'Condomínio',
+  barcode: '00190000090123456789701234567897516260000015000',
+  finePercent: 2,
+  dailyInterestPercent: 0.033,
+  discountAmount: 10,
+  discountUntil: '2026-11-05',
+};
+
+describe('getMergePatch', () => {
+  it('completa o cadastro com os dados e as condições de pagamento do novo arquivo', () => {
+    expect(getMergePatch(EXISTING, INCOMING)).toEqual({
+      beneficiary: 'CONDOMINIO EDIFICIO SOL',
+      category: 'Condomínio',
+      barcode: INCOMING.barcode,
+      finePercent: 2,
+      dailyInterestPercent: 0.033,
+      discountAmount: 10,
+      discountUntil: '2026-11-05',
+    });
+  });
+
+  it('mantém as condições já cadastradas', () => {
+    const existing = { ...EXISTING, finePercent: 1, dailyInterestPercent: 0.02, discountAmount: 5, discountUntil: '2026-11-01' };
+    const patch = getMergePatch(existing, INCOMING);
+    expect(patch).not.toHaveProperty('finePercent');
+    expect(patch).not.toHaveProperty('dailyInterestPercent');
+    expect(patch).not.toHaveProperty('discountAmount');
+    expect(patch).not.toHaveProperty('discountUntil');
+  });
+
+  it('não copia o desconto sem a data limite', () => {
+    const patch = getMergePatch(EXISTING, { ...INCOMING, discountUntil: undefined });
+    expect(patch).not.toHaveProperty('discountAmount');
+  });
+});
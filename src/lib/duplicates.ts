@@ -0,0 +1,152 @@
+// Detecção de boletos já cadastrados antes de inserir um novo
+import { normalizeBarcode } from './boleto';
+import type { PaymentTerms } from './late-fees';
+
+export interface DuplicateCandidate extends PaymentTerms {
+  beneficiary: string;
+  amount: number;
+  dueDate: string; // YYYY-MM-DD
+  category?: string;
+  barcode?: string;
+  pixPayload?: string;
+}
+
+export interface DuplicateMatch<T extends DuplicateCandidate> {
+  bill: T;
+  reason: 'barcode' | 'similar';
+  score: number; // 1 para o mesmo código de barras; similaridade dos dados nos demais casos
+}
+
+// Tolerâncias do casamento aproximado (boletos sem código de barras)
+const MAX_DUE_DATE_DISTANCE_DAYS = 3;
+const MIN_BENEFICIARY_SIMILARITY = 0.6;
+
+// Sufixos societários e palavras genéricas não ajudam a distinguir beneficiários
+const IGNORED_NAME_TOKENS = new Set(['ltda', 'sa', 's/a', 'me', 'epp', 'eireli', 'cia', 'de', 'da', 'do', 'das', 'dos', 'e']);
+
+// Nome gerado automaticamente quando o boleto é salvo sem beneficiário
+const PLACEHOLDER_BENEFICIARY = /^Boleto /;
+
+export const normalizeBeneficiary = (name: string): string =>
+  name
+    .normalize('NFD')
+    .replace(/[\u0300-\u036f]/g, '')
+    .toLowerCase()
+    .replace(/[^a-z0-9/\s]/g, ' ')
+    .split(/\s+/)
+    .filter((token) => token && !IGNORED_NAME_TOKENS.has(token))
+    .join(' ');
+
+const getBigrams = (value: string): string[] => {
+  const compact = value.replace(/\s+/g, '');
+  const bigrams: string[] = [];
+  for (let i = 0; i < compact.length - 1; i++) {
+    bigrams.push(compact.slice(i, i + 2));
+  }
+  return bigrams;
+};
+
+// Coeficiente de Dice sobre bigramas: 1 para nomes iguais, 0 para nada em comum
+export const beneficiarySimilarity = (a: string, b: string): number => {
+  const normalizedA = normalizeBeneficiary(a);
+  const normalizedB = normalizeBeneficiary(b);
+  if (!normalizedA || !normalizedB) return 0;
+  if (normalizedA === normalizedB) return 1;
+
+  const bigramsA = getBigrams(normalizedA);
+  const bigramsB = getBigrams(normalizedB);
+  if (bigramsA.length === 0 || bigramsB.length === 0) return 0;
+
+  const remaining = [...bigramsB];
+  let matches = 0;
+  for (const bigram of bigramsA) {
+    const index = remaining.indexOf(bigram);
+    if (index >= 0) {
+      matches++;
+      remaining.splice(index, 1);
+    }
+  }
+  return (2 * matches) / (bigramsA.length + bigramsB.length);
+};
+
+const daysBetween = (a: string, b: string): number =>
+  Math.abs(Date.parse(`${a}T00:00:00Z`) - Date.parse(`${b}T00:00:00Z`)) / (1000 * 60 * 60 * 24);
+
+const getCanonicalBarcode = (value?: string) => (value ? normalizeBarcode(value)?.barcode ?? value.replace(/\D/g, '') : undefined);
+
+/**
+ * Procura um boleto já cadastrado que pareça ser o mesmo do novo cadastro.
+ * Mesmo código de barras é duplicata certa; sem código de barras em um dos
+ * lados, compara beneficiário, valor e vencimento.
+ */
+export const findDuplicateBill = <T extends DuplicateCandidate>(
+  candidate: DuplicateCandidate,
+  bills: T[]
+): DuplicateMatch<T> | null => {
+  const barcode = getCanonicalBarcode(candidate.barcode);
+
+  if (barcode) {
+    const sameBarcode = bills.find((bill) => getCanonicalBarcode(bill.barcode) === barcode);
+    if (sameBarcode) {
+      return { bill: sameBarcode, reason: 'barcode', score: 1 };
+    }
+  }
+
+  let bestMatch: DuplicateMatch<T> | null = null;
+  for (const bill of bills) {
+    // Códigos de barras diferentes indicam boletos diferentes, mesmo com dados parecidos
+    if (barcode && bill.barcode) continue;
+    if (Math.abs(bill.amount - candidate.amount) >= 0.01) continue;
+
+    const distance = daysBetween(bill.dueDate, candidate.dueDate);
+    if (Number.isNaN(distance) || distance > MAX_DUE_DATE_DISTANCE_DAYS) continue;
+
+    const similarity = beneficiarySimilarity(bill.beneficiary, candidate.beneficiary);
+    if (similarity < MIN_BENEFICIARY_SIMILARITY) continue;
+
+    const score = similarity * (1 - distance / (MAX_DUE_DATE_DISTANCE_DAYS + 1));
+    if (!bestMatch || score > bestMatch.score) {
+      bestMatch = { bill, reason: 'similar', score };
+    }
+  }
+
+  return bestMatch;
+};
+
+/**
+ * Campos do novo cadastro que completam o boleto existente ao mesclar:
+ * só preenche o que está vazio (ou com valor genérico) no registro atual.
+ */
+export const getMergePatch = (existing: DuplicateCandidate, incoming: DuplicateCandidate): Partial<DuplicateCandidate> => {
+  const patch: Partial<DuplicateCandidate> = {};
+
+  if (PLACEHOLDER_BENEFICIARY.test(existing.beneficiary) && !PLACEHOLDER_BENEFICIARY.test(incoming.beneficiary)) {
+    patch.beneficiary = incoming.beneficiary;
+  }
+  if (!existing.amount && incoming.amount) {
+    patch.amount = incoming.amount;
+  }
+  if ((!existing.category || existing.category === 'Importado' || existing.category === 'Outros') && incoming.category && incoming.category !== 'Importado') {
+    patch.category = incoming.category;
+  }
+  if (!existing.barcode && incoming.barcode) {
+    patch.barcode = incoming.barcode;
+  }
+  if (!existing.pixPayload && incoming.pixPayload) {
+    patch.pixPayload = incoming.pixPayload;
+  }
+  // Multa, juros e desconto lidos no novo arquivo (ex: pela IA) completam o cadastro sem condições
+  if (!existing.finePercent && incoming.finePercent) {
+    patch.finePercent = incoming.finePercent;
+  }
+  if (!existing.dailyInterestPercent && incoming.dailyInterestPercent) {
+    patch.dailyInterestPercent = incoming.dailyInterestPercent;
+  }
+  // Valor e data limite do desconto só valem juntos
+  if (!(existing.discountAmount && existing.discountUntil) && incoming.discountAmount && incoming.discountUntil) {
+    patch.discountAmount = incoming.discountAmount;
+    patch.discountUntil = incoming.discountUntil;
+  }
+
+  return patch;
+};
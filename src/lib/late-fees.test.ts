@@ -0,0 +1,67 @@
+// Valor atualizado do boleto: multa, juros de mora e desconto por antecipação
+import { describe, expect, it } from 'vitest';
+import { calculateAmountDue, hasPaymentTerms } from './late-fees';
+
+const BILL = { amount: 1000, dueDate: '2026-11-10' };
+
+// Datas locais, como as do calendário do usuário
+const on = (isoDate: string) => {
+  const [year, month, day] = isoDate.split('-').map(Number);
+  return new Date(year, month - 1, day, 12);
+};
+
+describe('calculateAmountDue', () => {
+  it('cobra só a multa quando não há juros', () => {
+    expect(calculateAmountDue({ ...BILL, finePercent: 2 }, on('2026-11-15'))).toEqual({
+      originalAmount: 1000,
+      fine: 20,
+      interest: 0,
+      discount: 0,
+      total: 1020,
+      daysOverdue: 5,
+    });
+  });
+
+  it.each([
+    ['2026-11-11', 1, 0.33, 1020.33],
+    ['2026-11-20', 10, 3.3, 1023.3],
+    ['2026-12-10', 30, 9.9, 1029.9],
+  ])('em %s soma %i dia(s) de juros à multa', (date, daysOverdue, interest, total) => {
+    const result = calculateAmountDue({ ...BILL, finePercent: 2, dailyInterestPercent: 0.033 }, on(date));
+    expect(result).toMatchObject({ daysOverdue, fine: 20, interest, total });
+  });
+
+  it.each([
+    ['2026-11-01', 50, 950], // Antes da data limite
+    ['2026-11-05', 50, 950], // Na data limite
+    ['2026-11-06', 0, 1000], // Depois da data limite, ainda antes do vencimento
+  ])('desconto em %s: %d', (date, discount, total) => {
+    const result = calculateAmountDue({ ...BILL, discountAmount: 50, discountUntil: '2026-11-05' }, on(date));
+    expect(result).toMatchObject({ discount, total, fine: 0, interest: 0 });
+  });
+
+  it('limita o desconto ao valor do boleto', () => {
+    expect(calculateAmountDue({ ...BILL, discountAmount: 1500, discountUntil: '2026-11-05' }, on('2026-11-01')).total).toBe(0);
+  });
+
+  it.each(['2026-11-01', '2026-11-10'])('não cobra multa nem juros em %s, antes de vencer', (date) => {
+    const result = calculateAmountDue({ ...BILL, finePercent: 2, dailyInterestPercent: 0.033 }, on(date));
+    expect(result).toMatchObject({ daysOverdue: 0, fine: 0, interest: 0, total: 1000 });
+  });
+
+  it('mantém o valor original vencido quando não há condições cadastradas', () => {
+    expect(calculateAmountDue(BILL, on('2026-12-10'))).toMatchObject({ daysOverdue: 30, total: 1000 });
+  });
+});
+
+describe('hasPaymentTerms', () => {
+  it.each([
+    [{ finePercent: 2 }, true],
+    [{ dailyInterestPercent: 0.033 }, true],
+    [{ discountAmount: 50, discountUntil: '2026-11-05' }, true],
+    [{ discountAmount: 50 }, false], // Desconto sem data limite não vale
+    [{}, false],
+  ])('%o -> %s', (terms, expected) => {
+    expect(hasPaymentTerms(terms)).toBe(expected);
+  });
+});
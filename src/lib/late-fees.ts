@@ -0,0 +1,61 @@
+// Cálculo do valor atualizado de boletos: multa e juros de mora após o vencimento,
+// desconto por pagamento antecipado até a data limite
+
+export interface PaymentTerms {
+  finePercent?: number; // Multa (% sobre o valor), cobrada uma vez após o vencimento
+  dailyInterestPercent?: number; // Juros de mora (% ao dia, juros simples)
+  discountAmount?: number; // Desconto (R$) para pagamento até discountUntil
+  discountUntil?: string; // YYYY-MM-DD
+}
+
+export interface BillWithTerms extends PaymentTerms {
+  amount: number;
+  dueDate: string; // YYYY-MM-DD
+}
+
+export interface AmountDue {
+  originalAmount: number;
+  fine: number;
+  interest: number;
+  discount: number;
+  total: number; // Valor a pagar na data de referência
+  daysOverdue: number;
+}
+
+const roundCents = (value: number) => Math.round(value * 100) / 100;
+
+// Data local no formato YYYY-MM-DD, para comparar com as datas do banco sem efeito de fuso
+export const toISODate = (date: Date): string =>
+  `${date.getFullYear()}-${String(date.getMonth() + 1).padStart(2, '0')}-${String(date.getDate()).padStart(2, '0')}`;
+
+const daysBetween = (fromISO: string, toISO: string): number =>
+  Math.round((Date.parse(`${toISO}T00:00:00Z`) - Date.parse(`${fromISO}T00:00:00Z`)) / (1000 * 60 * 60 * 24));
+
+export const hasPaymentTerms = (terms: PaymentTerms): boolean =>
+  !!(terms.finePercent || terms.dailyInterestPercent || (terms.discountAmount && terms.discountUntil));
+
+/**
+ * Calcula o valor devido na data de referência. Sem termos cadastrados,
+ * o valor devido é o original, mesmo após o vencimento.
+ */
+export const calculateAmountDue = (bill: BillWithTerms, referenceDate: Date = new Date()): AmountDue => {
+  const today = toISODate(referenceDate);
+  const daysOverdue = Math.max(0, daysBetween(bill.dueDate, today));
+
+  const fine = daysOverdue > 0 && bill.finePercent ? roundCents((bill.amount * bill.finePercent) / 100) : 0;
+  const interest = daysOverdue > 0 && bill.dailyInterestPercent
+    ? roundCents((bill.amount * bill.dailyInterestPercent * daysOverdue) / 100)
+    : 0;
+  const discount = bill.discountAmount && bill.discountUntil && today <= bill.discountUntil
+    ? Math.min(bill.discountAmount, bill.amount)
+    : 0;
+
+  return {
+    originalAmount: bill.amount,
+    fine,
+    interest,
+    discount,
+    total: roundCents(bill.amount + fine + interest - discount),
+    daysOverdue,
+  };
+};
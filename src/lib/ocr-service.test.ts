@@ -0,0 +1,142 @@
+// Desbloqueio do cofre: só é pedido quando a análise precisa mesmo de uma chave bloqueada
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+import { getCachedAnalysis } from './analysis-cache';
+import { DEFAULT_CATEGORIES, setActiveCategories } from './categories';
+import { analyzeBillWithAI } from './ocr-service';
+import { ensureVaultUnlocked } from './settings-vault';
+
+// Sessão do usuário, usada pelo proxy do Supabase no lugar da chave
+vi.mock('@/integrations/supabase/client', () => ({
+  supabase: { auth: { getSession: async () => ({ data: { session: { access_token: 'sessao' } } }) } },
+  SUPABASE_URL: 'https://projeto.supabase.co',
+  SUPABASE_PUBLISHABLE_KEY: '',
+}));
+
+vi.mock('./analysis-cache', async (importOriginal) => ({
+  ...(await importOriginal<typeof import('./analysis-cache')>()),
+  getCachedAnalysis: vi.fn(),
+  saveCachedAnalysis: vi.fn(),
+}));
+
+// Cofre ativo e bloqueado, com a chave principal guardada nele
+vi.mock('./settings-vault', async (importOriginal) => {
+  // O módulo lê o cofre salvo ao ser carregado
+  vi.stubGlobal('localStorage', { getItem: () => null });
+  return {
+    ...(await importOriginal<typeof import('./settings-vault')>()),
+    isVaultEnabled: () => true,
+    isVaultUnlocked: () => false,
+    getVaultSecret: () => null,
+    hasVaultSecret: () => true,
+    ensureVaultUnlocked: vi.fn(),
+  };
+});
+
+const RESULT = {
+  beneficiary: 'CONDOMINIO EDIFICIO SOL',
+  amount: 150,
+  dueDate: '2026-11-10',
+  category: 'Condomínio',
+  confidence: 0.9,
+  summary: 'Condomínio de novembro',
+};
+
+const setSettings = (settings: Record<string, unknown>) => {
+  const values = new Map([['finanscan-settings', JSON.stringify(settings)]]);
+  vi.stubGlobal('localStorage', { getItem: (key: string) => values.get(key) ?? null });
+};
+
+const bill = () => new File(['%PDF-1.4'], 'boleto.pdf', { type: 'application/pdf' });
+
+// O node não tem FileReader; o arquivo vira data URL como no navegador
+class FileReaderStub {
+  result: string | null = null;
+  onload: (() => void) | null = null;
+  onerror: ((error: unknown) => void) | null = null;
+
+  readAsDataURL(file: Blob) {
+    file.arrayBuffer().then(
+      (buffer) => {
+        this.result = `data:${file.type};base64,${Buffer.from(buffer).toString('base64')}`;
+        this.onload?.();
+      },
+      (error) => this.onerror?.(error)
+    );
+  }
+}
+
+// Respostas da OpenAI e do proxy do Supabase com o boleto lido
+const stubProviders = () => {
+  const fetchMock = vi.fn(async (url: string) =>
+    new Response(
+      JSON.stringify(
+        url.includes('api.openai.com')
+          ? { choices: [{ message: { content: JSON.stringify(RESULT) }, finish_reason: 'stop' }] }
+          : { result: RESULT, provider: 'openai', model: 'gpt-4o' }
+      ),
+      { status: 200 }
+    )
+  );
+  vi.stubGlobal('fetch', fetchMock);
+  return fetchMock;
+};
+
+beforeEach(() => {
+  vi.unstubAllGlobals();
+  vi.stubGlobal('FileReader', FileReaderStub);
+  vi.mocked(getCachedAnalysis).mockReset().mockResolvedValue(null);
+  // Sem desbloqueio a análise para aqui, como se o usuário cancelasse o pedido
+  vi.mocked(ensureVaultUnlocked).mockReset().mockRejectedValue(new Error('cofre bloqueado'));
+});
+
+describe('analyzeBillWithAI', () => {
+  it('usa o cache sem pedir o desbloqueio', async () => {
+    setSettings({ aiProvider: 'openai' });
+    vi.mocked(getCachedAnalysis).mockResolvedValue({ result: RESULT, createdAt: '2026-10-01T00:00:00.000Z' });
+
+    await expect(analyzeBillWithAI(bill(), null)).resolves.toMatchObject({ ...RESULT, provider: 'openai' });
+    expect(ensureVaultUnlocked).not.toHaveBeenCalled();
+  });
+
+  it('não reaproveita o cache quando as categorias do prompt mudam', async () => {
+    setSettings({ aiProvider: 'openai' });
+    vi.mocked(getCachedAnalysis).mockResolvedValue({ result: RESULT, createdAt: '2026-10-01T00:00:00.000Z' });
+
+    await analyzeBillWithAI(bill(), null);
+    const academia = { name: 'Academia', color: 'hsl(0, 0%, 50%)', icon: 'tag', parentId: null, keywords: [] };
+    setActiveCategories([...DEFAULT_CATEGORIES, academia].map((category, index) => ({ ...category, id: String(index) })));
+    await analyzeBillWithAI(bill(), null);
+    setActiveCategories(null);
+
+    const [[before], [after]] = vi.mocked(getCachedAnalysis).mock.calls;
+    expect(after).toEqual({ ...before, categoriesHash: expect.any(String) });
+    expect(after.categoriesHash).not.toBe(before.categoriesHash);
+  });
+
+  it('pede o desbloqueio quando a IA precisa da chave do cofre', async () => {
+    setSettings({ aiProvider: 'openai' });
+
+    await expect(analyzeBillWithAI(bill(), null)).rejects.toThrow('cofre bloqueado');
+    expect(ensureVaultUnlocked).toHaveBeenCalledTimes(1);
+  });
+
+  it('não pede o desbloqueio para o proxy do Supabase', async () => {
+    setSettings({ aiProvider: 'supabase' });
+    const fetchMock = stubProviders();
+
+    await expect(analyzeBillWithAI(bill(), null)).resolves.toMatchObject({ ...RESULT, provider: 'supabase' });
+    expect(fetchMock).toHaveBeenCalledWith('https://projeto.supabase.co/functions/v1/analyze-bill', expect.anything());
+    expect(ensureVaultUnlocked).not.toHaveBeenCalled();
+  });
+
+  it('não pede o desbloqueio com a chave informada pelo chamador', async () => {
+    setSettings({ aiProvider: 'openai' });
+    const fetchMock = stubProviders();
+
+    await expect(analyzeBillWithAI(bill(), 'sk-test')).resolves.toMatchObject({ ...RESULT, provider: 'openai' });
+    const [url, init] = fetchMock.mock.calls[0] as unknown as [string, RequestInit];
+    expect(url).toBe('https://api.openai.com/v1/chat/completions');
+    expect((init.headers as Record<string, string>).Authorization).toBe('Bearer sk-test');
+    expect(ensureVaultUnlocked).not.toHaveBeenCalled();
+  });
+});
@@ -1,16 +1,42 @@
 
 // Serviço de compatibilidade - agora usa o novo sistema de provedores de IA
-import { analyzeBillWithProvider, getAISettings, type BillAnalysisResult } from './ai-providers';
+import {
+  analyzeBillWithProvider,
+  getAISettings,
+  getProviderChain,
+  isAIConfigured,
+  type AnalyzeOptions,
+  type BillAnalysisResult,
+  type ProviderAnalysisResult,
+} from './ai-providers';
+import { ensureVaultUnlocked } from './settings-vault';
 
-export { type BillAnalysisResult };
+export { type BillAnalysisResult, type ProviderAnalysisResult, isAIConfigured };
+export { isAbortError } from './providers';
 
 // Função principal - mantém compatibilidade com código existente
-export const analyzeBillWithAI = async (file: File, apiKey: string): Promise<BillAnalysisResult> => {
+export const analyzeBillWithAI = async (
+  file: File,
+  apiKey: string | null,
+  options: AnalyzeOptions = {}
+): Promise<ProviderAnalysisResult> => {
   console.log('OCR Service: Iniciando análise com novo sistema de provedores');
   
-  const { provider } = getAISettings();
-  
-  return await analyzeBillWithProvider(file, apiKey, provider);
+  // A chave informada vale para o provedor principal; os reservas usam as próprias
+  const getChain = () => {
+    const settings = getAISettings();
+    return getProviderChain(apiKey ? { ...settings, apiKey, apiKeyLocked: false } : settings);
+  };
+
+  // Chaves no cofre bloqueado: o desbloqueio só é pedido se a análise não vier do
+  // cache e algum provedor da cadeia precisar delas
+  return await analyzeBillWithProvider(file, getChain(), {
+    ...options,
+    unlockProviders: async () => {
+      await ensureVaultUnlocked();
+      return getChain();
+    },
+  });
 };
 
 // Mantém a função getApiKey para compatibilidade
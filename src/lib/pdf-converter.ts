@@ -1,4 +1,5 @@
 import { PDFDocument } from 'pdf-lib';
+import type { PDFDocumentProxy } from 'pdfjs-dist';
 
 export interface ConversionResult {
   convertedFile: File;
@@ -220,4 +221,145 @@ function createFallbackImage(
  */
 export const isPdfFile = (file: File): boolean => {
   return file.type === 'application/pdf' || file.name.toLowerCase().endsWith('.pdf');
-};
\ No newline at end of file
+};
+
+// Documentos já carregados pelo pdf.js, para não reprocessar o arquivo a cada página
+const pdfDocuments = new WeakMap<File, Promise<PDFDocumentProxy>>();
+
+/**
+ * Loads a PDF with pdf.js (lazily imported, with the worker bundled by Vite)
+ */
+const loadPdfDocument = (pdfFile: File): Promise<PDFDocumentProxy> => {
+  let documentPromise = pdfDocuments.get(pdfFile);
+  if (!documentPromise) {
+    documentPromise = (async () => {
+      const pdfjs = await import('pdfjs-dist');
+      if (!pdfjs.GlobalWorkerOptions.workerSrc) {
+        const { default: workerSrc } = await import('pdfjs-dist/build/pdf.worker.min.mjs?url');
+        pdfjs.GlobalWorkerOptions.workerSrc = workerSrc;
+      }
+      const data = new Uint8Array(await pdfFile.arrayBuffer());
+      return pdfjs.getDocument({ data }).promise;
+    })();
+    pdfDocuments.set(pdfFile, documentPromise);
+  }
+  return documentPromise;
+};
+
+/**
+ * Returns the number of pages of a PDF file
+ */
+export const getPdfPageCount = async (pdfFile: File): Promise<number> => {
+  const pdf = await loadPdfDocument(pdfFile);
+  return pdf.numPages;
+};
+
+/**
+ * Renders a PDF page (1-based) to a canvas with pdf.js
+ * @param scale - Scale factor over 72 DPI; 3 keeps the narrow bars of a boleto barcode above 2px
+ */
+export const renderPdfPage = async (pdfFile: File, pageNumber: number, scale: number = 3): Promise<HTMLCanvasElement> => {
+  const pdf = await loadPdfDocument(pdfFile);
+  const page = await pdf.getPage(pageNumber);
+  const viewport = page.getViewport({ scale });
+
+  const canvas = document.createElement('canvas');
+  canvas.width = Math.floor(viewport.width);
+  canvas.height = Math.floor(viewport.height);
+  const ctx = canvas.getContext('2d');
+
+  if (!ctx) {
+    throw new Error('Não foi possível criar contexto do canvas');
+  }
+
+  ctx.fillStyle = '#ffffff';
+  ctx.fillRect(0, 0, canvas.width, canvas.height);
+  await page.render({ canvasContext: ctx, viewport }).promise;
+
+  return canvas;
+};
+
+/**
+ * Renders a PDF page (1-based) to a JPEG file, for AI providers that only accept images
+ * @param scale - 2 keeps the printed text legible without exceeding the providers' image limits
+ */
+export const renderPdfPageToJpeg = async (pdfFile: File, pageNumber: number = 1, scale: number = 2): Promise<File> => {
+  const canvas = await renderPdfPage(pdfFile, pageNumber, scale);
+  const blob = await new Promise<Blob | null>((resolve) => canvas.toBlob(resolve, 'image/jpeg', 0.92));
+
+  if (!blob) {
+    throw new Error('Falha ao gerar imagem JPEG');
+  }
+
+  const fileName = pdfFile.name.replace(/\.pdf$/i, '') + `_pagina${pageNumber}.jpg`;
+  return new File([blob], fileName, { type: 'image/jpeg' });
+};
+
+export interface PdfTextRow {
+  text: string;
+  // Bounding box as fractions of the page (0 to 1), from the top-left corner
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+}
+
+/**
+ * Extracts the text layer of the first pages as rows of text with their position,
+ * one array per page. Scanned PDFs (images only) return empty arrays.
+ */
+export const extractPdfTextRows = async (pdfFile: File, maxPages: number = 3): Promise<PdfTextRow[][]> => {
+  const pdf = await loadPdfDocument(pdfFile);
+  const pages: PdfTextRow[][] = [];
+
+  for (let pageNumber = 1; pageNumber <= Math.min(pdf.numPages, maxPages); pageNumber++) {
+    const page = await pdf.getPage(pageNumber);
+    const viewport = page.getViewport({ scale: 1 });
+    const content = await page.getTextContent();
+
+    // Agrupa os trechos pela altura (y) para manter rótulo e valor na mesma linha
+    const rows: { y: number; items: { x: number; text: string; box: number[] }[] }[] = [];
+    content.items.forEach((item) => {
+      if (!('str' in item) || !item.str.trim()) return;
+      const [, , , , x, y] = item.transform as number[];
+      let row = rows.find((candidate) => Math.abs(candidate.y - y) <= 2);
+      if (!row) {
+        row = { y, items: [] };
+        rows.push(row);
+      }
+      // Coordenadas do PDF (origem embaixo) convertidas para a página renderizada
+      const box = viewport.convertToViewportRectangle([x, y, x + item.width, y + (item.height || 1)]);
+      row.items.push({ x, text: item.str.trim(), box });
+    });
+
+    pages.push(
+      rows
+        .sort((a, b) => b.y - a.y)
+        .map((row) => {
+          const items = row.items.sort((a, b) => a.x - b.x);
+          const left = Math.min(...items.flatMap(({ box }) => [box[0], box[2]]));
+          const right = Math.max(...items.flatMap(({ box }) => [box[0], box[2]]));
+          const top = Math.min(...items.flatMap(({ box }) => [box[1], box[3]]));
+          const bottom = Math.max(...items.flatMap(({ box }) => [box[1], box[3]]));
+          return {
+            text: items.map((item) => item.text).join(' '),
+            x: left / viewport.width,
+            y: top / viewport.height,
+            width: (right - left) / viewport.width,
+            height: (bottom - top) / viewport.height,
+          };
+        })
+    );
+  }
+
+  return pages;
+};
+
+/**
+ * Extracts the text layer of the first pages, one string per page with one line
+ * per row of text. Scanned PDFs (images only) return empty strings.
+ */
+export const extractPdfText = async (pdfFile: File, maxPages: number = 3): Promise<string[]> => {
+  const pages = await extractPdfTextRows(pdfFile, maxPages);
+  return pages.map((rows) => rows.map((row) => row.text).join('\n'));
+};
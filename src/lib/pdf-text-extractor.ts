@@ -0,0 +1,238 @@
+// Leitura local dos campos do boleto a partir da camada de texto do PDF, sem IA
+import { crossCheckBoleto, decodeBoleto, suggestCategoryFromBarcode } from './boleto';
+import {
+  parseBrazilianCurrency,
+  parseBrazilianDate,
+  type BillAnalysisResult,
+  type BillField,
+  type FieldEvidence,
+} from './bill-schema';
+import { extractPdfTextRows, type PdfTextRow } from './pdf-converter';
+import { FALLBACK_CATEGORY, getActiveCategories, matchCategoryByKeywords } from './categories';
+
+// A partir desta confiança o resultado local dispensa a chamada à IA
+export const TEXT_ANALYSIS_MIN_CONFIDENCE = 0.85;
+
+const DATE_VALUE = /\b(\d{2}\/\d{2}\/\d{4})\b/;
+const CURRENCY_VALUE = /(?:R\$\s*)?\b(\d{1,3}(?:\.\d{3})*,\d{2})\b/;
+const CNPJ_VALUE = /\b\d{2}\.?\d{3}\.?\d{3}\/?\d{4}-?\d{2}\b/g;
+const CPF_VALUE = /\b\d{3}\.\d{3}\.\d{3}-\d{2}\b/g;
+
+// Linha digitável bancária (5 campos) e de arrecadação (4 blocos de 11 + DV), com ou sem pontuação
+const LINHA_DIGITAVEL_PATTERNS = [
+  /\d{5}\.?\d{5}\s*\d{5}\.?\d{6}\s*\d{5}\.?\d{6}\s*\d\s*\d{14}/g,
+  /(?:\d{11}[-\s]?\d\s*){3}\d{11}[-\s]?\d/g,
+];
+
+const AMOUNT_LABEL = /valor\s+(?:do\s+)?documento|valor\s+cobrado|valor\s+a\s+pagar|total\s+a\s+pagar/i;
+const DUE_DATE_LABEL = /vencimento/i;
+// Ignora "Agência/Código do Beneficiário" e "Beneficiário Final", que não trazem o nome
+const BENEFICIARY_LABEL = /(?<!c[óo]digo\s+d[oe]\s+)\b(?:benefici[áa]rio|cedente)\b(?!\s+final)\s*:?/i;
+// Linhas que são outro rótulo do boleto, e não o nome do beneficiário
+const OTHER_LABELS = /vencimento|valor|data\s+d|nosso\s+n[úu]mero|ag[êe]ncia|pagador|sacado|carteira|esp[ée]cie|local\s+de\s+pagamento/i;
+
+// Dígitos verificadores do CNPJ
+export const isValidCnpj = (value: string): boolean => {
+  const digits = value.replace(/\D/g, '');
+  if (digits.length !== 14 || /^(\d)\1+$/.test(digits)) return false;
+
+  const checkDigit = (length: number) => {
+    const weights = length === 12 ? [5, 4, 3, 2, 9, 8, 7, 6, 5, 4, 3, 2] : [6, 5, 4, 3, 2, 9, 8, 7, 6, 5, 4, 3, 2];
+    const sum = weights.reduce((total, weight, index) => total + Number(digits[index]) * weight, 0);
+    const rest = sum % 11;
+    return rest < 2 ? 0 : 11 - rest;
+  };
+
+  return checkDigit(12) === Number(digits[12]) && checkDigit(13) === Number(digits[13]);
+};
+
+const formatCnpj = (value: string): string =>
+  value.replace(/\D/g, '').replace(/(\d{2})(\d{3})(\d{3})(\d{4})(\d{2})/, '$1.$2.$3/$4-$5');
+
+const findValidCnpj = (text: string): string | null =>
+  (text.match(CNPJ_VALUE) ?? []).find(isValidCnpj) ?? null;
+
+/**
+ * Procura o valor de um rótulo no restante da linha ou nas duas seguintes,
+ * cobrindo os layouts "Vencimento: 05/11/2026" e rótulo acima do valor.
+ */
+const findLabeledValue = (lines: string[], label: RegExp, value: RegExp, exclude?: RegExp): string | null => {
+  for (let index = 0; index < lines.length; index++) {
+    const match = lines[index].match(label);
+    if (!match || exclude?.test(lines[index])) continue;
+
+    const candidates = [lines[index].slice(match.index + match[0].length), lines[index + 1], lines[index + 2]];
+    for (const candidate of candidates) {
+      const found = candidate?.match(value);
+      if (found) return found[1] ?? found[0];
+    }
+  }
+  return null;
+};
+
+// Linhas digitáveis com dígitos verificadores válidos, na ordem do texto, com a posição de cada uma
+export const findLinhasDigitaveis = (text: string): { digits: string; index: number }[] => {
+  const found: { digits: string; index: number }[] = [];
+  for (const pattern of LINHA_DIGITAVEL_PATTERNS) {
+    for (const match of text.matchAll(pattern)) {
+      const digits = match[0].replace(/\D/g, '');
+      if (decodeBoleto(digits)?.valid) found.push({ digits, index: match.index });
+    }
+  }
+  return found.sort((a, b) => a.index - b.index);
+};
+
+const findLinhaDigitavel = (text: string): string | null => findLinhasDigitaveis(text)[0]?.digits ?? null;
+
+// Data de vencimento rotulada no trecho de texto (YYYY-MM-DD)
+export const findDueDateInText = (text: string): string | null =>
+  parseBrazilianDate(findLabeledValue(text.split('\n').map((line) => line.trim()).filter(Boolean), DUE_DATE_LABEL, DATE_VALUE));
+
+const cleanBeneficiary = (value: string): string =>
+  value
+    .replace(CNPJ_VALUE, '')
+    .replace(CPF_VALUE, '')
+    .replace(/\b(?:CNPJ|CPF)(?:\/(?:CNPJ|CPF))?\b\s*:?/gi, '')
+    // Agência/código do beneficiário impressos na mesma linha
+    .replace(/(?:^|\s)[\d./-]{4,}(?=\s|$)/g, ' ')
+    .replace(/^[\s:\-–]+|[\s:\-–]+$/g, '')
+    .replace(/\s{2,}/g, ' ');
+
+const findBeneficiary = (lines: string[]): { name: string | null; cnpj: string | null } => {
+  for (let index = 0; index < lines.length; index++) {
+    const match = lines[index].match(BENEFICIARY_LABEL);
+    if (!match) continue;
+
+    const candidates = [lines[index].slice(match.index + match[0].length), lines[index + 1], lines[index + 2]];
+    for (const candidate of candidates) {
+      if (!candidate || OTHER_LABELS.test(candidate)) continue;
+      const name = cleanBeneficiary(candidate);
+      if (/[A-Za-zÀ-ú]{3}/.test(name)) {
+        // O CNPJ costuma vir junto ao nome ou na linha seguinte
+        return { name, cnpj: findValidCnpj(`${candidate}\n${lines[index + 1] ?? ''}\n${lines[index + 2] ?? ''}`) };
+      }
+    }
+  }
+  return { name: null, cnpj: null };
+};
+
+// Categoria e a certeza dela: o segmento da guia de arrecadação é definitivo, as palavras-chave
+// das categorias do usuário são um palpite
+const suggestCategory = (barcode: string | null, text: string): { category: string; confidence: number } => {
+  const fromBarcode = suggestCategoryFromBarcode(barcode ?? undefined);
+  if (fromBarcode) return { category: fromBarcode, confidence: 0.9 };
+  const fromKeywords = matchCategoryByKeywords(getActiveCategories(), text);
+  return fromKeywords ? { category: fromKeywords, confidence: 0.6 } : { category: FALLBACK_CATEGORY, confidence: 0.3 };
+};
+
+/**
+ * Certeza de valor e vencimento: lidos no texto e conferidos com a linha digitável,
+ * só no texto, só na linha digitável ou divergentes entre os dois.
+ */
+const crossCheckedConfidence = (inText: boolean, inBarcode: boolean, mismatch: boolean): number => {
+  if (mismatch) return 0.3;
+  if (inText && inBarcode) return 0.95;
+  return inBarcode ? 0.9 : 0.7;
+};
+
+/**
+ * Extrai os campos do boleto do texto do PDF. A confiança soma os campos
+ * encontrados e é reduzida quando o texto diverge da linha digitável.
+ * Retorna null quando não há valor, vencimento nem linha digitável.
+ */
+export const parseBoletoText = (text: string): BillAnalysisResult | null => {
+  const lines = text.split('\n').map((line) => line.trim()).filter(Boolean);
+
+  const barcode = findLinhaDigitavel(text);
+  const decoded = barcode ? decodeBoleto(barcode)?.boleto : null;
+  const textAmount = parseBrazilianCurrency(findLabeledValue(lines, AMOUNT_LABEL, CURRENCY_VALUE));
+  const textDueDate = parseBrazilianDate(findLabeledValue(lines, DUE_DATE_LABEL, DATE_VALUE));
+  const { name, cnpj: beneficiaryCnpj } = findBeneficiary(lines);
+  const cnpj = beneficiaryCnpj ?? findValidCnpj(text);
+
+  // O que faltar no texto vem da linha digitável
+  const amount = textAmount || decoded?.amount || null;
+  const dueDate = textDueDate ?? (decoded?.kind === 'bancario' ? decoded.dueDate : null);
+
+  if (!barcode && !amount && !dueDate) return null;
+
+  const check = barcode ? crossCheckBoleto(barcode, { amount: textAmount, dueDate: textDueDate }) : null;
+  let confidence = (barcode ? 0.4 : 0) + (amount ? 0.15 : 0) + (dueDate ? 0.15 : 0) + (name ? 0.2 : 0) + (cnpj ? 0.1 : 0);
+  confidence -= (check?.mismatches.length ?? 0) * 0.3;
+  confidence = Math.round(Math.min(1, Math.max(0, confidence)) * 100) / 100;
+
+  const { category, confidence: categoryConfidence } = suggestCategory(barcode, `${name ?? ''}\n${text}`);
+  const mismatched = new Set(check?.mismatches.map((mismatch) => mismatch.field) ?? []);
+  const fields: Partial<Record<BillField, FieldEvidence>> = { category: { confidence: categoryConfidence } };
+  if (barcode) fields.barcode = { confidence: 0.95 };
+  if (amount) fields.amount = { confidence: crossCheckedConfidence(!!textAmount, !!decoded?.amount, mismatched.has('amount')) };
+  if (dueDate) {
+    const barcodeDueDate = decoded?.kind === 'bancario' && !!decoded.dueDate;
+    fields.dueDate = { confidence: crossCheckedConfidence(!!textDueDate, barcodeDueDate, mismatched.has('dueDate')) };
+  }
+  if (name) fields.beneficiary = { confidence: cnpj ? 0.85 : 0.7 };
+  const formattedAmount = amount ? amount.toFixed(2).replace('.', ',') : 'não identificado';
+  const formattedDueDate = dueDate ? dueDate.split('-').reverse().join('/') : 'não identificado';
+
+  return {
+    beneficiary: name ?? '',
+    amount: amount ?? 0,
+    dueDate: dueDate ?? '',
+    category,
+    confidence,
+    summary: [
+      `Beneficiário: ${name ?? 'não identificado'}${cnpj ? ` (CNPJ ${formatCnpj(cnpj)})` : ''}`,
+      `Valor: R$ ${formattedAmount}`,
+      `Vencimento: ${formattedDueDate}`,
+      `Categoria: ${category}`,
+      ...(check?.mismatches.map((mismatch) => mismatch.message) ?? []),
+      'Lido do texto do PDF, sem IA.',
+    ].join('\n'),
+    barcode: barcode ?? undefined,
+    fields,
+  };
+};
+
+// Como cada campo aparece impresso, para encontrar a linha do PDF onde ele está
+const getPrintedForms = (result: BillAnalysisResult): Partial<Record<BillField, (row: string) => boolean>> => ({
+  beneficiary: result.beneficiary ? (row) => row.includes(result.beneficiary) : undefined,
+  amount: result.amount
+    ? (row) => row.includes(result.amount.toLocaleString('pt-BR', { minimumFractionDigits: 2, maximumFractionDigits: 2 }))
+    : undefined,
+  dueDate: result.dueDate ? (row) => row.includes(result.dueDate.split('-').reverse().join('/')) : undefined,
+  barcode: result.barcode ? (row) => row.replace(/\D/g, '').includes(result.barcode) : undefined,
+});
+
+// Acrescenta às evidências a caixa da primeira linha do PDF que contém cada valor
+const locateFieldRegions = (result: BillAnalysisResult, pages: PdfTextRow[][]): BillAnalysisResult => {
+  const fields = { ...result.fields };
+  Object.entries(getPrintedForms(result)).forEach(([field, matches]) => {
+    const evidence = fields[field as BillField];
+    if (!matches || !evidence) return;
+    for (let index = 0; index < pages.length; index++) {
+      const row = pages[index].find((candidate) => matches(candidate.text));
+      if (row) {
+        const { x, y, width, height } = row;
+        fields[field as BillField] = { ...evidence, region: { page: index + 1, x, y, width, height } };
+        return;
+      }
+    }
+  });
+  return { ...result, fields };
+};
+
+// Lê a camada de texto do PDF; PDFs escaneados (sem texto) resultam em null
+export const extractBillFromPdfText = async (file: File): Promise<BillAnalysisResult | null> => {
+  const pages = await extractPdfTextRows(file);
+  const text = pages.map((rows) => rows.map((row) => row.text).join('\n')).join('\n');
+
+  if (!text.trim()) {
+    console.log('PDF Text: PDF sem camada de texto');
+    return null;
+  }
+
+  const parsed = parseBoletoText(text);
+  const result = parsed ? locateFieldRegions(parsed, pages) : null;
+  console.log('PDF Text: Resultado da leitura local:', result);
+  return result;
+};
@@ -0,0 +1,122 @@
+// BR Code (PIX copia e cola): CRC16-CCITT, campos TLV e conta do recebedor
+import { describe, expect, it } from 'vitest';
+import { crc16Ccitt, isPixPayload, parseEmvFields, parsePixBrCode } from './pix';
+
+// Exemplo do manual do BR Code do Banco Central (PIX estático, sem valor)
+const BCB_EXAMPLE =
+  '00020126580014br.gov.bcb.pix0136123e4567-e12b-12d1-a456-4266554400005204000053039865802BR5913Fulano de Tal6008BRASILIA62070503***63041D3D';
+
+// Chave, valor e txid, como nos boletos híbridos
+const WITH_AMOUNT =
+  '00020126360014br.gov.bcb.pix0114123456780001955204000053039865406150.005802BR5923CONDOMINIO EDIFICIO SOL6009SAO PAULO62140510BOLETO00016304D588';
+
+// Campo TLV: ID, tamanho com 2 dígitos e valor
+const tlv = (id: string, value: string) => `${id}${String(value.length).padStart(2, '0')}${value}`;
+
+// Monta o payload com o CRC calculado, para os casos sem exemplo impresso
+const buildPayload = (...fields: string[]) => {
+  const body = `${tlv('00', '01')}${fields.join('')}6304`;
+  return `${body}${crc16Ccitt(body)}`;
+};
+
+const RECEIVER = [tlv('52', '0000'), tlv('53', '986'), tlv('58', 'BR'), tlv('59', 'LOJA EXEMPLO'), tlv('60', 'SAO PAULO')];
+
+describe('crc16Ccitt', () => {
+  it.each([
+    ['123456789', '29B1'], // Valor de verificação do CRC-16/CCITT-FALSE
+    ['', 'FFFF'],
+    [BCB_EXAMPLE.slice(0, -4), '1D3D'],
+  ])('%s -> %s', (value, crc) => {
+    expect(crc16Ccitt(value)).toBe(crc);
+  });
+});
+
+describe('parseEmvFields', () => {
+  it('separa os campos e os subcampos da conta do recebedor', () => {
+    const fields = parseEmvFields(BCB_EXAMPLE);
+    const account = fields?.find((field) => field.id === '26');
+    expect(parseEmvFields(account!.value)).toEqual([
+      { id: '00', value: 'br.gov.bcb.pix' },
+      { id: '01', value: '123e4567-e12b-12d1-a456-426655440000' },
+    ]);
+  });
+
+  it('retorna null quando um tamanho passa do fim do texto', () => {
+    expect(parseEmvFields('000201260514br')).toBeNull();
+  });
+});
+
+describe('parsePixBrCode', () => {
+  it('aceita o exemplo do Banco Central', () => {
+    const result = parsePixBrCode(BCB_EXAMPLE);
+    expect(result.errors).toEqual([]);
+    expect(result.valid).toBe(true);
+    expect(result.pix).toMatchObject({
+      isDynamic: false,
+      key: '123e4567-e12b-12d1-a456-426655440000',
+      merchantName: 'Fulano de Tal',
+      merchantCity: 'BRASILIA',
+      amount: undefined,
+      txid: undefined, // '***' = sem identificador
+    });
+  });
+
+  it('lê a chave, o valor e o txid', () => {
+    const result = parsePixBrCode(`${WITH_AMOUNT}\n`);
+    expect(result.valid).toBe(true);
+    expect(result.pix).toMatchObject({ key: '12345678000195', amount: 150, txid: 'BOLETO0001', payload: WITH_AMOUNT });
+  });
+
+  it('lê a URL da cobrança de um PIX dinâmico', () => {
+    const payload = buildPayload(
+      tlv('01', '12'),
+      tlv('26', tlv('00', 'br.gov.bcb.pix') + tlv('25', 'pix.exemplo.com.br/qr/v2/9d36b84f-c70b-478f-b95c-12729b90ca25')),
+      ...RECEIVER,
+      tlv('62', tlv('05', '***'))
+    );
+    const result = parsePixBrCode(payload);
+    expect(result.valid).toBe(true);
+    expect(result.pix).toMatchObject({ isDynamic: true, url: 'pix.exemplo.com.br/qr/v2/9d36b84f-c70b-478f-b95c-12729b90ca25' });
+  });
+
+  it('recusa o CRC adulterado', () => {
+    const result = parsePixBrCode(`${BCB_EXAMPLE.slice(0, -4)}1D3E`);
+    expect(result.valid).toBe(false);
+    expect(result.errors).toContain('CRC inválido: esperado 1D3D, encontrado 1D3E');
+  });
+
+  it('recusa o valor alterado sem recalcular o CRC', () => {
+    const result = parsePixBrCode(WITH_AMOUNT.replace('5406150.00', '5406990.00'));
+    expect(result.valid).toBe(false);
+    expect(result.errors[0]).toMatch(/^CRC inválido/);
+  });
+
+  it('exige o GUI br.gov.bcb.pix na conta do recebedor', () => {
+    const result = parsePixBrCode(buildPayload(tlv('26', tlv('00', 'br.gov.bcb.xyz') + tlv('01', '12345678901')), ...RECEIVER));
+    expect(result.valid).toBe(false);
+    expect(result.errors).toContain('Conta do recebedor sem o identificador br.gov.bcb.pix');
+  });
+
+  it('recusa o valor fora do formato', () => {
+    const result = parsePixBrCode(
+      buildPayload(tlv('26', tlv('00', 'br.gov.bcb.pix') + tlv('01', '12345678901')), tlv('54', '150,00'), ...RECEIVER)
+    );
+    expect(result.valid).toBe(false);
+    expect(result.errors).toContain('Valor do código PIX inválido: 150,00');
+  });
+
+  it('recusa a estrutura quebrada', () => {
+    expect(parsePixBrCode('000201xx').errors).toEqual(['Estrutura do código PIX inválida']);
+  });
+});
+
+describe('isPixPayload', () => {
+  it.each([
+    [BCB_EXAMPLE, true],
+    ['00020126', false],
+    ['https://exemplo.com.br', false],
+    [null, false],
+  ])('%s -> %s', (value, expected) => {
+    expect(isPixPayload(value)).toBe(expected);
+  });
+});
@@ -0,0 +1,148 @@
+// Leitura do BR Code (PIX copia e cola) impresso nos boletos híbridos
+// Formato EMV QRCPS-MPM: sequência de campos ID (2 dígitos) + tamanho (2 dígitos) + valor
+
+export const PIX_GUI = 'br.gov.bcb.pix';
+
+export interface EmvField {
+  id: string;
+  value: string;
+}
+
+export interface PixBrCode {
+  payload: string;
+  isDynamic: boolean; // Dinâmico: os dados da cobrança ficam na URL do PSP
+  key?: string; // Chave PIX (estático)
+  url?: string; // Localização do payload da cobrança (dinâmico)
+  description?: string;
+  merchantName: string;
+  merchantCity: string;
+  amount?: number;
+  txid?: string;
+}
+
+export interface PixParseResult {
+  valid: boolean;
+  errors: string[];
+  pix: PixBrCode | null;
+}
+
+// Função para calcular o CRC16-CCITT (polinômio 0x1021, valor inicial 0xFFFF)
+export const crc16Ccitt = (value: string): string => {
+  let crc = 0xffff;
+  for (const byte of new TextEncoder().encode(value)) {
+    crc ^= byte << 8;
+    for (let bit = 0; bit < 8; bit++) {
+      crc = crc & 0x8000 ? ((crc << 1) ^ 0x1021) & 0xffff : (crc << 1) & 0xffff;
+    }
+  }
+  return crc.toString(16).toUpperCase().padStart(4, '0');
+};
+
+// Função para separar os campos TLV; retorna null se a estrutura estiver quebrada
+export const parseEmvFields = (value: string): EmvField[] | null => {
+  const fields: EmvField[] = [];
+  let position = 0;
+
+  while (position < value.length) {
+    const header = value.slice(position, position + 4);
+    if (!/^\d{4}$/.test(header)) return null;
+
+    const length = Number(header.slice(2));
+    const fieldValue = value.slice(position + 4, position + 4 + length);
+    if (fieldValue.length !== length) return null;
+
+    fields.push({ id: header.slice(0, 2), value: fieldValue });
+    position += 4 + length;
+  }
+
+  return fields;
+};
+
+// Remove quebras de linha e espaços nas pontas que costumam vir ao copiar do PDF
+export const normalizePixPayload = (value: string): string =>
+  value.replace(/[\r\n]+/g, '').trim();
+
+// Indica se o texto tem cara de BR Code (não valida o conteúdo)
+export const isPixPayload = (value?: string | null): boolean =>
+  !!value && /^000201/.test(normalizePixPayload(value)) && normalizePixPayload(value).toLowerCase().includes(PIX_GUI);
+
+// Função para interpretar e validar um PIX copia e cola
+export const parsePixBrCode = (value: string): PixParseResult => {
+  const payload = normalizePixPayload(value);
+  const errors: string[] = [];
+
+  if (!payload) {
+    return { valid: false, errors: ['Código PIX vazio'], pix: null };
+  }
+
+  const fields = parseEmvFields(payload);
+  if (!fields) {
+    return { valid: false, errors: ['Estrutura do código PIX inválida'], pix: null };
+  }
+
+  const getField = (id: string) => fields.find((field) => field.id === id)?.value;
+
+  if (getField('00') !== '01') {
+    errors.push('Indicador de formato do payload inválido');
+  }
+
+  const crcField = fields[fields.length - 1];
+  if (crcField?.id !== '63' || !/^[0-9A-Fa-f]{4}$/.test(crcField.value)) {
+    errors.push('CRC ausente no final do código PIX');
+  } else {
+    const expectedCrc = crc16Ccitt(payload.slice(0, payload.length - 4));
+    if (expectedCrc !== crcField.value.toUpperCase()) {
+      errors.push(`CRC inválido: esperado ${expectedCrc}, encontrado ${crcField.value.toUpperCase()}`);
+    }
+  }
+
+  // Conta do recebedor: campos 26 a 51, procurando o GUI do PIX
+  const merchantAccount = fields
+    .filter((field) => Number(field.id) >= 26 && Number(field.id) <= 51)
+    .map((field) => parseEmvFields(field.value))
+    .find((subfields) => subfields?.find((subfield) => subfield.id === '00')?.value.toLowerCase() === PIX_GUI);
+
+  if (!merchantAccount) {
+    errors.push(`Conta do recebedor sem o identificador ${PIX_GUI}`);
+  }
+
+  const getAccountField = (id: string) => merchantAccount?.find((subfield) => subfield.id === id)?.value;
+  const key = getAccountField('01');
+  const url = getAccountField('25');
+
+  if (merchantAccount && !key && !url) {
+    errors.push('Código PIX sem chave nem URL de cobrança');
+  }
+
+  if (!getField('59') || !getField('60')) {
+    errors.push('Nome ou cidade do recebedor ausente no código PIX');
+  }
+
+  if (getField('53') && getField('53') !== '986') {
+    errors.push('Moeda do código PIX diferente de real (986)');
+  }
+
+  const rawAmount = getField('54');
+  const isAmountValid = !!rawAmount && /^\d+(\.\d{1,2})?$/.test(rawAmount);
+  if (rawAmount && !isAmountValid) {
+    errors.push(`Valor do código PIX inválido: ${rawAmount}`);
+  }
+
+  const additionalData = parseEmvFields(getField('62') ?? '');
+  const txid = additionalData?.find((subfield) => subfield.id === '05')?.value;
+
+  const pix: PixBrCode = {
+    payload,
+    isDynamic: !!url,
+    key,
+    url,
+    description: getAccountField('02'),
+    merchantName: getField('59') ?? '',
+    merchantCity: getField('60') ?? '',
+    amount: isAmountValid ? Number(rawAmount) : undefined,
+    // '***' indica ausência de identificador da transação
+    txid: txid && txid !== '***' ? txid : undefined,
+  };
+
+  return { valid: errors.length === 0, errors, pix };
+};
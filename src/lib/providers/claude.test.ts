@@ -0,0 +1,66 @@
+// PDF nativo no Claude: requisição montada pelo provedor e enviada pela camada HTTP
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import { claudeProvider } from './claude';
+import { AuthError } from './errors';
+import { fetchProviderJson } from './http';
+import type { ProviderRequestInput } from './types';
+
+const BILL = { beneficiary: 'CONDOMINIO EDIFICIO SOL', amount: 150, dueDate: '2026-11-10', category: 'Condomínio' };
+
+const pdfInput = (apiKey: string): ProviderRequestInput => ({
+  file: new File(['%PDF-1.4'], 'boleto.pdf', { type: 'application/pdf' }),
+  base64: 'JVBERi0xLjQ=',
+  isPDF: true,
+  prompt: 'Leia este PDF de um boleto bancário brasileiro',
+  options: { apiKey, model: 'claude-sonnet-4-5' },
+  responseSchema: { type: 'object' },
+});
+
+// Responde como a Messages API: exige x-api-key e o cabeçalho de acesso pelo navegador
+const stubAnthropic = () => {
+  const fetchMock = vi.fn(async (_url: string, init: RequestInit) => {
+    const headers = init.headers as Record<string, string>;
+    if (!headers['x-api-key'] || headers['anthropic-dangerous-direct-browser-access'] !== 'true') {
+      return new Response(JSON.stringify({ type: 'error', error: { type: 'authentication_error', message: 'invalid x-api-key' } }), { status: 401 });
+    }
+    return new Response(JSON.stringify({
+      content: [{ type: 'tool_use', name: 'registrar_boleto', input: BILL }],
+      stop_reason: 'tool_use',
+    }), { status: 200 });
+  });
+  vi.stubGlobal('fetch', fetchMock);
+  return fetchMock;
+};
+
+afterEach(() => {
+  vi.unstubAllGlobals();
+});
+
+describe('claudeProvider', () => {
+  it('aceita PDF sem converter em imagem', () => {
+    expect(claudeProvider.capabilities.pdf).toBe(true);
+  });
+
+  it('envia o PDF como bloco document, autenticado por x-api-key', async () => {
+    const fetchMock = stubAnthropic();
+    const data = await fetchProviderJson(claudeProvider, claudeProvider.buildRequest(pdfInput('sk-ant-test')));
+
+    const [url, init] = fetchMock.mock.calls[0];
+    const headers = init.headers as Record<string, string>;
+    expect(url).toBe('https://api.anthropic.com/v1/messages');
+    expect(headers['x-api-key']).toBe('sk-ant-test');
+    expect(headers).not.toHaveProperty('Authorization');
+
+    const body = JSON.parse(init.body as string);
+    expect(body.messages[0].content[0]).toEqual({
+      type: 'document',
+      source: { type: 'base64', media_type: 'application/pdf', data: 'JVBERi0xLjQ=' },
+    });
+    expect(JSON.parse(claudeProvider.parseResponse(data)!)).toEqual(BILL);
+  });
+
+  it('falha com AuthError quando a API recusa a chave', async () => {
+    stubAnthropic();
+    await expect(fetchProviderJson(claudeProvider, claudeProvider.buildRequest(pdfInput('')))).rejects.toBeInstanceOf(AuthError);
+  });
+});
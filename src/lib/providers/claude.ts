@@ -0,0 +1,69 @@
+// Anthropic Claude via Messages API
+import { parseApiErrorMessage, type AIProviderDefinition } from './types';
+
+interface MessagesResponse {
+  content?: { type?: string; text?: string; input?: unknown }[];
+  stop_reason?: string;
+}
+
+// Saída estruturada no Claude: uma ferramenta cujo input é o próprio JSON do boleto
+const BILL_TOOL_NAME = 'registrar_boleto';
+
+export const claudeProvider: AIProviderDefinition = {
+  id: 'claude',
+  displayName: 'Anthropic Claude',
+  capabilities: { vision: true, pdf: true, requiresApiKey: true, requiresBaseUrl: false, structuredOutput: true },
+  supportedModels: ['claude-sonnet-4-5', 'claude-haiku-4-5', 'claude-opus-4-1'],
+  defaultModel: 'claude-sonnet-4-5',
+  retiredModels: {
+    'claude-3-sonnet-20240229': 'claude-sonnet-4-5',
+    'claude-3-haiku-20240307': 'claude-haiku-4-5',
+    'claude-3-opus-20240229': 'claude-opus-4-1',
+    'claude-3-5-sonnet-20240620': 'claude-sonnet-4-5',
+    'claude-3-5-sonnet-20241022': 'claude-sonnet-4-5',
+  },
+  apiKeyUrl: 'https://console.anthropic.com/',
+  buildRequest: ({ file, base64, isPDF, prompt, options, responseSchema }) => {
+    const content = isPDF
+      ? [
+          { type: 'document', source: { type: 'base64', media_type: 'application/pdf', data: base64 } },
+          { type: 'text', text: prompt }
+        ]
+      : [
+          { type: 'text', text: prompt },
+          { type: 'image', source: { type: 'base64', media_type: file.type, data: base64 } }
+        ];
+
+    return {
+      url: 'https://api.anthropic.com/v1/messages',
+      init: {
+        method: 'POST',
+        // A API da Anthropic usa x-api-key e só aceita chamadas do navegador com o cabeçalho de acesso direto
+        headers: {
+          'x-api-key': options.apiKey,
+          'Content-Type': 'application/json',
+          'anthropic-version': '2023-06-01',
+          'anthropic-dangerous-direct-browser-access': 'true'
+        },
+        body: JSON.stringify({
+          model: options.model || claudeProvider.defaultModel,
+          max_tokens: 1000,
+          messages: [{ role: 'user', content }],
+          ...(responseSchema
+            ? {
+                tools: [{ name: BILL_TOOL_NAME, description: 'Registra os dados extraídos do boleto', input_schema: responseSchema }],
+                tool_choice: { type: 'tool', name: BILL_TOOL_NAME }
+              }
+            : {})
+        })
+      }
+    };
+  },
+  parseResponse: (data) => {
+    const blocks = (data as MessagesResponse | null)?.content ?? [];
+    const toolUse = blocks.find((block) => block.type === 'tool_use');
+    return toolUse ? JSON.stringify(toolUse.input) : blocks.find((block) => block.type === 'text')?.text;
+  },
+  parseError: parseApiErrorMessage,
+  detectContentFilter: (data) => ((data as MessagesResponse | null)?.stop_reason === 'refusal' ? 'refusal' : undefined),
+};
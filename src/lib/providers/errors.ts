@@ -0,0 +1,73 @@
+// Erros dos provedores de IA, classificados para a cadeia de provedores reserva
+
+export interface AIProviderErrorOptions {
+  provider: string;
+  retryable: boolean; // Outro provedor pode ter sucesso com o mesmo arquivo
+  status?: number;
+}
+
+export class AIProviderError extends Error {
+  readonly provider: string;
+  readonly retryable: boolean;
+  readonly status?: number;
+
+  constructor(message: string, { provider, retryable, status }: AIProviderErrorOptions) {
+    super(message);
+    this.name = 'AIProviderError';
+    this.provider = provider;
+    this.retryable = retryable;
+    this.status = status;
+  }
+}
+
+// Chave inválida, expirada ou sem permissão (401/403)
+export class AuthError extends AIProviderError {
+  constructor(message: string, options: Omit<AIProviderErrorOptions, 'retryable'>) {
+    super(message, { ...options, retryable: true });
+    this.name = 'AuthError';
+  }
+}
+
+// Limite de requisições ou cota esgotada (429), já após as novas tentativas
+export class RateLimitError extends AIProviderError {
+  readonly retryAfterMs?: number; // Espera sugerida pelo cabeçalho Retry-After
+
+  constructor(message: string, options: Omit<AIProviderErrorOptions, 'retryable'> & { retryAfterMs?: number }) {
+    super(message, { ...options, retryable: true });
+    this.name = 'RateLimitError';
+    this.retryAfterMs = options.retryAfterMs;
+  }
+}
+
+// O provedor recusou o conteúdo pelas políticas de segurança; outro pode aceitá-lo
+export class ContentFilterError extends AIProviderError {
+  constructor(message: string, options: Omit<AIProviderErrorOptions, 'retryable'>) {
+    super(message, { ...options, retryable: true });
+    this.name = 'ContentFilterError';
+  }
+}
+
+// Resposta sem JSON, com JSON malformado ou sem os campos obrigatórios do boleto
+export class ParseError extends AIProviderError {
+  constructor(message: string, options: Omit<AIProviderErrorOptions, 'retryable'>) {
+    super(message, { ...options, retryable: true });
+    this.name = 'ParseError';
+  }
+}
+
+// Cancelamento pelo usuário (AbortSignal), que nunca passa para o próximo provedor
+export const isAbortError = (error: unknown): boolean =>
+  error instanceof DOMException && error.name === 'AbortError';
+
+/**
+ * Cota, indisponibilidade, chave ou modelo inválidos são problemas do provedor;
+ * os demais 4xx indicam que o próprio arquivo foi recusado e falhariam em qualquer um.
+ */
+export const isRetryableStatus = (status: number): boolean =>
+  status >= 500 || [401, 402, 403, 404, 408, 409, 429].includes(status);
+
+// Erros sem classificação (rede, resposta inesperada...) são tratados como falha do provedor
+export const isRetryableError = (error: unknown): boolean => {
+  if (isAbortError(error)) return false;
+  return error instanceof AIProviderError ? error.retryable : true;
+};
@@ -0,0 +1,70 @@
+// Google Gemini via generateContent
+import { parseApiErrorMessage, type AIProviderDefinition, type JsonSchema } from './types';
+
+interface GenerateContentResponse {
+  candidates?: { content?: { parts?: { text?: string }[] }; finishReason?: string }[];
+  promptFeedback?: { blockReason?: string };
+}
+
+// responseSchema do Gemini usa um subconjunto do OpenAPI: sem additionalProperties
+const toGeminiSchema = (schema: JsonSchema): JsonSchema =>
+  Object.fromEntries(
+    Object.entries(schema)
+      .filter(([key]) => key !== 'additionalProperties')
+      .map(([key, value]) => {
+        if (key === 'properties' && value && typeof value === 'object') {
+          return [key, Object.fromEntries(Object.entries(value).map(([name, child]) => [name, toGeminiSchema(child as JsonSchema)]))];
+        }
+        return [key, value];
+      })
+  );
+
+export const geminiProvider: AIProviderDefinition = {
+  id: 'gemini',
+  displayName: 'Google Gemini',
+  capabilities: { vision: true, pdf: true, requiresApiKey: true, requiresBaseUrl: false, structuredOutput: true },
+  supportedModels: ['gemini-2.5-flash', 'gemini-2.5-pro', 'gemini-2.5-flash-lite'],
+  defaultModel: 'gemini-2.5-flash',
+  retiredModels: {
+    'gemini-pro-vision': 'gemini-2.5-flash',
+    'gemini-1.5-flash': 'gemini-2.5-flash',
+    'gemini-1.5-pro': 'gemini-2.5-pro',
+    'gemini-2.0-flash': 'gemini-2.5-flash',
+  },
+  apiKeyUrl: 'https://makersuite.google.com/app/apikey',
+  buildRequest: ({ file, base64, isPDF, prompt, options, responseSchema }) => {
+    const parts = [
+      { text: prompt },
+      { inline_data: { mime_type: isPDF ? 'application/pdf' : file.type, data: base64 } }
+    ];
+    const model = options.model || geminiProvider.defaultModel;
+
+    return {
+      url: `https://generativelanguage.googleapis.com/v1beta/models/${model}:generateContent?key=${options.apiKey}`,
+      init: {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify({
+          contents: [{ parts }],
+          generationConfig: {
+            temperature: 0.1,
+            maxOutputTokens: 1000,
+            ...(responseSchema
+              ? { responseMimeType: 'application/json', responseSchema: toGeminiSchema(responseSchema) }
+              : {})
+          }
+        })
+      }
+    };
+  },
+  parseResponse: (data) => (data as GenerateContentResponse | null)?.candidates?.[0]?.content?.parts?.[0]?.text,
+  parseError: parseApiErrorMessage,
+  detectContentFilter: (data) => {
+    const response = data as GenerateContentResponse | null;
+    const finishReason = response?.candidates?.[0]?.finishReason;
+    return response?.promptFeedback?.blockReason
+      ?? (finishReason && ['SAFETY', 'PROHIBITED_CONTENT', 'BLOCKLIST'].includes(finishReason) ? finishReason : undefined);
+  },
+};
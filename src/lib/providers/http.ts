@@ -0,0 +1,167 @@
+// Camada HTTP comum aos provedores: timeout, novas tentativas com backoff e erros tipados
+import {
+  AIProviderError,
+  AuthError,
+  ContentFilterError,
+  ParseError,
+  RateLimitError,
+  isAbortError,
+  isRetryableStatus,
+} from './errors';
+import type { AIProviderDefinition, ApiErrorBody, ProviderHttpRequest } from './types';
+
+export interface ProviderFetchOptions {
+  signal?: AbortSignal; // Cancelamento pelo usuário
+  timeoutMs?: number; // Limite de cada tentativa
+  maxRetries?: number; // Novas tentativas em 408, 429, 5xx e falhas de rede
+}
+
+const DEFAULT_TIMEOUT_MS = 60_000;
+const DEFAULT_MAX_RETRIES = 2;
+const BASE_DELAY_MS = 1_000;
+// Esperas maiores (ex: cota diária esgotada) não valem a pena; o erro segue para o próximo provedor
+const MAX_DELAY_MS = 30_000;
+
+// Retry-After em segundos ("30") ou como data HTTP; retorna a espera em ms
+export const parseRetryAfter = (value: string | null, now = Date.now()): number | undefined => {
+  if (!value) return undefined;
+  const seconds = Number(value);
+  if (Number.isFinite(seconds)) return Math.max(0, seconds * 1000);
+  const date = Date.parse(value);
+  return Number.isNaN(date) ? undefined : Math.max(0, date - now);
+};
+
+// Backoff exponencial (1s, 2s, 4s...) com uma pequena variação aleatória
+export const getBackoffDelay = (attempt: number, retryAfterMs?: number): number =>
+  Math.min(MAX_DELAY_MS, retryAfterMs ?? BASE_DELAY_MS * 2 ** attempt + Math.random() * 250);
+
+const createAbortError = () => new DOMException('Análise cancelada', 'AbortError');
+
+const sleep = (ms: number, signal?: AbortSignal): Promise<void> =>
+  new Promise((resolve, reject) => {
+    if (signal?.aborted) {
+      reject(createAbortError());
+      return;
+    }
+    const onAbort = () => {
+      clearTimeout(timer);
+      reject(createAbortError());
+    };
+    const timer = setTimeout(() => {
+      signal?.removeEventListener('abort', onAbort);
+      resolve();
+    }, ms);
+    signal?.addEventListener('abort', onAbort, { once: true });
+  });
+
+const isContentFilterCode = (code?: string) => !!code && /content_(policy|filter)/.test(code);
+
+// Converte uma resposta HTTP com falha no erro tipado correspondente
+const createHttpError = (
+  definition: AIProviderDefinition,
+  status: number,
+  errorData: unknown,
+  retryAfterMs?: number
+): AIProviderError => {
+  const provider = definition.id;
+  const message = `Erro da API ${definition.displayName}: ${definition.parseError?.(errorData) || `HTTP ${status}`}`;
+
+  if (status === 401 || status === 403) return new AuthError(message, { provider, status });
+  if (status === 429) return new RateLimitError(message, { provider, status, retryAfterMs });
+  if (isContentFilterCode((errorData as ApiErrorBody | null)?.error?.code)) {
+    return new ContentFilterError(message, { provider, status });
+  }
+  return new AIProviderError(message, { provider, retryable: isRetryableStatus(status), status });
+};
+
+// Uma tentativa: a requisição e a leitura do corpo contam para o mesmo timeout
+const requestOnce = async (
+  definition: AIProviderDefinition,
+  { url, init }: ProviderHttpRequest,
+  timeoutMs: number,
+  signal?: AbortSignal
+): Promise<{ response: Response; body: string }> => {
+  if (signal?.aborted) throw createAbortError();
+
+  const controller = new AbortController();
+  let timedOut = false;
+  const timer = setTimeout(() => {
+    timedOut = true;
+    controller.abort();
+  }, timeoutMs);
+  const onAbort = () => controller.abort();
+  signal?.addEventListener('abort', onAbort, { once: true });
+
+  try {
+    const response = await fetch(url, { ...init, signal: controller.signal });
+    return { response, body: await response.text() };
+  } catch (error) {
+    if (timedOut) {
+      throw new AIProviderError(
+        `Tempo limite de ${Math.round(timeoutMs / 1000)}s excedido aguardando ${definition.displayName}`,
+        { provider: definition.id, retryable: true }
+      );
+    }
+    if (signal?.aborted) throw createAbortError();
+    throw error;
+  } finally {
+    clearTimeout(timer);
+    signal?.removeEventListener('abort', onAbort);
+  }
+};
+
+/**
+ * Envia a requisição do provedor e retorna o corpo JSON. Repete em 408, 429, 5xx
+ * e falhas de rede respeitando o Retry-After; timeouts e demais falhas viram
+ * erros tipados para a cadeia de provedores reserva decidir o que fazer.
+ */
+export const fetchProviderJson = async (
+  definition: AIProviderDefinition,
+  request: ProviderHttpRequest,
+  { signal, timeoutMs = definition.timeoutMs ?? DEFAULT_TIMEOUT_MS, maxRetries = DEFAULT_MAX_RETRIES }: ProviderFetchOptions = {}
+): Promise<unknown> => {
+  const provider = definition.id;
+
+  for (let attempt = 0; ; attempt++) {
+    let result: { response: Response; body: string };
+    try {
+      result = await requestOnce(definition, request, timeoutMs, signal);
+    } catch (error) {
+      if (isAbortError(error) || error instanceof AIProviderError) throw error;
+      if (attempt < maxRetries) {
+        console.log(`${definition.displayName}: Falha de conexão, nova tentativa ${attempt + 1}/${maxRetries}`);
+        await sleep(getBackoffDelay(attempt), signal);
+        continue;
+      }
+      throw new AIProviderError(
+        `Não foi possível conectar à API ${definition.displayName}: ${error instanceof Error ? error.message : 'Erro desconhecido'}`,
+        { provider, retryable: true }
+      );
+    }
+
+    const { response, body } = result;
+    let data: unknown = null;
+    try {
+      data = body ? JSON.parse(body) : null;
+    } catch {
+      if (response.ok) {
+        throw new ParseError(`Resposta inválida da API ${definition.displayName}`, { provider, status: response.status });
+      }
+    }
+
+    if (response.ok) return data;
+
+    const retryAfterMs = parseRetryAfter(response.headers.get('Retry-After'));
+    const isTransient =
+      (response.status === 408 || response.status === 429 || response.status >= 500) &&
+      (definition.isRetryableResponse?.(response.status, data) ?? true);
+    if (isTransient && attempt < maxRetries && (retryAfterMs ?? 0) <= MAX_DELAY_MS) {
+      const delay = getBackoffDelay(attempt, retryAfterMs);
+      console.log(`${definition.displayName}: HTTP ${response.status}, nova tentativa em ${Math.round(delay / 1000)}s (${attempt + 1}/${maxRetries})`);
+      await sleep(delay, signal);
+      continue;
+    }
+
+    throw createHttpError(definition, response.status, data, retryAfterMs);
+  }
+};
@@ -0,0 +1,38 @@
+// Provedores de IA embutidos; novos provedores só precisam chamar registerProvider
+import { registerProvider } from './registry';
+import { openaiProvider } from './openai';
+import { geminiProvider } from './gemini';
+import { claudeProvider } from './claude';
+import { openaiCompatibleProvider } from './openai-compatible';
+import { supabaseProxyProvider } from './supabase-proxy';
+
+registerProvider(openaiProvider);
+registerProvider(geminiProvider);
+registerProvider(claudeProvider);
+registerProvider(openaiCompatibleProvider);
+registerProvider(supabaseProxyProvider);
+
+export { registerProvider, getProvider, listProviders, resolveModel } from './registry';
+export { getChatCompletionsUrl } from './openai-compatible';
+export { getServerKeyProvider, SERVER_PROVIDER_ID } from './supabase-proxy';
+export {
+  AIProviderError,
+  AuthError,
+  ContentFilterError,
+  ParseError,
+  RateLimitError,
+  isAbortError,
+  isRetryableError,
+  isRetryableStatus,
+} from './errors';
+export { fetchProviderJson, getBackoffDelay, parseRetryAfter } from './http';
+export type { AIProviderErrorOptions } from './errors';
+export type { ProviderFetchOptions } from './http';
+export type {
+  AIProviderDefinition,
+  JsonSchema,
+  ProviderCapabilities,
+  ProviderHttpRequest,
+  ProviderOptions,
+  ProviderRequestInput,
+} from './types';
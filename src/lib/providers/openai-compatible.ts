@@ -0,0 +1,54 @@
+// Endpoint compatível com a API da OpenAI (Ollama, llama.cpp, vLLM, LM Studio...),
+// para analisar boletos em um servidor próprio sem enviá-los a terceiros
+import { parseApiErrorMessage, type AIProviderDefinition } from './types';
+import {
+  buildChatCompletionsContent,
+  buildResponseFormat,
+  detectChatCompletionsContentFilter,
+  parseChatCompletionsResponse,
+} from './openai';
+
+// Aceita a URL base com ou sem /v1 e com ou sem barra final
+export const getChatCompletionsUrl = (baseUrl: string): string => {
+  const trimmed = baseUrl.trim().replace(/\/+$/, '');
+  if (trimmed.endsWith('/chat/completions')) return trimmed;
+  return /\/v\d+$/.test(trimmed) ? `${trimmed}/chat/completions` : `${trimmed}/v1/chat/completions`;
+};
+
+export const openaiCompatibleProvider: AIProviderDefinition = {
+  id: 'openai-compatible',
+  displayName: 'Endpoint compatível com OpenAI (local)',
+  capabilities: { vision: true, pdf: false, requiresApiKey: false, requiresBaseUrl: true, structuredOutput: true },
+  supportedModels: ['llava', 'llama3.2-vision', 'qwen2.5vl', 'minicpm-v'],
+  defaultModel: 'llava',
+  // Modelos com visão rodando em CPU podem levar minutos para responder
+  timeoutMs: 180_000,
+  buildRequest: (input) => {
+    const { baseUrl, apiKey, model } = input.options;
+    if (!baseUrl) {
+      throw new Error('URL do endpoint não configurada');
+    }
+
+    return {
+      url: getChatCompletionsUrl(baseUrl),
+      init: {
+        method: 'POST',
+        headers: {
+          ...(apiKey ? { 'Authorization': `Bearer ${apiKey}` } : {}),
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify({
+          model: model || openaiCompatibleProvider.defaultModel,
+          messages: [{ role: 'user', content: buildChatCompletionsContent(input) }],
+          max_tokens: 1000,
+          temperature: 0.1,
+          // Ollama, llama.cpp e vLLM aceitam json_schema; servidores sem suporte ignoram o campo
+          ...buildResponseFormat(input.responseSchema)
+        })
+      }
+    };
+  },
+  parseResponse: parseChatCompletionsResponse,
+  parseError: parseApiErrorMessage,
+  detectContentFilter: detectChatCompletionsContentFilter,
+};
@@ -0,0 +1,65 @@
+// OpenAI (GPT) via Chat Completions
+import { parseApiErrorMessage, type AIProviderDefinition, type JsonSchema, type ProviderRequestInput } from './types';
+
+interface ChatCompletionsResponse {
+  choices?: { message?: { content?: string; refusal?: string }; finish_reason?: string }[];
+}
+
+// Conteúdo da mensagem no formato do Chat Completions, compartilhado com endpoints compatíveis;
+// PDFs vão como entrada de arquivo, aceita apenas pela API da OpenAI
+export const buildChatCompletionsContent = ({ file, base64, isPDF, prompt }: ProviderRequestInput) =>
+  isPDF
+    ? [
+        { type: 'file', file: { filename: file.name, file_data: `data:application/pdf;base64,${base64}` } },
+        { type: 'text', text: prompt }
+      ]
+    : [
+        { type: 'text', text: prompt },
+        { type: 'image_url', image_url: { url: `data:${file.type};base64,${base64}` } }
+      ];
+
+// response_format do Chat Completions; sem "strict" porque o schema tem campos opcionais
+export const buildResponseFormat = (schema?: JsonSchema) =>
+  schema ? { response_format: { type: 'json_schema', json_schema: { name: 'bill_analysis', schema } } } : {};
+
+export const parseChatCompletionsResponse = (data: unknown): string | undefined =>
+  (data as ChatCompletionsResponse | null)?.choices?.[0]?.message?.content;
+
+export const detectChatCompletionsContentFilter = (data: unknown): string | undefined => {
+  const choice = (data as ChatCompletionsResponse | null)?.choices?.[0];
+  if (choice?.message?.refusal) return choice.message.refusal;
+  return choice?.finish_reason === 'content_filter' ? 'content_filter' : undefined;
+};
+
+export const openaiProvider: AIProviderDefinition = {
+  id: 'openai',
+  displayName: 'OpenAI (GPT)',
+  capabilities: { vision: true, pdf: true, requiresApiKey: true, requiresBaseUrl: false, structuredOutput: true },
+  supportedModels: ['gpt-4o', 'gpt-4o-mini', 'gpt-4.1', 'gpt-4.1-mini'],
+  defaultModel: 'gpt-4o',
+  retiredModels: {
+    'gpt-4-vision-preview': 'gpt-4o',
+    'gpt-4-turbo': 'gpt-4o',
+  },
+  apiKeyUrl: 'https://platform.openai.com/api-keys',
+  buildRequest: (input) => ({
+    url: 'https://api.openai.com/v1/chat/completions',
+    init: {
+      method: 'POST',
+      headers: {
+        'Authorization': `Bearer ${input.options.apiKey}`,
+        'Content-Type': 'application/json',
+      },
+      body: JSON.stringify({
+        model: input.options.model || openaiProvider.defaultModel,
+        messages: [{ role: 'user', content: buildChatCompletionsContent(input) }],
+        max_tokens: 1000,
+        temperature: 0.1,
+        ...buildResponseFormat(input.responseSchema)
+      })
+    }
+  }),
+  parseResponse: parseChatCompletionsResponse,
+  parseError: parseApiErrorMessage,
+  detectContentFilter: detectChatCompletionsContentFilter,
+};
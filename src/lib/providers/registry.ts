@@ -0,0 +1,23 @@
+// Registro dos provedores de IA disponíveis, indexado pelo id
+import type { AIProviderDefinition } from './types';
+
+const providers = new Map<string, AIProviderDefinition>();
+
+export const registerProvider = (provider: AIProviderDefinition): void => {
+  providers.set(provider.id, provider);
+};
+
+export const getProvider = (id: string): AIProviderDefinition | undefined => providers.get(id);
+
+// Provedores na ordem em que foram registrados
+export const listProviders = (): AIProviderDefinition[] => Array.from(providers.values());
+
+/**
+ * Modelo efetivamente enviado ao provedor: o escolhido pelo usuário (inclusive
+ * ids personalizados), o substituto se ele foi descontinuado, ou o padrão.
+ */
+export const resolveModel = (provider: AIProviderDefinition, model?: string): string => {
+  const selected = model?.trim();
+  if (!selected) return provider.defaultModel;
+  return provider.retiredModels?.[selected] ?? selected;
+};
@@ -0,0 +1,54 @@
+// Proxy do Supabase: falhas já contadas no limite do servidor não são repetidas
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import { fetchProviderJson } from './http';
+import { supabaseProxyProvider } from './supabase-proxy';
+
+vi.mock('@/integrations/supabase/client', () => ({
+  supabase: { auth: { getSession: async () => ({ data: { session: null } }) } },
+  SUPABASE_URL: 'https://projeto.supabase.co',
+  SUPABASE_PUBLISHABLE_KEY: '',
+}));
+
+const request = () =>
+  supabaseProxyProvider.buildRequest({
+    file: new File(['%PDF-1.4'], 'boleto.pdf', { type: 'application/pdf' }),
+    base64: 'JVBERi0xLjQ=',
+    isPDF: true,
+    prompt: '',
+    options: { apiKey: 'sessao', model: 'gpt-4o' },
+  });
+
+// Responde sempre com o mesmo erro no formato das Edge Functions
+const stubError = (status: number, code: string) => {
+  const fetchMock = vi.fn(async () =>
+    new Response(JSON.stringify({ error: { message: 'Falha', code } }), { status })
+  );
+  vi.stubGlobal('fetch', fetchMock);
+  return fetchMock;
+};
+
+afterEach(() => {
+  vi.unstubAllGlobals();
+});
+
+describe('supabaseProxyProvider', () => {
+  it.each([
+    [502, 'upstream_error'],
+    [502, 'upstream_unavailable'],
+    [429, 'upstream_rate_limit'],
+    [502, 'empty_response'],
+    [502, 'parse_error'],
+  ])('não repete HTTP %i %s', async (status, code) => {
+    const fetchMock = stubError(status, code);
+
+    await expect(fetchProviderJson(supabaseProxyProvider, request())).rejects.toMatchObject({ status });
+    expect(fetchMock).toHaveBeenCalledTimes(1);
+  });
+
+  it('repete falhas antes da contagem', async () => {
+    const fetchMock = stubError(500, 'internal_error');
+
+    await expect(fetchProviderJson(supabaseProxyProvider, request(), { maxRetries: 1 })).rejects.toMatchObject({ status: 500 });
+    expect(fetchMock).toHaveBeenCalledTimes(2);
+  });
+});
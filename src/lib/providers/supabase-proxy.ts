@@ -0,0 +1,71 @@
+// Análise pela Edge Function analyze-bill: o arquivo vai ao servidor do app, que usa a
+// chave do usuário guardada criptografada (ou a do projeto) e chama o provedor de lá.
+// Nenhuma chave fica no navegador; a autenticação é a própria sessão do Supabase.
+import { supabase, SUPABASE_PUBLISHABLE_KEY, SUPABASE_URL } from '@/integrations/supabase/client';
+import { ANALYSIS_PROMPT_VERSION } from '../analysis-prompt';
+import { AuthError } from './errors';
+import { parseApiErrorMessage, type AIProviderDefinition, type ApiErrorBody } from './types';
+
+interface AnalyzeBillResponse {
+  result?: unknown; // BillAnalysisResult ainda não validado
+  provider?: string;
+  model?: string;
+}
+
+export const SERVER_PROVIDER_ID = 'supabase';
+
+// Falhas depois que o servidor já contou a análise no limite por hora: repetir gastaria outra vaga
+const isCountedFailure = (code?: string) =>
+  !!code && (code.startsWith('upstream_') || code === 'empty_response' || code === 'parse_error');
+
+// Provedor que o servidor usa para cada modelo, onde o usuário pode guardar a própria chave
+export const getServerKeyProvider = (model: string): 'openai' | 'claude' | 'gemini' | null => {
+  if (/^(gpt-|o\d)/.test(model)) return 'openai';
+  if (model.startsWith('claude-')) return 'claude';
+  if (model.startsWith('gemini-')) return 'gemini';
+  return null;
+};
+
+export const supabaseProxyProvider: AIProviderDefinition = {
+  id: SERVER_PROVIDER_ID,
+  displayName: 'Servidor do app (chave protegida)',
+  capabilities: { vision: true, pdf: true, requiresApiKey: false, requiresBaseUrl: false, structuredOutput: false },
+  // Os mesmos modelos aceitos pelo servidor (AI_ALLOWED_MODELS)
+  supportedModels: ['gpt-4o', 'gpt-4o-mini', 'claude-sonnet-4-5', 'claude-haiku-4-5', 'gemini-2.5-flash', 'gemini-2.5-pro'],
+  defaultModel: 'gpt-4o',
+  // O servidor espera o provedor, que pode levar até 90s
+  timeoutMs: 120_000,
+  resolveApiKey: async () => {
+    const { data } = await supabase.auth.getSession();
+    if (!data.session) {
+      throw new AuthError('Entre na sua conta para usar a análise pelo servidor', { provider: SERVER_PROVIDER_ID });
+    }
+    return data.session.access_token;
+  },
+  buildRequest: ({ file, options }) => {
+    const body = new FormData();
+    body.append('file', file);
+    body.append('model', options.model || supabaseProxyProvider.defaultModel);
+    // O servidor monta o prompt com o mesmo módulo e recusa versões diferentes
+    body.append('promptVersion', String(ANALYSIS_PROMPT_VERSION));
+
+    return {
+      url: `${SUPABASE_URL}/functions/v1/analyze-bill`,
+      init: {
+        method: 'POST',
+        headers: {
+          'Authorization': `Bearer ${options.apiKey}`,
+          'apikey': SUPABASE_PUBLISHABLE_KEY,
+        },
+        body,
+      },
+    };
+  },
+  // O resultado volta como texto para passar pela mesma validação dos demais provedores
+  parseResponse: (data) => {
+    const result = (data as AnalyzeBillResponse | null)?.result;
+    return result ? JSON.stringify(result) : undefined;
+  },
+  parseError: parseApiErrorMessage,
+  isRetryableResponse: (_status, data) => !isCountedFailure((data as ApiErrorBody | null)?.error?.code),
+};
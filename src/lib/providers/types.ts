@@ -0,0 +1,62 @@
+// Contrato comum dos provedores de IA usados na análise de boletos
+
+export interface ProviderCapabilities {
+  vision: boolean; // Aceita imagens
+  pdf: boolean; // Aceita o PDF original, sem conversão
+  requiresApiKey: boolean;
+  requiresBaseUrl: boolean; // Endpoint configurado pelo usuário (servidor local, proxy...)
+  structuredOutput: boolean; // Força a resposta a seguir um JSON Schema
+}
+
+export type JsonSchema = Record<string, unknown>;
+
+// Configurações do usuário repassadas ao provedor
+export interface ProviderOptions {
+  apiKey?: string | null;
+  baseUrl?: string;
+  model?: string;
+}
+
+export interface ProviderRequestInput {
+  file: File;
+  base64: string;
+  isPDF: boolean;
+  prompt: string;
+  options: ProviderOptions;
+  responseSchema?: JsonSchema; // Enviado somente a provedores com structuredOutput
+}
+
+export interface ProviderHttpRequest {
+  url: string;
+  init: RequestInit;
+}
+
+export interface AIProviderDefinition {
+  id: string;
+  displayName: string;
+  capabilities: ProviderCapabilities;
+  supportedModels: string[]; // Modelos atuais, do recomendado para o mais barato
+  defaultModel: string;
+  // Modelos descontinuados pelo provedor -> substituto usado automaticamente
+  retiredModels?: Record<string, string>;
+  apiKeyUrl?: string; // Onde o usuário obtém a chave
+  timeoutMs?: number; // Limite de cada requisição, quando o padrão de 60s não basta
+  // Credencial obtida na hora da análise (ex: sessão do usuário), no lugar da chave das configurações
+  resolveApiKey?: () => Promise<string>;
+  buildRequest: (input: ProviderRequestInput) => ProviderHttpRequest;
+  // Extrai o texto gerado pelo modelo do corpo da resposta
+  parseResponse: (data: unknown) => string | undefined;
+  // Extrai a mensagem de erro do corpo de uma resposta com falha
+  parseError?: (data: unknown) => string | undefined;
+  // Motivo do bloqueio quando a resposta foi barrada pelo filtro de conteúdo
+  detectContentFilter?: (data: unknown) => string | undefined;
+  // Se vale repetir uma resposta 408, 429 ou 5xx; sem isso todas são repetidas
+  isRetryableResponse?: (status: number, data: unknown) => boolean;
+}
+
+// Corpo de erro no formato { error: { message } }, comum às APIs suportadas
+export interface ApiErrorBody {
+  error?: { message?: string; code?: string };
+}
+
+export const parseApiErrorMessage = (data: unknown): string | undefined => (data as ApiErrorBody | null)?.error?.message;
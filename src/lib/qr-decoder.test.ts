@@ -0,0 +1,61 @@
+// Leitura de QR Codes PIX em imagens de exemplo, sem navegador
+import { readFileSync } from 'node:fs';
+import { fileURLToPath } from 'node:url';
+import { PNG } from 'pngjs';
+import { describe, expect, it } from 'vitest';
+import { detectQrCode } from './qr-decoder';
+import { crc16Ccitt, parsePixBrCode } from './pix';
+import type { RasterImage } from './boleto';
+
+const loadFixture = (name: string): RasterImage => {
+  const png = PNG.sync.read(readFileSync(fileURLToPath(new URL(`./__fixtures__/qr/${name}`, import.meta.url))));
+  return { data: new Uint8ClampedArray(png.data), width: png.width, height: png.height };
+};
+
+// PIX copia e cola gravado em cada imagem, com o CRC16 já calculado
+const FIXTURES: { file: string; payload: string }[] = [
+  {
+    file: 'pix-upright.png',
+    payload: '00020126360014br.gov.bcb.pix0114123456780001955204000053039865406150.005802BR5923CONDOMINIO EDIFICIO SOL6009SAO PAULO62140510BOLETO00016304D588',
+  },
+  {
+    file: 'pix-rotated-20.png',
+    payload: '00020126440014br.gov.bcb.pix0122contato@energia.com.br520400005303986540589.905802BR5924DISTRIBUIDORA DE ENERGIA6014BELO HORIZONTE62130509FAT2026106304B822',
+  },
+  {
+    file: 'pix-rotated-90.png',
+    payload: '00020126360014br.gov.bcb.pix0114+5511999998888520400005303986540542.505802BR5919PROVEDOR FIBRA LTDA6008CURITIBA62110507INT00426304881A',
+  },
+  {
+    // Página 1700x2200 com um QR Code pequeno no canto: só é achado nos recortes
+    file: 'pix-small-on-page.png',
+    payload: '00020126580014br.gov.bcb.pix0136123e4567-e89b-12d3-a456-42661417400052040000530398654071234.565802BR5919IMOBILIARIA CENTRAL6014RIO DE JANEIRO62070503***6304C28D',
+  },
+];
+
+describe('detectQrCode', () => {
+  it.each(FIXTURES)('lê o PIX de $file', ({ file, payload }) => {
+    const image = loadFixture(file);
+    const detection = detectQrCode(image);
+
+    expect(detection?.data).toBe(payload);
+    expect(crc16Ccitt(payload.slice(0, -4))).toBe(payload.slice(-4));
+    expect(parsePixBrCode(detection!.data).valid).toBe(true);
+
+    const { x, y, width, height } = detection!.bounds;
+    expect(x).toBeGreaterThanOrEqual(0);
+    expect(y).toBeGreaterThanOrEqual(0);
+    expect(x + width).toBeLessThanOrEqual(image.width);
+    expect(y + height).toBeLessThanOrEqual(image.height);
+  });
+
+  it('localiza o QR Code pequeno na posição dele na página', () => {
+    const detection = detectQrCode(loadFixture('pix-small-on-page.png'));
+    expect(detection?.bounds.x).toBeGreaterThan(1300);
+    expect(detection?.bounds.y).toBeGreaterThan(1750);
+  });
+
+  it('retorna null sem QR Code na imagem', () => {
+    expect(detectQrCode(loadFixture('no-qr.png'))).toBeNull();
+  });
+});
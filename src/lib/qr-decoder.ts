@@ -0,0 +1,78 @@
+// Leitura de QR Codes a partir dos pixels de uma imagem (sem DOM, roda também no Node)
+import jsQR from 'jsqr';
+import type { RasterImage } from './boleto';
+
+export interface QrBounds {
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+}
+
+export interface QrDetection {
+  data: string; // Texto decodificado do QR Code
+  bounds: QrBounds; // Posição em pixels na imagem original
+}
+
+// Acima disso a imagem inteira não é lida de uma vez, apenas em recortes
+const MAX_QR_SCAN_PIXELS = 2_500_000;
+
+const cropImage = (image: RasterImage, bounds: QrBounds): RasterImage => {
+  const data = new Uint8ClampedArray(bounds.width * bounds.height * 4);
+  for (let row = 0; row < bounds.height; row++) {
+    const start = ((bounds.y + row) * image.width + bounds.x) * 4;
+    data.set(image.data.subarray(start, start + bounds.width * 4), row * bounds.width * 4);
+  }
+  return { data, width: bounds.width, height: bounds.height };
+};
+
+const detectInRegion = (image: RasterImage, region: QrBounds): QrDetection | null => {
+  const cropped = region.width === image.width && region.height === image.height ? image : cropImage(image, region);
+  const result = jsQR(cropped.data, cropped.width, cropped.height, { inversionAttempts: 'dontInvert' });
+  if (!result?.data) return null;
+
+  const { topLeftCorner, topRightCorner, bottomLeftCorner, bottomRightCorner } = result.location;
+  const xs = [topLeftCorner.x, topRightCorner.x, bottomLeftCorner.x, bottomRightCorner.x];
+  const ys = [topLeftCorner.y, topRightCorner.y, bottomLeftCorner.y, bottomRightCorner.y];
+  const x = Math.floor(Math.min(...xs));
+  const y = Math.floor(Math.min(...ys));
+
+  return {
+    data: result.data,
+    bounds: {
+      x: region.x + x,
+      y: region.y + y,
+      width: Math.ceil(Math.max(...xs)) - x,
+      height: Math.ceil(Math.max(...ys)) - y,
+    },
+  };
+};
+
+// Regiões candidatas: a imagem inteira (se não for grande demais) e quadrantes sobrepostos
+const getScanRegions = ({ width, height }: RasterImage): QrBounds[] => {
+  const regions: QrBounds[] = [];
+  if (width * height <= MAX_QR_SCAN_PIXELS) {
+    regions.push({ x: 0, y: 0, width, height });
+  }
+
+  const regionWidth = Math.ceil(width * 0.6);
+  const regionHeight = Math.ceil(height * 0.4);
+  for (const y of [0, Math.floor((height - regionHeight) / 2), height - regionHeight]) {
+    for (const x of [0, width - regionWidth]) {
+      regions.push({ x, y, width: regionWidth, height: regionHeight });
+    }
+  }
+  return regions;
+};
+
+/**
+ * Procura um QR Code na imagem. Páginas grandes são lidas em recortes
+ * sobrepostos, já que o leitor perde QR Codes pequenos em imagens enormes.
+ */
+export const detectQrCode = (image: RasterImage): QrDetection | null => {
+  for (const region of getScanRegions(image)) {
+    const detection = detectInRegion(image, region);
+    if (detection) return detection;
+  }
+  return null;
+};
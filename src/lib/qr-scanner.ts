@@ -0,0 +1,47 @@
+// Leitura local de QR Codes (PIX) em imagens e PDFs, sem chamar a IA
+import { detectQrCode, type QrBounds } from './qr-decoder';
+import { parsePixBrCode, type PixBrCode } from './pix';
+import { rasterizeFile } from './raster';
+
+export interface QrScanResult {
+  data: string;
+  page: number;
+  bounds: QrBounds;
+}
+
+export interface PixQrScanResult extends QrScanResult {
+  pix: PixBrCode;
+}
+
+/**
+ * Lê um QR Code por página (imagem ou todas as páginas do PDF) e retorna
+ * o texto decodificado com a página e a posição em que foi encontrado.
+ */
+export const scanQrCodes = async (file: File, options: { maxPages?: number } = {}): Promise<QrScanResult[]> => {
+  console.log('QR Scanner: Procurando QR Codes em', file.name);
+  const results: QrScanResult[] = [];
+
+  for await (const { page, image } of rasterizeFile(file, { maxPages: options.maxPages })) {
+    const detection = detectQrCode(image);
+    if (detection) {
+      console.log(`QR Scanner: QR Code encontrado na página ${page}`, detection.bounds);
+      results.push({ data: detection.data, page, bounds: detection.bounds });
+    }
+  }
+
+  if (results.length === 0) {
+    console.log('QR Scanner: Nenhum QR Code encontrado');
+  }
+  return results;
+};
+
+// Retorna o primeiro QR Code com um PIX copia e cola válido (CRC conferido)
+export const scanPixQrCode = async (file: File, options: { maxPages?: number } = {}): Promise<PixQrScanResult | null> => {
+  for (const result of await scanQrCodes(file, options)) {
+    const { valid, pix } = parsePixBrCode(result.data);
+    if (valid && pix) {
+      return { ...result, pix };
+    }
+  }
+  return null;
+};
@@ -0,0 +1,69 @@
+// Rasterização de arquivos enviados (imagens e páginas de PDF) para leitura local de códigos
+import { isPdfFile, getPdfPageCount, renderPdfPage } from './pdf-converter';
+
+export interface RasterPage {
+  page: number; // Página de origem (1 para imagens)
+  image: ImageData;
+}
+
+export interface RasterizeOptions {
+  maxPages?: number;
+  scale?: number; // Escala de renderização das páginas de PDF
+  pages?: number[]; // Somente estas páginas do PDF (1-based)
+}
+
+const canvasToImageData = (canvas: HTMLCanvasElement): ImageData => {
+  const ctx = canvas.getContext('2d');
+  if (!ctx) {
+    throw new Error('Não foi possível criar contexto do canvas');
+  }
+  return ctx.getImageData(0, 0, canvas.width, canvas.height);
+};
+
+const imageFileToImageData = async (file: File): Promise<ImageData> => {
+  const bitmap = await createImageBitmap(file);
+  const canvas = document.createElement('canvas');
+  canvas.width = bitmap.width;
+  canvas.height = bitmap.height;
+  const ctx = canvas.getContext('2d');
+  if (!ctx) {
+    throw new Error('Não foi possível criar contexto do canvas');
+  }
+  ctx.drawImage(bitmap, 0, 0);
+  bitmap.close();
+  return canvasToImageData(canvas);
+};
+
+// Primeira página do último PDF lido: a detecção de carnê e as leituras do código
+// de barras e do QR Code começam todas por ela, então é renderizada uma vez só
+let firstPageCache: { file: File; scale: number | undefined; image: Promise<ImageData> } | null = null;
+
+const renderPageImage = (file: File, page: number, scale?: number): Promise<ImageData> => {
+  if (page !== 1) return renderPdfPage(file, page, scale).then(canvasToImageData);
+  if (firstPageCache?.file !== file || firstPageCache.scale !== scale) {
+    const image = renderPdfPage(file, page, scale).then(canvasToImageData);
+    firstPageCache = { file, scale, image };
+    image.catch(() => {
+      if (firstPageCache?.image === image) firstPageCache = null;
+    });
+  }
+  return firstPageCache.image;
+};
+
+/**
+ * Gera os pixels de cada página do arquivo, uma por vez, para não manter
+ * todas as páginas de um PDF grande em memória ao mesmo tempo.
+ */
+export async function* rasterizeFile(file: File, options: RasterizeOptions = {}): AsyncGenerator<RasterPage> {
+  if (!isPdfFile(file)) {
+    yield { page: 1, image: await imageFileToImageData(file) };
+    return;
+  }
+
+  const pageCount = await getPdfPageCount(file);
+  const lastPage = Math.min(pageCount, options.maxPages ?? pageCount);
+  for (let page = 1; page <= lastPage; page++) {
+    if (options.pages && !options.pages.includes(page)) continue;
+    yield { page, image: await renderPageImage(file, page, options.scale) };
+  }
+}
@@ -0,0 +1,33 @@
+// Chaves de API guardadas no servidor (Edge Function ai-keys) para a análise pelo servidor
+import { supabase } from '@/integrations/supabase/client';
+
+export interface ServerKeyStatus {
+  keys: { provider: string; hint: string; updatedAt: string }[]; // hint: 4 últimos caracteres
+  projectKeys: string[]; // Provedores com chave do projeto, que dispensam a do usuário
+}
+
+// Mensagem enviada pela função no corpo do erro, quando houver
+const getFunctionErrorMessage = async (error: unknown): Promise<string> => {
+  const context = (error as { context?: Response } | null)?.context;
+  if (context && typeof context.json === 'function') {
+    const body = await context.json().catch(() => null);
+    if (body?.error?.message) return body.error.message;
+  }
+  return error instanceof Error ? error.message : 'Erro desconhecido';
+};
+
+export const getServerKeyStatus = async (): Promise<ServerKeyStatus> => {
+  const { data, error } = await supabase.functions.invoke<ServerKeyStatus>('ai-keys', { method: 'GET' });
+  if (error) throw new Error(await getFunctionErrorMessage(error));
+  return { keys: data?.keys ?? [], projectKeys: data?.projectKeys ?? [] };
+};
+
+export const saveServerKey = async (provider: string, apiKey: string): Promise<void> => {
+  const { error } = await supabase.functions.invoke('ai-keys', { method: 'PUT', body: { provider, apiKey } });
+  if (error) throw new Error(await getFunctionErrorMessage(error));
+};
+
+export const deleteServerKey = async (provider: string): Promise<void> => {
+  const { error } = await supabase.functions.invoke(`ai-keys?provider=${encodeURIComponent(provider)}`, { method: 'DELETE' });
+  if (error) throw new Error(await getFunctionErrorMessage(error));
+};
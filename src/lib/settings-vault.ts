@@ -0,0 +1,421 @@
+// Cofre das chaves de API salvas em Configurações: os segredos ficam no localStorage
+// cifrados com AES-GCM e só existem em texto puro na memória enquanto o cofre está
+// desbloqueado. A chave dos dados é aleatória e fica guardada uma vez para cada forma
+// de desbloqueio (senha via PBKDF2 ou passkey via extensão PRF do WebAuthn).
+
+interface EncryptedBlob {
+  iv: string; // base64
+  ciphertext: string; // base64
+}
+
+interface PassphraseSlot {
+  type: 'passphrase';
+  salt: string;
+  iterations: number;
+  wrappedKey: EncryptedBlob;
+}
+
+interface PasskeySlot {
+  type: 'passkey';
+  credentialId: string; // base64
+  salt: string; // Entrada da PRF
+  wrappedKey: EncryptedBlob;
+}
+
+interface StoredVault {
+  version: 1;
+  slots: (PassphraseSlot | PasskeySlot)[];
+  secretNames: string[]; // Nomes dos segredos guardados, para saber o que existe sem desbloquear
+  data: EncryptedBlob; // JSON { nome: valor }
+  autoLockMinutes: number;
+}
+
+export interface VaultState {
+  enabled: boolean;
+  unlocked: boolean;
+  hasPasskey: boolean;
+  autoLockMinutes: number;
+  unlockRequested: boolean; // Uma análise aguarda o desbloqueio
+}
+
+// Análise cancelada porque o usuário não desbloqueou o cofre
+export class VaultLockedError extends Error {
+  constructor(message = 'Cofre de chaves bloqueado. Desbloqueie para usar a IA.') {
+    super(message);
+    this.name = 'VaultLockedError';
+  }
+}
+
+export const AI_KEY_SECRET = 'aiApiKey';
+export const getFallbackSecretName = (fallbackId: string) => `aiFallbacks.${fallbackId}`;
+
+export const DEFAULT_AUTO_LOCK_MINUTES = 15;
+export const MIN_PASSPHRASE_LENGTH = 8;
+
+const VAULT_STORAGE_KEY = 'finanscan-vault';
+const SETTINGS_STORAGE_KEY = 'finanscan-settings';
+const PBKDF2_ITERATIONS = 600_000;
+const ACTIVITY_EVENTS = ['pointerdown', 'keydown', 'wheel', 'touchstart'] as const;
+const ACTIVITY_THROTTLE_MS = 5_000;
+
+const encoder = new TextEncoder();
+const decoder = new TextDecoder();
+
+const toBase64 = (bytes: Uint8Array): string => btoa(Array.from(bytes, (byte) => String.fromCharCode(byte)).join(''));
+const fromBase64 = (value: string): Uint8Array => Uint8Array.from(atob(value), (char) => char.charCodeAt(0));
+const randomBytes = (length: number) => crypto.getRandomValues(new Uint8Array(length));
+
+const encryptBytes = async (key: CryptoKey, bytes: Uint8Array): Promise<EncryptedBlob> => {
+  const iv = randomBytes(12);
+  const ciphertext = await crypto.subtle.encrypt({ name: 'AES-GCM', iv }, key, bytes);
+  return { iv: toBase64(iv), ciphertext: toBase64(new Uint8Array(ciphertext)) };
+};
+
+const decryptBytes = async (key: CryptoKey, { iv, ciphertext }: EncryptedBlob): Promise<Uint8Array> =>
+  new Uint8Array(await crypto.subtle.decrypt({ name: 'AES-GCM', iv: fromBase64(iv) }, key, fromBase64(ciphertext)));
+
+const importAesKey = (raw: Uint8Array) => crypto.subtle.importKey('raw', raw, 'AES-GCM', false, ['encrypt', 'decrypt']);
+
+const derivePassphraseKey = async (passphrase: string, salt: Uint8Array, iterations: number): Promise<CryptoKey> => {
+  const material = await crypto.subtle.importKey('raw', encoder.encode(passphrase), 'PBKDF2', false, ['deriveKey']);
+  return crypto.subtle.deriveKey(
+    { name: 'PBKDF2', salt, iterations, hash: 'SHA-256' },
+    material,
+    { name: 'AES-GCM', length: 256 },
+    false,
+    ['encrypt', 'decrypt']
+  );
+};
+
+const derivePasskeyKey = async (prfOutput: BufferSource): Promise<CryptoKey> => {
+  const material = await crypto.subtle.importKey('raw', prfOutput, 'HKDF', false, ['deriveKey']);
+  return crypto.subtle.deriveKey(
+    { name: 'HKDF', hash: 'SHA-256', salt: new Uint8Array(0), info: encoder.encode('finanscan-vault') },
+    material,
+    { name: 'AES-GCM', length: 256 },
+    false,
+    ['encrypt', 'decrypt']
+  );
+};
+
+const readVault = (): StoredVault | null => {
+  try {
+    const stored = localStorage.getItem(VAULT_STORAGE_KEY);
+    const parsed = stored ? JSON.parse(stored) : null;
+    return parsed?.version === 1 && Array.isArray(parsed.slots) ? parsed : null;
+  } catch (error) {
+    console.error('Cofre: Erro ao ler o cofre:', error);
+    return null;
+  }
+};
+
+const writeVault = (vault: StoredVault | null) => {
+  if (vault) localStorage.setItem(VAULT_STORAGE_KEY, JSON.stringify(vault));
+  else localStorage.removeItem(VAULT_STORAGE_KEY);
+};
+
+// Sessão desbloqueada: existe apenas em memória
+interface VaultSession {
+  rawKey: Uint8Array; // Mantida para guardar a chave em novas formas de desbloqueio
+  key: CryptoKey;
+  secrets: Record<string, string>;
+}
+
+let session: VaultSession | null = null;
+let pendingUnlock: { promise: Promise<void>; resolve: () => void; reject: (error: Error) => void } | null = null;
+let lockTimer: ReturnType<typeof setTimeout> | null = null;
+let lastActivity = 0;
+const listeners = new Set<() => void>();
+
+const buildState = (): VaultState => {
+  const vault = readVault();
+  return {
+    enabled: !!vault,
+    unlocked: !!session,
+    hasPasskey: !!vault?.slots.some((slot) => slot.type === 'passkey'),
+    autoLockMinutes: vault?.autoLockMinutes ?? DEFAULT_AUTO_LOCK_MINUTES,
+    unlockRequested: !!pendingUnlock,
+  };
+};
+
+let state = buildState();
+
+const emit = () => {
+  state = buildState();
+  listeners.forEach((listener) => listener());
+};
+
+export const getVaultState = (): VaultState => state;
+
+export const subscribeVault = (listener: () => void) => {
+  listeners.add(listener);
+  return () => {
+    listeners.delete(listener);
+  };
+};
+
+export const isVaultEnabled = (): boolean => !!readVault();
+export const isVaultUnlocked = (): boolean => !!session;
+
+// Segredo em texto puro; null com o cofre bloqueado
+export const getVaultSecret = (name: string): string | null => session?.secrets[name] || null;
+
+// Indica se o segredo existe, mesmo com o cofre bloqueado
+export const hasVaultSecret = (name: string): boolean => !!readVault()?.secretNames.includes(name);
+
+// Bloqueio automático após o tempo configurado sem interação com a página
+const scheduleAutoLock = () => {
+  if (lockTimer) clearTimeout(lockTimer);
+  lockTimer = null;
+  if (!session) return;
+  const minutes = readVault()?.autoLockMinutes ?? DEFAULT_AUTO_LOCK_MINUTES;
+  lockTimer = setTimeout(() => {
+    console.log('Cofre: Bloqueado por inatividade');
+    lockVault();
+  }, minutes * 60_000);
+};
+
+const handleActivity = () => {
+  const now = Date.now();
+  if (now - lastActivity < ACTIVITY_THROTTLE_MS) return;
+  lastActivity = now;
+  scheduleAutoLock();
+};
+
+const persistSecrets = async () => {
+  const vault = readVault();
+  if (!session || !vault) throw new VaultLockedError();
+  const secrets = Object.fromEntries(Object.entries(session.secrets).filter(([, value]) => value));
+  session.secrets = secrets;
+  writeVault({
+    ...vault,
+    secretNames: Object.keys(secrets),
+    data: await encryptBytes(session.key, encoder.encode(JSON.stringify(secrets))),
+  });
+};
+
+/**
+ * Move para o cofre as chaves ainda salvas em texto puro nas configurações (de antes
+ * do cofre ou gravadas por uma versão anterior do app) e as apaga de lá.
+ */
+const migratePlaintextSettings = async () => {
+  if (!session) return;
+  const stored = localStorage.getItem(SETTINGS_STORAGE_KEY);
+  if (!stored) return;
+  const settings = JSON.parse(stored);
+  let moved = 0;
+
+  if (settings.aiApiKey) {
+    session.secrets[AI_KEY_SECRET] = settings.aiApiKey;
+    settings.aiApiKey = '';
+    moved++;
+  }
+  if (Array.isArray(settings.aiFallbacks)) {
+    settings.aiFallbacks.forEach((fallback: { id?: string; apiKey?: string }) => {
+      if (!fallback?.id || !fallback.apiKey) return;
+      session!.secrets[getFallbackSecretName(fallback.id)] = fallback.apiKey;
+      fallback.apiKey = '';
+      moved++;
+    });
+  }
+  if (moved === 0) return;
+
+  // O cofre é gravado antes de apagar o texto puro, para nenhuma chave se perder
+  await persistSecrets();
+  localStorage.setItem(SETTINGS_STORAGE_KEY, JSON.stringify(settings));
+  console.log(`Cofre: ${moved} chave(s) em texto puro movida(s) para o cofre`);
+};
+
+const openSession = async (rawKey: Uint8Array) => {
+  const vault = readVault();
+  if (!vault) throw new Error('Cofre não encontrado');
+  const key = await importAesKey(rawKey);
+  const secrets = JSON.parse(decoder.decode(await decryptBytes(key, vault.data)));
+  session = { rawKey, key, secrets };
+
+  await migratePlaintextSettings().catch((error) => console.error('Cofre: Erro ao migrar chaves em texto puro:', error));
+  ACTIVITY_EVENTS.forEach((event) => window.addEventListener(event, handleActivity, { passive: true }));
+  scheduleAutoLock();
+  pendingUnlock?.resolve();
+  pendingUnlock = null;
+  emit();
+};
+
+// Cria o cofre protegido pela senha e move para ele as chaves salvas em texto puro
+export const createVault = async (passphrase: string): Promise<void> => {
+  if (readVault()) throw new Error('O cofre já existe');
+  if (passphrase.length < MIN_PASSPHRASE_LENGTH) {
+    throw new Error(`A senha do cofre deve ter pelo menos ${MIN_PASSPHRASE_LENGTH} caracteres`);
+  }
+
+  const rawKey = randomBytes(32);
+  const salt = randomBytes(16);
+  const slotKey = await derivePassphraseKey(passphrase, salt, PBKDF2_ITERATIONS);
+  const dataKey = await importAesKey(rawKey);
+  writeVault({
+    version: 1,
+    slots: [{ type: 'passphrase', salt: toBase64(salt), iterations: PBKDF2_ITERATIONS, wrappedKey: await encryptBytes(slotKey, rawKey) }],
+    secretNames: [],
+    data: await encryptBytes(dataKey, encoder.encode('{}')),
+    autoLockMinutes: DEFAULT_AUTO_LOCK_MINUTES,
+  });
+  await openSession(rawKey);
+};
+
+export const unlockWithPassphrase = async (passphrase: string): Promise<void> => {
+  const slot = readVault()?.slots.find((entry): entry is PassphraseSlot => entry.type === 'passphrase');
+  if (!slot) throw new Error('Cofre não encontrado');
+
+  let rawKey: Uint8Array;
+  try {
+    const slotKey = await derivePassphraseKey(passphrase, fromBase64(slot.salt), slot.iterations);
+    rawKey = await decryptBytes(slotKey, slot.wrappedKey);
+  } catch {
+    // O AES-GCM só falha na autenticação quando a chave derivada (a senha) está errada
+    throw new Error('Senha do cofre incorreta');
+  }
+  await openSession(rawKey);
+};
+
+export const isPasskeySupported = (): boolean =>
+  typeof window !== 'undefined' && 'PublicKeyCredential' in window && !!navigator.credentials;
+
+// Avalia a PRF da passkey com o salt do cofre; exige verificação do usuário (biometria, PIN)
+const evaluatePasskeyPrf = async (credentialId: Uint8Array, salt: Uint8Array): Promise<BufferSource> => {
+  const credential = (await navigator.credentials.get({
+    publicKey: {
+      challenge: randomBytes(32),
+      allowCredentials: [{ type: 'public-key', id: credentialId }],
+      userVerification: 'required',
+      extensions: { prf: { eval: { first: salt } } },
+    },
+  })) as PublicKeyCredential | null;
+  const output = credential?.getClientExtensionResults().prf?.results?.first;
+  if (!output) throw new Error('A passkey não retornou a chave do cofre (extensão PRF indisponível)');
+  return output;
+};
+
+export const unlockWithPasskey = async (): Promise<void> => {
+  const slot = readVault()?.slots.find((entry): entry is PasskeySlot => entry.type === 'passkey');
+  if (!slot) throw new Error('Nenhuma passkey cadastrada no cofre');
+
+  const slotKey = await derivePasskeyKey(await evaluatePasskeyPrf(fromBase64(slot.credentialId), fromBase64(slot.salt)));
+  let rawKey: Uint8Array;
+  try {
+    rawKey = await decryptBytes(slotKey, slot.wrappedKey);
+  } catch {
+    throw new Error('Esta passkey não abre o cofre');
+  }
+  await openSession(rawKey);
+};
+
+// Cadastra uma passkey com PRF como forma adicional de desbloqueio (substitui a anterior)
+export const addPasskey = async (): Promise<void> => {
+  const vault = readVault();
+  if (!session || !vault) throw new VaultLockedError('Desbloqueie o cofre para cadastrar uma passkey');
+  if (!isPasskeySupported()) throw new Error('Este navegador não suporta passkeys');
+
+  const credential = (await navigator.credentials.create({
+    publicKey: {
+      challenge: randomBytes(32),
+      rp: { name: 'FinanScan AI' },
+      user: { id: randomBytes(16), name: 'cofre-de-chaves', displayName: 'Cofre de chaves do FinanScan' },
+      pubKeyCredParams: [
+        { type: 'public-key', alg: -7 },
+        { type: 'public-key', alg: -257 },
+      ],
+      authenticatorSelection: { userVerification: 'required', residentKey: 'preferred' },
+      extensions: { prf: {} },
+    },
+  })) as PublicKeyCredential | null;
+  if (!credential) throw new Error('Cadastro da passkey cancelado');
+  if (!credential.getClientExtensionResults().prf?.enabled) {
+    throw new Error('Esta passkey não suporta a extensão PRF, necessária para proteger o cofre');
+  }
+
+  const credentialId = new Uint8Array(credential.rawId);
+  const salt = randomBytes(32);
+  const slotKey = await derivePasskeyKey(await evaluatePasskeyPrf(credentialId, salt));
+  const slot: PasskeySlot = {
+    type: 'passkey',
+    credentialId: toBase64(credentialId),
+    salt: toBase64(salt),
+    wrappedKey: await encryptBytes(slotKey, session.rawKey),
+  };
+  writeVault({ ...vault, slots: [...vault.slots.filter((entry) => entry.type !== 'passkey'), slot] });
+  emit();
+};
+
+export const removePasskey = () => {
+  const vault = readVault();
+  if (!vault) return;
+  writeVault({ ...vault, slots: vault.slots.filter((entry) => entry.type !== 'passkey') });
+  emit();
+};
+
+export const lockVault = () => {
+  if (lockTimer) clearTimeout(lockTimer);
+  lockTimer = null;
+  ACTIVITY_EVENTS.forEach((event) => window.removeEventListener(event, handleActivity));
+  session = null;
+  emit();
+};
+
+export const setAutoLockMinutes = (minutes: number) => {
+  const vault = readVault();
+  if (!vault) return;
+  writeVault({ ...vault, autoLockMinutes: minutes });
+  scheduleAutoLock();
+  emit();
+};
+
+// Substitui todos os segredos do cofre (valores vazios são removidos)
+export const setVaultSecrets = async (secrets: Record<string, string>): Promise<void> => {
+  if (!session) throw new VaultLockedError('Desbloqueie o cofre para alterar as chaves');
+  session.secrets = { ...secrets };
+  await persistSecrets();
+  emit();
+};
+
+// Desativa o cofre devolvendo as chaves às configurações em texto puro
+export const disableVault = async (): Promise<void> => {
+  if (!session) throw new VaultLockedError('Desbloqueie o cofre para desativá-lo');
+  const stored = localStorage.getItem(SETTINGS_STORAGE_KEY);
+  const settings = stored ? JSON.parse(stored) : {};
+  settings.aiApiKey = session.secrets[AI_KEY_SECRET] ?? settings.aiApiKey ?? '';
+  if (Array.isArray(settings.aiFallbacks)) {
+    settings.aiFallbacks = settings.aiFallbacks.map((fallback: { id?: string; apiKey?: string }) => ({
+      ...fallback,
+      apiKey: (fallback?.id && session!.secrets[getFallbackSecretName(fallback.id)]) || fallback?.apiKey || '',
+    }));
+  }
+  localStorage.setItem(SETTINGS_STORAGE_KEY, JSON.stringify(settings));
+  writeVault(null);
+  lockVault();
+};
+
+/**
+ * Aguarda o desbloqueio quando o cofre existe e está bloqueado. O pedido é exibido
+ * pelo VaultUnlockDialog; várias análises simultâneas aguardam o mesmo pedido.
+ */
+export const ensureVaultUnlocked = (): Promise<void> => {
+  if (session || !readVault()) return Promise.resolve();
+  if (!pendingUnlock) {
+    let resolve: () => void = () => {};
+    let reject: (error: Error) => void = () => {};
+    const promise = new Promise<void>((onResolve, onReject) => {
+      resolve = onResolve;
+      reject = onReject;
+    });
+    pendingUnlock = { promise, resolve, reject };
+    emit();
+  }
+  return pendingUnlock.promise;
+};
+
+export const cancelVaultUnlock = () => {
+  if (!pendingUnlock) return;
+  pendingUnlock.reject(new VaultLockedError());
+  pendingUnlock = null;
+  emit();
+};
@@ -5,18 +5,26 @@ import { BillsList, Bill } from "@/components/BillsList";
 import { PaymentChart } from "@/components/PaymentChart";
 import { CategoryChart } from "@/components/CategoryChart";
 import { TotalSpendingByCategory } from "@/components/TotalSpendingByCategory";
-import { CategoryFilter } from "@/components/CategoryFilter";
+import { CategoryFilter, type CategoryOption } from "@/components/CategoryFilter";
 import { AddBillModal } from "@/components/AddBillModal";
+import { BatchUploadModal } from "@/components/BatchUploadModal";
 import { ReportModal } from "@/components/ReportModal";
+import { BarcodeConflictsAlert } from "@/components/BarcodeConflictsAlert";
 import { ScrollArea } from "@/components/ui/scroll-area";
 import { Button } from "@/components/ui/button";
 import { DollarSign, CreditCard, TrendingUp, Calendar, Settings, LogOut } from "lucide-react";
 import { Link } from "react-router-dom";
 import { useAuth } from "@/hooks/useAuth";
+import { useToast } from "@/hooks/use-toast";
+import { useCategories } from "@/hooks/use-categories";
 
 import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
 import { supabase } from "@/integrations/supabase/client";
 import { Tables } from "@/integrations/supabase/types";
+import { normalizeBarcode, type BarcodeType } from "@/lib/boleto";
+import { getIssuerBankCode } from "@/lib/banks";
+import { calculateAmountDue } from "@/lib/late-fees";
+import { DEFAULT_CATEGORY_COLOR, DEFAULT_CATEGORY_ICON, FALLBACK_CATEGORY, getCategoryLabel } from "@/lib/categories";
 
 // Mock data for demonstration
 const mockBills: Bill[] = [
@@ -91,8 +99,11 @@ const Index = () => {
   // const [bills, setBills] = useState<Bill[]>(mockBills);
   const [selectedCategory, setSelectedCategory] = useState<string | null>(null);
   const [selectedMonth, setSelectedMonth] = useState<string | null>(null);
+  const [selectedBank, setSelectedBank] = useState<string | null>(null);
 
   const queryClient = useQueryClient();
+  const { toast } = useToast();
+  const { categories: userCategories } = useCategories();
 
   useEffect(() => {
     if (!loading && !user) {
@@ -111,8 +122,44 @@ const Index = () => {
     paymentMethod: (row.payment_method as Bill['paymentMethod']) ?? undefined,
     paidAt: row.paid_at ?? undefined,
     barcode: row.barcode ?? undefined,
+    barcodeType: (row.barcode_type as BarcodeType) ?? undefined,
+    issuerBank: row.issuer_bank ?? undefined,
+    pixPayload: row.pix_payload ?? undefined,
+    finePercent: row.fine_percent ?? undefined,
+    dailyInterestPercent: row.daily_interest_percent ?? undefined,
+    discountAmount: row.discount_amount ?? undefined,
+    discountUntil: row.discount_until ?? undefined,
+    installmentGroupId: row.installment_group_id ?? undefined,
+    installmentNumber: row.installment_number ?? undefined,
+    installmentTotal: row.installment_total ?? undefined,
+    barcodeConflict: row.barcode_conflict ?? false,
   });
 
+  // Map UI Bill -> DB insert; armazena sempre o código de barras de 44 dígitos,
+  // formatos desconhecidos ficam como digitados
+  const mapBillToInsert = (newBill: Omit<Bill, "id" | "status">) => {
+    const normalizedBarcode = newBill.barcode ? normalizeBarcode(newBill.barcode) : null;
+    return {
+      user_id: user!.id,
+      beneficiary: newBill.beneficiary,
+      amount: newBill.amount,
+      due_date: newBill.dueDate,
+      category: newBill.category ?? null,
+      barcode: normalizedBarcode?.barcode ?? newBill.barcode ?? null,
+      barcode_type: normalizedBarcode?.type ?? null,
+      issuer_bank: getIssuerBankCode(normalizedBarcode?.barcode),
+      pix_payload: newBill.pixPayload ?? null,
+      fine_percent: newBill.finePercent ?? null,
+      daily_interest_percent: newBill.dailyInterestPercent ?? null,
+      discount_amount: newBill.discountAmount ?? null,
+      discount_until: newBill.discountUntil ?? null,
+      installment_group_id: newBill.installmentGroupId ?? null,
+      installment_number: newBill.installmentNumber ?? null,
+      installment_total: newBill.installmentTotal ?? null,
+      status: 'pending' as const,
+    };
+  };
+
   // Fetch bills from Supabase for the current user
   const { data: dbBills = [], isLoading: billsLoading } = useQuery({
     queryKey: ['bills', user?.id],
@@ -133,25 +180,123 @@ const Index = () => {
   // Mutations
   const addBillMutation = useMutation({
     mutationFn: async (newBill: Omit<Bill, "id" | "status">) => {
-      const insert = {
-        user_id: user!.id,
-        beneficiary: newBill.beneficiary,
-        amount: newBill.amount,
-        due_date: newBill.dueDate,
-        category: newBill.category ?? null,
-        barcode: newBill.barcode ?? null,
-        status: 'pending' as const,
-      };
       const { data, error } = await supabase
         .from('bills')
-        .insert(insert)
+        .insert(mapBillToInsert(newBill))
         .select('*')
         .single();
+      // 23505: violação do índice único (user_id, barcode)
+      if (error?.code === '23505') throw new Error('Este boleto já está cadastrado (mesmo código de barras).');
       if (error) throw new Error(error.message);
       return data as Tables<'bills'>;
     },
     onSuccess: () => {
       queryClient.invalidateQueries({ queryKey: ['bills', user?.id] });
+    },
+    onError: (error) => {
+      toast({
+        variant: "destructive",
+        title: "Erro ao salvar boleto",
+        description: error instanceof Error ? error.message : "Erro desconhecido",
+      });
+    }
+  });
+
+  // Parcelas de um carnê: um único insert, para salvar todas ou nenhuma
+  const addInstallmentsMutation = useMutation({
+    mutationFn: async (newBills: Omit<Bill, "id" | "status">[]) => {
+      const installmentGroupId = crypto.randomUUID();
+      const { data, error } = await supabase
+        .from('bills')
+        .insert(newBills.map((bill) => mapBillToInsert({ ...bill, installmentGroupId })))
+        .select('*');
+      if (error?.code === '23505') throw new Error('Uma das parcelas já está cadastrada (mesmo código de barras). Nenhuma parcela foi salva.');
+      if (error) throw new Error(error.message);
+      return data as Tables<'bills'>[];
+    },
+    onSuccess: (data) => {
+      queryClient.invalidateQueries({ queryKey: ['bills', user?.id] });
+      toast({
+        title: "Parcelas salvas",
+        description: `${data.length} parcelas do carnê foram cadastradas.`,
+      });
+    },
+    onError: (error) => {
+      toast({
+        variant: "destructive",
+        title: "Erro ao salvar parcelas",
+        description: error instanceof Error ? error.message : "Erro desconhecido",
+      });
+    }
+  });
+
+  // Boletos revisados na fila de importação: um único insert para o lote inteiro
+  const addBillsMutation = useMutation({
+    mutationFn: async (newBills: Omit<Bill, "id" | "status">[]) => {
+      const { data, error } = await supabase
+        .from('bills')
+        .insert(newBills.map(mapBillToInsert))
+        .select('*');
+      if (error?.code === '23505') throw new Error('Um dos boletos já está cadastrado (mesmo código de barras). Nenhum boleto foi salvo.');
+      if (error) throw new Error(error.message);
+      return data as Tables<'bills'>[];
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['bills', user?.id] });
+    },
+    onError: (error) => {
+      toast({
+        variant: "destructive",
+        title: "Erro ao salvar boletos",
+        description: error instanceof Error ? error.message : "Erro desconhecido",
+      });
+    }
+  });
+
+  // Completa uma conta existente com os dados de um cadastro duplicado
+  const mergeBillMutation = useMutation({
+    mutationFn: async ({ billId, patch }: { billId: string; patch: Partial<Omit<Bill, "id" | "status">> }) => {
+      const normalizedBarcode = patch.barcode ? normalizeBarcode(patch.barcode) : null;
+      const update: Partial<Tables<'bills'>> = {};
+      if (patch.beneficiary !== undefined) update.beneficiary = patch.beneficiary;
+      if (patch.amount !== undefined) update.amount = patch.amount;
+      if (patch.category !== undefined) update.category = patch.category;
+      if (patch.barcode !== undefined) {
+        update.barcode = normalizedBarcode?.barcode ?? patch.barcode;
+        update.barcode_type = normalizedBarcode?.type ?? null;
+        update.issuer_bank = getIssuerBankCode(normalizedBarcode?.barcode);
+      }
+      if (patch.pixPayload !== undefined) update.pix_payload = patch.pixPayload;
+      if (patch.finePercent !== undefined) update.fine_percent = patch.finePercent;
+      if (patch.dailyInterestPercent !== undefined) update.daily_interest_percent = patch.dailyInterestPercent;
+      if (patch.discountAmount !== undefined) update.discount_amount = patch.discountAmount;
+      if (patch.discountUntil !== undefined) update.discount_until = patch.discountUntil;
+      if (Object.keys(update).length === 0) return false;
+
+      const { error } = await supabase
+        .from('bills')
+        .update(update)
+        .eq('id', billId)
+        .eq('user_id', user!.id);
+      if (error?.code === '23505') throw new Error('Outra conta já usa este código de barras.');
+      if (error) throw new Error(error.message);
+      return true;
+    },
+    onSuccess: (updated) => {
+      queryClient.invalidateQueries({ queryKey: ['bills', user?.id] });
+      toast({
+        title: "Contas mescladas",
+        description: updated
+          ? "A conta existente foi completada com os novos dados."
+          : "A conta existente já tinha todos os dados; nada foi alterado.",
+      });
+    },
+    onError: (error) => {
+      toast({
+        variant: "destructive",
+        title: "Erro ao mesclar contas",
+        description: error instanceof Error ? error.message : "Erro desconhecido",
+      });
     }
   });
 
@@ -191,6 +336,25 @@ const Index = () => {
     }
   });
 
+  // Boletos repetidos de antes do índice único: mantém uma conta e exclui as outras numa só transação
+  const resolveBarcodeConflictMutation = useMutation({
+    mutationFn: async (keepId: string) => {
+      const { error } = await supabase.rpc('resolve_barcode_conflict', { p_keep_id: keepId });
+      if (error) throw new Error(error.message);
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['bills', user?.id] });
+      toast({ title: "Boleto repetido resolvido", description: "A conta escolhida foi mantida e as cópias, excluídas." });
+    },
+    onError: (error) => {
+      toast({
+        variant: "destructive",
+        title: "Erro ao resolver boleto repetido",
+        description: error instanceof Error ? error.message : "Erro desconhecido",
+      });
+    }
+  });
+
   const stats = useMemo(() => {
     const currentDate = new Date();
     const currentMonth = currentDate.getMonth();
@@ -211,7 +375,12 @@ const Index = () => {
     // Todas as contas pagas (para o novo card "Valor Total Pago Geral")
     const allPaidBills = bills.filter(bill => bill.status === "paid");
 
-    const totalPending = allPendingBills.reduce((sum, bill) => sum + bill.amount, 0);
+    // Multa e juros já acumulados nas contas vencidas entram no total a pagar
+    const accruedCharges = allPendingBills.reduce((sum, bill) => {
+      const { fine, interest } = calculateAmountDue(bill, currentDate);
+      return sum + fine + interest;
+    }, 0);
+    const totalPending = allPendingBills.reduce((sum, bill) => sum + bill.amount, 0) + accruedCharges;
     const totalPaid = paidBills.reduce((sum, bill) => sum + bill.amount, 0);
     const totalPaidOverall = allPaidBills.reduce((sum, bill) => sum + bill.amount, 0);
 
@@ -225,6 +394,7 @@ const Index = () => {
 
     return {
       totalPending,
+      accruedCharges,
       totalPaid,
       totalPaidOverall,
       upcomingCount: upcomingBills.length
@@ -235,8 +405,9 @@ const Index = () => {
     const categoryMap = new Map<string, { amount: number; count: number }>();
     
     bills.forEach(bill => {
-      const current = categoryMap.get(bill.category) || { amount: 0, count: 0 } as { amount: number; count: number };
-      categoryMap.set(bill.category as string, {
+      const category = bill.category || FALLBACK_CATEGORY;
+      const current = categoryMap.get(category) || { amount: 0, count: 0 } as { amount: number; count: number };
+      categoryMap.set(category, {
         amount: current.amount + bill.amount,
         count: current.count + 1
       });
@@ -279,8 +450,30 @@ const Index = () => {
     });
   }, [bills, selectedMonth]);
 
-  const categories = useMemo(() => {
-    return Array.from(new Set(bills.map(bill => bill.category))).sort();
+  // Categorias do usuário, cada subcategoria logo após a mãe, mais as usadas em contas e já excluídas
+  const categoryOptions: CategoryOption[] = useMemo(() => {
+    const ordered = userCategories
+      .filter(category => !category.parentId || !userCategories.some(parent => parent.id === category.parentId))
+      .flatMap(category => [category, ...userCategories.filter(child => child.parentId === category.id)]);
+    const options = ordered.map(category => ({ ...category, label: getCategoryLabel(userCategories, category) }));
+    const known = new Set(options.map(option => option.name));
+    const legacy = Array.from(new Set(bills.map(bill => bill.category).filter(name => name && !known.has(name)))).sort();
+    return [
+      ...options,
+      ...legacy.map(name => ({ name, label: name, color: DEFAULT_CATEGORY_COLOR, icon: DEFAULT_CATEGORY_ICON })),
+    ];
+  }, [bills, userCategories]);
+
+  // Filtrar por uma categoria-mãe inclui as subcategorias
+  const selectedCategoryNames = useMemo(() => {
+    if (!selectedCategory) return null;
+    const selected = userCategories.find(category => category.name === selectedCategory);
+    const children = selected ? userCategories.filter(category => category.parentId === selected.id) : [];
+    return new Set([selectedCategory, ...children.map(category => category.name)]);
+  }, [selectedCategory, userCategories]);
+
+  const banks = useMemo(() => {
+    return Array.from(new Set(bills.map(bill => bill.issuerBank).filter(Boolean))).sort();
   }, [bills]);
 
   const formatCurrency = (amount: number) => {
@@ -302,13 +495,26 @@ const Index = () => {
     addBillMutation.mutate(newBill);
   };
 
+  const handleAddInstallments = (newBills: Omit<Bill, "id" | "status">[]) => {
+    addInstallmentsMutation.mutate(newBills);
+  };
+
+  const handleSaveBills = (newBills: Omit<Bill, "id" | "status">[]) => addBillsMutation.mutateAsync(newBills);
+
+  const handleMergeBill = (billId: string, patch: Partial<Omit<Bill, "id" | "status">>) => {
+    mergeBillMutation.mutate({ billId, patch });
+  };
+
   const filteredBills = useMemo(() => {
     let result = selectedMonth ? filteredBillsByMonth : bills;
-    if (selectedCategory) {
-      result = result.filter(bill => bill.category === selectedCategory);
+    if (selectedCategoryNames) {
+      result = result.filter(bill => selectedCategoryNames.has(bill.category));
+    }
+    if (selectedBank) {
+      result = result.filter(bill => bill.issuerBank === selectedBank);
     }
     return result;
-  }, [bills, selectedCategory, selectedMonth, filteredBillsByMonth]);
+  }, [bills, selectedCategoryNames, selectedBank, selectedMonth, filteredBillsByMonth]);
 
   const pendingBills = filteredBills.filter(bill => bill.status === "pending")
     .sort((a, b) => new Date(a.dueDate).getTime() - new Date(b.dueDate).getTime());
@@ -378,7 +584,13 @@ const Index = () => {
               {/* Action buttons - stack on mobile, inline on larger screens */}
               <div className="flex flex-col sm:flex-row gap-1 sm:gap-2">
                 <ReportModal bills={bills} />
-                <AddBillModal onAddBill={handleAddBill} />
+                <BatchUploadModal onSaveBills={handleSaveBills} bills={bills} />
+                <AddBillModal
+                  onAddBill={handleAddBill}
+                  onAddInstallments={handleAddInstallments}
+                  onMergeBill={handleMergeBill}
+                  bills={bills}
+                />
               </div>
             </div>
           </div>
@@ -393,7 +605,9 @@ const Index = () => {
             title="Total a Pagar"
             value={formatCurrency(stats.totalPending)}
             icon={<DollarSign className="h-4 w-4" />}
-            description="Soma das contas pendentes"
+            description={stats.accruedCharges > 0
+              ? `Inclui ${formatCurrency(stats.accruedCharges)} de multa e juros`
+              : "Soma das contas pendentes"}
           />
           <StatsCard
             title="Total Pago (Mês)"
@@ -415,12 +629,17 @@ const Index = () => {
           />
         </div>
 
+        <BarcodeConflictsAlert bills={bills} onKeep={(billId) => resolveBarcodeConflictMutation.mutateAsync(billId)} />
+
         {/* Filters */}
         <div className="flex flex-col sm:flex-row gap-2 sm:items-center sm:justify-between mb-6">
           <CategoryFilter 
-            categories={categories}
+            categories={categoryOptions}
             selectedCategory={selectedCategory}
             onCategoryChange={setSelectedCategory}
+            banks={banks}
+            selectedBank={selectedBank}
+            onBankChange={setSelectedBank}
             selectedMonth={selectedMonth}
             onMonthChange={setSelectedMonth}
           />
@@ -451,8 +670,8 @@ const Index = () => {
           {/* Right Column */}
           <div className="space-y-6">
             <PaymentChart data={paymentHistoryData} />
-            <CategoryChart data={categoryData} />
-            <TotalSpendingByCategory data={categoryData} />
+            <CategoryChart data={categoryData} categories={userCategories} />
+            <TotalSpendingByCategory data={categoryData} categories={userCategories} />
           </div>
         </div>
       </main>
@@ -1,4 +1,4 @@
-import { useState, useEffect } from "react";
+import { useState, useEffect, useCallback } from "react";
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
 import { Button } from "@/components/ui/button";
 import { Input } from "@/components/ui/input";
@@ -18,10 +18,22 @@ import {
   Key,
   ArrowLeft,
   Clock,
-  CheckCircle
+  CheckCircle,
+  Server,
+  ArrowUp,
+  ArrowDown,
+  History
 } from "lucide-react";
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
-import { AI_PROVIDERS, type AIProvider } from "@/lib/ai-providers";
+import { type AIProvider } from "@/lib/ai-providers";
+import { getProvider, getServerKeyProvider, listProviders, resolveModel, SERVER_PROVIDER_ID } from "@/lib/providers";
+import { DEFAULT_BATCH_CONCURRENCY, MAX_BATCH_CONCURRENCY } from "@/lib/bill-queue";
+import { clearAnalysisCache, DEFAULT_CACHE_TTL_DAYS } from "@/lib/analysis-cache";
+import { deleteServerKey, getServerKeyStatus, saveServerKey, type ServerKeyStatus } from "@/lib/server-ai-keys";
+import { AI_KEY_SECRET, getFallbackSecretName, getVaultSecret, hasVaultSecret, setVaultSecrets } from "@/lib/settings-vault";
+import { useVault } from "@/hooks/use-vault";
+import { VaultSettingsCard } from "@/components/VaultSettingsCard";
+import { CategoryManager } from "@/components/CategoryManager";
 import { Link } from "react-router-dom";
 
 interface EmailRecipient {
@@ -35,12 +47,26 @@ interface WhatsAppContact {
   phone: string;
 }
 
+// Provedor tentado quando os anteriores da lista falham, com chave própria
+interface FallbackProvider {
+  id: string;
+  provider: AIProvider;
+  apiKey: string;
+  baseUrl: string;
+}
+
 interface SettingsData {
   notificationsEnabled: boolean;
   emailRecipients: EmailRecipient[];
   whatsappContacts: WhatsAppContact[];
   aiApiKey: string;
-  aiProvider: 'openai' | 'gemini' | 'claude';
+  aiProvider: AIProvider;
+  aiBaseUrl: string; // Endpoint compatível com OpenAI (servidor local)
+  aiModels: Record<string, string>; // Modelo escolhido por provedor
+  aiFallbacks: FallbackProvider[];
+  batchConcurrency: number; // Arquivos analisados ao mesmo tempo na importação em lote
+  analysisCacheTtlDays: number; // Validade das análises em cache; 0 desativa
+  analysisCacheSync: boolean; // Cache também no Supabase, compartilhado entre dispositivos
   reminderDaysBefore: number[];
   paymentNotificationsEnabled: boolean;
 }
@@ -53,6 +79,12 @@ const Settings = () => {
     whatsappContacts: [],
     aiApiKey: "",
     aiProvider: 'openai',
+    aiBaseUrl: "",
+    aiModels: {},
+    aiFallbacks: [],
+    batchConcurrency: DEFAULT_BATCH_CONCURRENCY,
+    analysisCacheTtlDays: DEFAULT_CACHE_TTL_DAYS,
+    analysisCacheSync: false,
     reminderDaysBefore: [1],
     paymentNotificationsEnabled: true
   });
@@ -62,6 +94,32 @@ const Settings = () => {
   const [newContactName, setNewContactName] = useState("");
   const [newContactPhone, setNewContactPhone] = useState("");
   const [apiKey, setApiKey] = useState("");
+  const vault = useVault();
+  // Com o cofre bloqueado as chaves não podem ser lidas nem alteradas
+  const keysLocked = vault.enabled && !vault.unlocked;
+
+  // Modelos descontinuados encontrados nas configurações salvas e trocados pelo substituto
+  const [replacedModels, setReplacedModels] = useState<Record<string, string>>({});
+  const [isCustomModel, setIsCustomModel] = useState(false);
+
+  const [serverKeyStatus, setServerKeyStatus] = useState<ServerKeyStatus | null>(null);
+  const [serverKeyError, setServerKeyError] = useState<string | null>(null);
+  const [serverApiKey, setServerApiKey] = useState("");
+  const [isSavingServerKey, setIsSavingServerKey] = useState(false);
+
+  const selectedProvider = getProvider(settings.aiProvider) ?? listProviders()[0];
+  const selectedModel = settings.aiModels[selectedProvider.id] || selectedProvider.defaultModel;
+  const showCustomModel = isCustomModel || !selectedProvider.supportedModels.includes(selectedModel);
+
+  // Análise pelo servidor: a chave fica criptografada no Supabase, não no navegador
+  const usesServerProvider = selectedProvider.id === SERVER_PROVIDER_ID;
+  const serverKeyProvider = usesServerProvider ? getServerKeyProvider(selectedModel) : null;
+  const serverKeyProviderName = serverKeyProvider ? getProvider(serverKeyProvider)?.displayName ?? serverKeyProvider : "";
+  const savedServerKey = serverKeyStatus?.keys.find(key => key.provider === serverKeyProvider);
+
+  const setProviderModel = (model: string) => {
+    setSettings(prev => ({ ...prev, aiModels: { ...prev.aiModels, [selectedProvider.id]: model } }));
+  };
 
   // Load settings from localStorage on component mount
   useEffect(() => {
@@ -69,12 +127,47 @@ const Settings = () => {
     if (savedSettings) {
       try {
         const parsed = JSON.parse(savedSettings) as any;
+
+        // aiModel (um único modelo) era usado apenas pelo endpoint compatível com OpenAI
+        const savedModels: Record<string, string> = {
+          ...(parsed?.aiModel ? { "openai-compatible": parsed.aiModel } : {}),
+          ...(parsed?.aiModels ?? {}),
+        };
+        const aiModels: Record<string, string> = {};
+        const replaced: Record<string, string> = {};
+        Object.entries(savedModels).forEach(([providerId, model]) => {
+          const provider = getProvider(providerId);
+          const resolved = provider ? resolveModel(provider, model) : model;
+          if (resolved !== model) replaced[providerId] = model;
+          aiModels[providerId] = resolved;
+        });
+        setReplacedModels(replaced);
+
         const normalized: SettingsData = {
           notificationsEnabled: parsed?.notificationsEnabled ?? true,
           emailRecipients: Array.isArray(parsed?.emailRecipients) ? parsed.emailRecipients : [],
           whatsappContacts: Array.isArray(parsed?.whatsappContacts) ? parsed.whatsappContacts : [],
           aiApiKey: parsed?.aiApiKey ?? "",
-          aiProvider: parsed?.aiProvider ?? 'openai',
+          aiProvider: parsed?.aiProvider && getProvider(parsed.aiProvider) ? parsed.aiProvider : 'openai',
+          aiBaseUrl: parsed?.aiBaseUrl ?? "",
+          aiModels,
+          aiFallbacks: Array.isArray(parsed?.aiFallbacks)
+            ? parsed.aiFallbacks
+                .filter((fallback: Partial<FallbackProvider>) => fallback?.provider && getProvider(fallback.provider))
+                .map((fallback: Partial<FallbackProvider>, index: number) => ({
+                  id: fallback.id ?? `${Date.now()}-${index}`,
+                  provider: fallback.provider,
+                  apiKey: fallback.apiKey ?? "",
+                  baseUrl: fallback.baseUrl ?? "",
+                }))
+            : [],
+          batchConcurrency: Number.isInteger(parsed?.batchConcurrency)
+            ? Math.min(MAX_BATCH_CONCURRENCY, Math.max(1, parsed.batchConcurrency))
+            : DEFAULT_BATCH_CONCURRENCY,
+          analysisCacheTtlDays: typeof parsed?.analysisCacheTtlDays === "number" && parsed.analysisCacheTtlDays >= 0
+            ? parsed.analysisCacheTtlDays
+            : DEFAULT_CACHE_TTL_DAYS,
+          analysisCacheSync: parsed?.analysisCacheSync === true,
           reminderDaysBefore: Array.isArray(parsed?.reminderDaysBefore)
             ? parsed.reminderDaysBefore
             : typeof parsed?.reminderDaysBefore === "number"
@@ -90,17 +183,171 @@ const Settings = () => {
     }
   }, []);
 
-  // Save settings to localStorage
-  const saveSettings = () => {
-    const updatedSettings = { ...settings, aiApiKey: apiKey };
-    localStorage.setItem("finanscan-settings", JSON.stringify(updatedSettings));
+  const loadServerKeyStatus = useCallback(async () => {
+    try {
+      setServerKeyStatus(await getServerKeyStatus());
+      setServerKeyError(null);
+    } catch (error) {
+      setServerKeyError(error instanceof Error ? error.message : "Erro desconhecido");
+    }
+  }, []);
+
+  useEffect(() => {
+    if (usesServerProvider) loadServerKeyStatus();
+  }, [usesServerProvider, loadServerKeyStatus]);
+
+  // Chaves exibidas no formulário: do cofre quando ativo (vazias enquanto bloqueado) ou das configurações salvas
+  useEffect(() => {
+    let saved: { aiApiKey?: string; aiFallbacks?: Partial<FallbackProvider>[] } = {};
+    try {
+      saved = JSON.parse(localStorage.getItem("finanscan-settings") || "{}");
+    } catch (e) {
+      // Configurações inválidas: mantém os campos vazios
+    }
+    const readKey = (secretName: string, plaintext?: string) =>
+      vault.enabled ? getVaultSecret(secretName) ?? "" : plaintext ?? "";
+    setApiKey(readKey(AI_KEY_SECRET, saved.aiApiKey));
+    setSettings(prev => ({
+      ...prev,
+      aiFallbacks: prev.aiFallbacks.map(fallback => ({
+        ...fallback,
+        apiKey: readKey(
+          getFallbackSecretName(fallback.id),
+          saved.aiFallbacks?.find(savedFallback => savedFallback?.id === fallback.id)?.apiKey
+        ),
+      })),
+    }));
+  }, [vault.enabled, vault.unlocked]);
+
+  // Save settings to localStorage; com a análise pelo servidor, a chave local deixa de ser guardada.
+  // Com o cofre ativo as chaves são cifradas nele e as configurações guardam apenas campos vazios
+  const saveSettings = async () => {
+    const updatedSettings = { ...settings, aiApiKey: usesServerProvider ? "" : apiKey };
+    let storedSettings = updatedSettings;
+    if (vault.enabled) {
+      if (vault.unlocked) {
+        try {
+          await setVaultSecrets({
+            [AI_KEY_SECRET]: updatedSettings.aiApiKey,
+            ...Object.fromEntries(settings.aiFallbacks.map(fallback => [getFallbackSecretName(fallback.id), fallback.apiKey])),
+          });
+        } catch (error) {
+          toast({
+            variant: "destructive",
+            title: "Erro ao salvar as chaves no cofre",
+            description: error instanceof Error ? error.message : "Erro desconhecido",
+          });
+          return;
+        }
+      }
+      storedSettings = {
+        ...updatedSettings,
+        aiApiKey: "",
+        aiFallbacks: settings.aiFallbacks.map(fallback => ({ ...fallback, apiKey: "" })),
+      };
+    }
+    localStorage.setItem("finanscan-settings", JSON.stringify(storedSettings));
     setSettings(updatedSettings);
+    if (usesServerProvider) setApiKey("");
     toast({
       title: "Configurações salvas",
       description: "Todas as suas configurações foram salvas com sucesso.",
     });
   };
 
+  const handleSaveServerKey = async () => {
+    if (!serverKeyProvider || !serverApiKey.trim()) return;
+    setIsSavingServerKey(true);
+    try {
+      await saveServerKey(serverKeyProvider, serverApiKey.trim());
+      setServerApiKey("");
+      await loadServerKeyStatus();
+      toast({
+        title: "Chave salva no servidor",
+        description: `A chave ${serverKeyProviderName} foi criptografada e não fica mais no navegador.`,
+      });
+    } catch (error) {
+      toast({
+        variant: "destructive",
+        title: "Erro ao salvar a chave",
+        description: error instanceof Error ? error.message : "Erro desconhecido",
+      });
+    } finally {
+      setIsSavingServerKey(false);
+    }
+  };
+
+  const handleDeleteServerKey = async () => {
+    if (!serverKeyProvider) return;
+    try {
+      await deleteServerKey(serverKeyProvider);
+      await loadServerKeyStatus();
+      toast({
+        title: "Chave removida",
+        description: `A chave ${serverKeyProviderName} foi apagada do servidor.`,
+      });
+    } catch (error) {
+      toast({
+        variant: "destructive",
+        title: "Erro ao remover a chave",
+        description: error instanceof Error ? error.message : "Erro desconhecido",
+      });
+    }
+  };
+
+  const handleClearAnalysisCache = async () => {
+    try {
+      await clearAnalysisCache();
+      toast({
+        title: "Cache limpo",
+        description: "As próximas análises serão feitas novamente pela IA.",
+      });
+    } catch (error) {
+      toast({
+        variant: "destructive",
+        title: "Erro ao limpar o cache",
+        description: error instanceof Error ? error.message : "Erro desconhecido",
+      });
+    }
+  };
+
+  // Add fallback AI provider, sugerindo um que ainda não está na lista
+  const addFallbackProvider = () => {
+    setSettings(prev => {
+      const used = [prev.aiProvider, ...prev.aiFallbacks.map(fallback => fallback.provider)];
+      const provider = listProviders().find(definition => !used.includes(definition.id)) ?? listProviders()[0];
+      return {
+        ...prev,
+        aiFallbacks: [...prev.aiFallbacks, { id: Date.now().toString(), provider: provider.id, apiKey: "", baseUrl: "" }]
+      };
+    });
+  };
+
+  const updateFallbackProvider = (id: string, patch: Partial<FallbackProvider>) => {
+    setSettings(prev => ({
+      ...prev,
+      aiFallbacks: prev.aiFallbacks.map(fallback => fallback.id === id ? { ...fallback, ...patch } : fallback)
+    }));
+  };
+
+  // Move fallback provider up (-1) or down (+1) in the order of attempts
+  const moveFallbackProvider = (index: number, direction: -1 | 1) => {
+    setSettings(prev => {
+      const target = index + direction;
+      if (target < 0 || target >= prev.aiFallbacks.length) return prev;
+      const aiFallbacks = [...prev.aiFallbacks];
+      [aiFallbacks[index], aiFallbacks[target]] = [aiFallbacks[target], aiFallbacks[index]];
+      return { ...prev, aiFallbacks };
+    });
+  };
+
+  const removeFallbackProvider = (id: string) => {
+    setSettings(prev => ({
+      ...prev,
+      aiFallbacks: prev.aiFallbacks.filter(fallback => fallback.id !== id)
+    }));
+  };
+
   // Email validation
   const isValidEmail = (email: string) => {
     const emailRegex = /^[^\s@]+@[^\s@]+\.[^\s@]+$/;
@@ -522,16 +769,17 @@ const Settings = () => {
                 <Label htmlFor="ai-provider">Provedor de IA</Label>
                 <Select
                   value={settings.aiProvider}
-                  onValueChange={(value: AIProvider) =>
-                    setSettings(prev => ({ ...prev, aiProvider: value }))
-                  }
+                  onValueChange={(value: AIProvider) => {
+                    setSettings(prev => ({ ...prev, aiProvider: value }));
+                    setIsCustomModel(false);
+                  }}
                 >
                   <SelectTrigger>
                     <SelectValue placeholder="Selecione o provedor de IA" />
                   </SelectTrigger>
                   <SelectContent>
-                    {Object.entries(AI_PROVIDERS).map(([key, provider]) => (
-                      <SelectItem key={key} value={key}>
+                    {listProviders().map((provider) => (
+                      <SelectItem key={provider.id} value={provider.id}>
                         {provider.displayName}
                       </SelectItem>
                     ))}
@@ -542,63 +790,342 @@ const Settings = () => {
                 </p>
               </div>
 
-              <div className="space-y-2">
-                <Label htmlFor="api-key">
-                  Chave da API - {AI_PROVIDERS[settings.aiProvider].displayName}
-                </Label>
-                <div className="flex gap-2">
-                  <div className="flex-1">
-                    <Input
-                      id="api-key"
-                      type="password"
-                      placeholder={`Insira sua chave da API ${AI_PROVIDERS[settings.aiProvider].displayName}`}
-                      value={apiKey}
-                      onChange={(e) => setApiKey(e.target.value)}
-                    />
+              {selectedProvider.capabilities.requiresBaseUrl && (
+                <div className="space-y-2">
+                  <Label htmlFor="ai-base-url">URL do Endpoint</Label>
+                  <Input
+                    id="ai-base-url"
+                    placeholder="http://localhost:11434/v1"
+                    value={settings.aiBaseUrl}
+                    onChange={(e) => setSettings(prev => ({ ...prev, aiBaseUrl: e.target.value }))}
+                  />
+                  <div className="flex items-start gap-2">
+                    <Server className="h-3.5 w-3.5 text-muted-foreground mt-0.5 flex-shrink-0" />
+                    <p className="text-xs text-muted-foreground">
+                      Servidores compatíveis com a API da OpenAI, como Ollama, llama.cpp ou vLLM. Use um modelo com visão.
+                      Os boletos são enviados apenas para este endereço.
+                    </p>
                   </div>
-                  <Button variant="outline" className="shrink-0">
-                    <Key className="h-4 w-4 mr-1" />
-                    Validar
-                  </Button>
                 </div>
-                <div className="space-y-1">
-                  <p className="text-xs text-muted-foreground">
-                    Configure sua chave de API para análise automática de boletos usando {AI_PROVIDERS[settings.aiProvider].displayName}.
+              )}
+
+              <div className="space-y-2">
+                <Label htmlFor="ai-model">Modelo</Label>
+                <Select
+                  value={showCustomModel ? "custom" : selectedModel}
+                  onValueChange={(value) => {
+                    if (value === "custom") {
+                      setIsCustomModel(true);
+                      return;
+                    }
+                    setIsCustomModel(false);
+                    setProviderModel(value);
+                  }}
+                >
+                  <SelectTrigger id="ai-model">
+                    <SelectValue placeholder="Selecione o modelo" />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {selectedProvider.supportedModels.map((model) => (
+                      <SelectItem key={model} value={model}>
+                        {model}{model === selectedProvider.defaultModel ? " (padrão)" : ""}
+                      </SelectItem>
+                    ))}
+                    <SelectItem value="custom">Outro (ID personalizado)</SelectItem>
+                  </SelectContent>
+                </Select>
+                {showCustomModel && (
+                  <Input
+                    placeholder={`ID do modelo, ex: ${selectedProvider.defaultModel}`}
+                    value={settings.aiModels[selectedProvider.id] ?? ""}
+                    onChange={(e) => setProviderModel(e.target.value)}
+                  />
+                )}
+                {replacedModels[selectedProvider.id] && (
+                  <p className="text-xs text-amber-600">
+                    O modelo {replacedModels[selectedProvider.id]} foi descontinuado e substituído por {selectedModel}. Salve para confirmar.
                   </p>
-                  {settings.aiProvider === 'openai' && (
-                    <p className="text-xs text-blue-600">
-                      🔗 Obtenha sua chave em: <a href="https://platform.openai.com/api-keys" target="_blank" rel="noopener noreferrer" className="underline">platform.openai.com/api-keys</a>
+                )}
+                <p className="text-xs text-muted-foreground">
+                  Modelo usado na análise de boletos com {selectedProvider.displayName}
+                </p>
+              </div>
+
+              {usesServerProvider ? (
+                <div className="space-y-2">
+                  <Label htmlFor="server-api-key">
+                    Chave da API{serverKeyProviderName && ` - ${serverKeyProviderName}`} (guardada no servidor)
+                  </Label>
+                  {serverKeyProvider ? (
+                    <>
+                      <div className="flex gap-2">
+                        <Input
+                          id="server-api-key"
+                          type="password"
+                          placeholder={savedServerKey ? "Insira uma nova chave para substituir a atual" : `Insira sua chave da API ${serverKeyProviderName}`}
+                          value={serverApiKey}
+                          onChange={(e) => setServerApiKey(e.target.value)}
+                        />
+                        <Button
+                          variant="outline"
+                          className="shrink-0"
+                          onClick={handleSaveServerKey}
+                          disabled={!serverApiKey.trim() || isSavingServerKey}
+                        >
+                          <Key className="h-4 w-4 mr-1" />
+                          Salvar no servidor
+                        </Button>
+                      </div>
+                      {savedServerKey ? (
+                        <div className="p-3 bg-muted/30 rounded-lg flex items-center justify-between gap-2">
+                          <div className="flex items-center gap-2">
+                            <Key className="h-4 w-4 text-green-600" />
+                            <span className="text-sm text-green-600">
+                              Chave terminada em {savedServerKey.hint} salva no servidor
+                            </span>
+                          </div>
+                          <Button variant="ghost" size="sm" onClick={handleDeleteServerKey}>
+                            <Trash2 className="h-4 w-4" />
+                          </Button>
+                        </div>
+                      ) : (
+                        <p className="text-xs text-muted-foreground">
+                          {serverKeyStatus?.projectKeys.includes(serverKeyProvider)
+                            ? "Sem chave própria: as análises usam a chave do projeto, com limite de análises por hora."
+                            : "Nenhuma chave salva. Salve a sua para analisar boletos com este modelo."}
+                        </p>
+                      )}
+                    </>
+                  ) : (
+                    <p className="text-xs text-muted-foreground">
+                      O modelo {selectedModel} usa apenas as chaves configuradas no servidor.
                     </p>
                   )}
-                  {settings.aiProvider === 'gemini' && (
-                    <p className="text-xs text-blue-600">
-                      🔗 Obtenha sua chave em: <a href="https://makersuite.google.com/app/apikey" target="_blank" rel="noopener noreferrer" className="underline">makersuite.google.com/app/apikey</a>
-                    </p>
+                  {serverKeyError && (
+                    <p className="text-xs text-destructive">Não foi possível consultar as chaves do servidor: {serverKeyError}</p>
                   )}
-                  {settings.aiProvider === 'claude' && (
-                    <p className="text-xs text-blue-600">
-                      🔗 Obtenha sua chave em: <a href="https://console.anthropic.com/" target="_blank" rel="noopener noreferrer" className="underline">console.anthropic.com</a>
+                  <div className="flex items-start gap-2">
+                    <Server className="h-3.5 w-3.5 text-muted-foreground mt-0.5 flex-shrink-0" />
+                    <p className="text-xs text-muted-foreground">
+                      Os boletos são analisados pelo servidor do app. A chave é criptografada e nunca volta ao navegador;
+                      a chave salva antes neste dispositivo é apagada ao salvar as configurações.
                     </p>
+                  </div>
+                </div>
+              ) : (
+                <>
+                  <div className="space-y-2">
+                    <Label htmlFor="api-key">
+                      Chave da API - {selectedProvider.displayName}
+                      {!selectedProvider.capabilities.requiresApiKey && " (opcional)"}
+                    </Label>
+                    <div className="flex gap-2">
+                      <div className="flex-1">
+                        <Input
+                          id="api-key"
+                          type="password"
+                          placeholder={keysLocked ? "Desbloqueie o cofre para ver ou alterar a chave" : `Insira sua chave da API ${selectedProvider.displayName}`}
+                          value={apiKey}
+                          onChange={(e) => setApiKey(e.target.value)}
+                          disabled={keysLocked}
+                        />
+                      </div>
+                      <Button variant="outline" className="shrink-0">
+                        <Key className="h-4 w-4 mr-1" />
+                        Validar
+                      </Button>
+                    </div>
+                    <div className="space-y-1">
+                      <p className="text-xs text-muted-foreground">
+                        Configure sua chave de API para análise automática de boletos usando {selectedProvider.displayName}.
+                      </p>
+                      {selectedProvider.apiKeyUrl && (
+                        <p className="text-xs text-blue-600">
+                          🔗 Obtenha sua chave em: <a href={selectedProvider.apiKeyUrl} target="_blank" rel="noopener noreferrer" className="underline">{selectedProvider.apiKeyUrl.replace(/^https:\/\//, "").replace(/\/$/, "")}</a>
+                        </p>
+                      )}
+                    </div>
+                  </div>
+
+                  {(apiKey || (keysLocked && hasVaultSecret(AI_KEY_SECRET))) && (
+                    <div className="p-3 bg-muted/30 rounded-lg">
+                      <div className="flex items-center gap-2">
+                        <Key className="h-4 w-4 text-green-600" />
+                        <span className="text-sm text-green-600">
+                          Chave da API {selectedProvider.displayName} configurada
+                        </span>
+                        <Badge variant="secondary" className="text-xs">
+                          {vault.enabled ? "No cofre" : "Ativa"}
+                        </Badge>
+                      </div>
+                    </div>
                   )}
+                </>
+              )}
+
+              <Separator />
+
+              <div className="space-y-3">
+                <div className="flex items-center justify-between gap-2">
+                  <div className="space-y-1">
+                    <Label className="text-base font-medium">Provedores reserva</Label>
+                    <p className="text-sm text-muted-foreground">
+                      Tentados em ordem quando {selectedProvider.displayName} falha por cota esgotada, indisponibilidade ou chave inválida
+                    </p>
+                  </div>
+                  <Button variant="outline" size="sm" onClick={addFallbackProvider} className="shrink-0">
+                    <Plus className="h-4 w-4 mr-1" />
+                    Adicionar
+                  </Button>
+                </div>
+
+                {settings.aiFallbacks.map((fallback, index) => {
+                  const definition = getProvider(fallback.provider) ?? listProviders()[0];
+                  return (
+                    <div key={fallback.id} className="p-3 bg-muted/30 rounded-lg space-y-2">
+                      <div className="flex items-center gap-2">
+                        <Badge variant="secondary" className="text-xs shrink-0">
+                          {index + 2}º
+                        </Badge>
+                        <Select
+                          value={fallback.provider}
+                          onValueChange={(value: AIProvider) => updateFallbackProvider(fallback.id, { provider: value })}
+                        >
+                          <SelectTrigger className="flex-1">
+                            <SelectValue placeholder="Selecione o provedor de IA" />
+                          </SelectTrigger>
+                          <SelectContent>
+                            {listProviders().map((provider) => (
+                              <SelectItem key={provider.id} value={provider.id}>
+                                {provider.displayName}
+                              </SelectItem>
+                            ))}
+                          </SelectContent>
+                        </Select>
+                        <Button
+                          variant="ghost"
+                          size="sm"
+                          disabled={index === 0}
+                          onClick={() => moveFallbackProvider(index, -1)}
+                        >
+                          <ArrowUp className="h-4 w-4" />
+                        </Button>
+                        <Button
+                          variant="ghost"
+                          size="sm"
+                          disabled={index === settings.aiFallbacks.length - 1}
+                          onClick={() => moveFallbackProvider(index, 1)}
+                        >
+                          <ArrowDown className="h-4 w-4" />
+                        </Button>
+                        <Button
+                          variant="ghost"
+                          size="sm"
+                          onClick={() => removeFallbackProvider(fallback.id)}
+                          className="text-destructive hover:text-destructive"
+                        >
+                          <Trash2 className="h-4 w-4" />
+                        </Button>
+                      </div>
+                      {definition.capabilities.requiresBaseUrl && (
+                        <Input
+                          placeholder="http://localhost:11434/v1"
+                          value={fallback.baseUrl}
+                          onChange={(e) => updateFallbackProvider(fallback.id, { baseUrl: e.target.value })}
+                        />
+                      )}
+                      {/* O servidor usa as chaves guardadas nele, nunca uma chave do navegador */}
+                      {fallback.provider !== SERVER_PROVIDER_ID && (
+                        <Input
+                          type="password"
+                          placeholder={keysLocked
+                            ? hasVaultSecret(getFallbackSecretName(fallback.id)) ? "Chave guardada no cofre bloqueado" : "Desbloqueie o cofre para alterar a chave"
+                            : `Chave da API ${definition.displayName}${definition.capabilities.requiresApiKey ? "" : " (opcional)"}`}
+                          value={fallback.apiKey}
+                          onChange={(e) => updateFallbackProvider(fallback.id, { apiKey: e.target.value })}
+                          disabled={keysLocked}
+                        />
+                      )}
+                    </div>
+                  );
+                })}
+
+                {settings.aiFallbacks.length > 0 && (
+                  <p className="text-xs text-muted-foreground">
+                    Cada provedor usa o modelo escolhido para ele acima. Provedores sem chave ou endpoint são ignorados.
+                  </p>
+                )}
+              </div>
+
+              <Separator />
+
+              <div className="space-y-2">
+                <Label>Análises simultâneas na importação em lote</Label>
+                <div className="flex gap-2 flex-wrap">
+                  {Array.from({ length: MAX_BATCH_CONCURRENCY }, (_, index) => index + 1).map((count) => (
+                    <Button
+                      key={count}
+                      variant={settings.batchConcurrency === count ? "default" : "outline"}
+                      size="sm"
+                      onClick={() => setSettings(prev => ({ ...prev, batchConcurrency: count }))}
+                    >
+                      {count}
+                    </Button>
+                  ))}
                 </div>
+                <p className="text-xs text-muted-foreground">
+                  Mais arquivos ao mesmo tempo deixam a importação mais rápida, mas atingem antes o limite de requisições do provedor
+                </p>
               </div>
 
-              {apiKey && (
-                <div className="p-3 bg-muted/30 rounded-lg">
-                  <div className="flex items-center gap-2">
-                    <Key className="h-4 w-4 text-green-600" />
-                    <span className="text-sm text-green-600">
-                      Chave da API {AI_PROVIDERS[settings.aiProvider].displayName} configurada
-                    </span>
-                    <Badge variant="secondary" className="text-xs">
-                      Ativa
-                    </Badge>
+              <Separator />
+
+              <div className="space-y-3">
+                <Label className="flex items-center gap-2">
+                  <History className="h-4 w-4" />
+                  Cache de análises
+                </Label>
+                <div className="flex gap-2 flex-wrap">
+                  {[0, 7, 30, 90].map((days) => (
+                    <Button
+                      key={days}
+                      variant={settings.analysisCacheTtlDays === days ? "default" : "outline"}
+                      size="sm"
+                      onClick={() => setSettings(prev => ({ ...prev, analysisCacheTtlDays: days }))}
+                    >
+                      {days === 0 ? "Desativado" : `${days} dias`}
+                    </Button>
+                  ))}
+                </div>
+                <p className="text-xs text-muted-foreground">
+                  Reenviar o mesmo arquivo reaproveita a análise anterior do mesmo provedor e modelo, sem nova cobrança
+                </p>
+                <div className="flex items-center justify-between gap-3">
+                  <div className="space-y-0.5">
+                    <Label htmlFor="analysis-cache-sync">Sincronizar entre dispositivos</Label>
+                    <p className="text-xs text-muted-foreground">
+                      Guarda as análises também na sua conta, para valerem em outros navegadores
+                    </p>
                   </div>
+                  <Switch
+                    id="analysis-cache-sync"
+                    checked={settings.analysisCacheSync}
+                    disabled={settings.analysisCacheTtlDays === 0}
+                    onCheckedChange={(checked) => setSettings(prev => ({ ...prev, analysisCacheSync: checked }))}
+                  />
                 </div>
-              )}
+                <Button variant="outline" size="sm" onClick={handleClearAnalysisCache}>
+                  <Trash2 className="h-4 w-4 mr-2" />
+                  Limpar cache de análises
+                </Button>
+              </div>
             </CardContent>
           </Card>
 
+          <VaultSettingsCard />
+
+          <CategoryManager />
+
           <Separator />
 
           {/* Save Button */}
@@ -0,0 +1,46 @@
+// Criptografia das chaves de API dos usuários (AES-GCM). A chave mestra fica no
+// secret AI_KEYS_ENCRYPTION_KEY (32 bytes em base64) e nunca é gravada no banco.
+import { decodeBase64, encodeBase64 } from 'jsr:@std/encoding@1/base64';
+import { HttpError } from './http.ts';
+
+export interface EncryptedSecret {
+  ciphertext: string; // base64
+  iv: string; // base64, 12 bytes aleatórios por gravação
+}
+
+const encoder = new TextEncoder();
+const decoder = new TextDecoder();
+
+let masterKey: Promise<CryptoKey> | null = null;
+
+const getMasterKey = (): Promise<CryptoKey> => {
+  if (!masterKey) {
+    const raw = Deno.env.get('AI_KEYS_ENCRYPTION_KEY');
+    const bytes = raw ? decodeBase64(raw) : null;
+    if (!bytes || bytes.length !== 32) {
+      throw new HttpError(500, 'encryption_not_configured', 'Chaves próprias indisponíveis: AI_KEYS_ENCRYPTION_KEY não configurada no servidor');
+    }
+    masterKey = crypto.subtle.importKey('raw', bytes, 'AES-GCM', false, ['encrypt', 'decrypt']);
+  }
+  return masterKey;
+};
+
+// O user_id entra como dado autenticado: o texto cifrado de um usuário não serve para outro
+export const encryptSecret = async (plaintext: string, userId: string): Promise<EncryptedSecret> => {
+  const iv = crypto.getRandomValues(new Uint8Array(12));
+  const encrypted = await crypto.subtle.encrypt(
+    { name: 'AES-GCM', iv, additionalData: encoder.encode(userId) },
+    await getMasterKey(),
+    encoder.encode(plaintext)
+  );
+  return { ciphertext: encodeBase64(new Uint8Array(encrypted)), iv: encodeBase64(iv) };
+};
+
+export const decryptSecret = async ({ ciphertext, iv }: EncryptedSecret, userId: string): Promise<string> => {
+  const decrypted = await crypto.subtle.decrypt(
+    { name: 'AES-GCM', iv: decodeBase64(iv), additionalData: encoder.encode(userId) },
+    await getMasterKey(),
+    decodeBase64(ciphertext)
+  );
+  return decoder.decode(decrypted);
+};
@@ -0,0 +1,48 @@
+// Respostas das Edge Functions: CORS para o app e erros no formato { error: { message, code } },
+// o mesmo das APIs de IA, para o cliente tratá-los como os de qualquer provedor
+
+export const corsHeaders = {
+  'Access-Control-Allow-Origin': '*',
+  'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type',
+  'Access-Control-Allow-Methods': 'GET, POST, PUT, DELETE, OPTIONS',
+  'Access-Control-Expose-Headers': 'Retry-After',
+};
+
+export class HttpError extends Error {
+  readonly status: number;
+  readonly code: string;
+  readonly headers?: Record<string, string>;
+
+  constructor(status: number, code: string, message: string, headers?: Record<string, string>) {
+    super(message);
+    this.name = 'HttpError';
+    this.status = status;
+    this.code = code;
+    this.headers = headers;
+  }
+}
+
+export const jsonResponse = (body: unknown, status = 200, headers: Record<string, string> = {}): Response =>
+  new Response(JSON.stringify(body), {
+    status,
+    headers: { ...corsHeaders, ...headers, 'Content-Type': 'application/json' },
+  });
+
+export const errorResponse = (error: unknown): Response => {
+  if (error instanceof HttpError) {
+    return jsonResponse({ error: { message: error.message, code: error.code } }, error.status, error.headers);
+  }
+  console.error('Erro inesperado:', error);
+  return jsonResponse({ error: { message: 'Erro interno do servidor', code: 'internal_error' } }, 500);
+};
+
+// Trata o preflight e converte qualquer exceção do handler em resposta JSON
+export const serveJson = (handler: (req: Request) => Promise<Response>) =>
+  Deno.serve(async (req) => {
+    if (req.method === 'OPTIONS') return new Response('ok', { headers: corsHeaders });
+    try {
+      return await handler(req);
+    } catch (error) {
+      return errorResponse(error);
+    }
+  });
@@ -0,0 +1,83 @@
+// Prompt da análise de boletos, único para o app (src/lib/analysis-prompt.ts) e para a
+// Edge Function analyze-bill. Sem imports nem APIs do Deno ou do navegador, para rodar
+// nos dois lados; o servidor recusa análises pedidas com outra ANALYSIS_PROMPT_VERSION.
+
+// Versão do prompt e do schema de resposta; ao mudar qualquer um, as análises em cache deixam de valer
+export const ANALYSIS_PROMPT_VERSION = 3;
+
+// Categoria genérica: sempre existe e recebe as contas sem categoria
+export const FALLBACK_CATEGORY = 'Outros';
+
+// Categorias criadas para novos usuários, usadas no prompt enquanto o usuário não tem as suas
+export const DEFAULT_CATEGORY_NAMES = [
+  'Aluguel',
+  'Condomínio',
+  'Energia',
+  'Água',
+  'Gás',
+  'Internet',
+  'Mercado',
+  'Impostos',
+  FALLBACK_CATEGORY,
+] as const;
+
+// Lista para o prompt, terminando sempre na categoria genérica
+export const formatCategoryNames = (names: readonly string[]): string => {
+  const listed = names.filter((name) => name !== FALLBACK_CATEGORY);
+  return listed.length > 0 ? `${listed.join(', ')}, ou ${FALLBACK_CATEGORY}` : FALLBACK_CATEGORY;
+};
+
+// categoryNames: categorias cadastradas pelo usuário; sem elas valem as padrão
+export const getAnalysisPrompt = (isPDF: boolean, categoryNames: readonly string[] = []): string => {
+  const fileType = isPDF ? 'PDF de um boleto bancário' : 'imagem de um boleto bancário';
+  const categories = formatCategoryNames(categoryNames.length > 0 ? categoryNames : DEFAULT_CATEGORY_NAMES);
+
+  return `Leia este ${fileType} brasileiro e extraia as informações.
+
+PRIMEIRO: Gere um resumo detalhado com as seguintes informações:
+1. Favorecido/Beneficiário: [nome completo da empresa ou pessoa]
+2. Valor (em reais): [valor total a ser pago]
+3. Data de Vencimento: [data limite para pagamento no formato DD/MM/AAAA]
+4. Categoria: [classifique em: ${categories}]
+5. Código de barras (linha digitável): [apenas números, sem espaços ou pontos - geralmente 44 a 48 dígitos]
+6. PIX copia e cola: [texto do código PIX impresso no boleto, começando com 000201, se houver]
+7. Multa, juros e desconto: [condições para pagamento após o vencimento ou antecipado, nas instruções do boleto]
+
+SEGUNDO: Com base nesse resumo, retorne um objeto JSON válido:
+{
+  "beneficiary": "nome_completo_do_beneficiário",
+  "amount": valor_numérico_sem_formatação,
+  "dueDate": "YYYY-MM-DD",
+  "category": "categoria_apropriada",
+  "confidence": valor_entre_0_e_1,
+  "summary": "resumo_textual_das_informações_extraídas",
+  "barcode": "string_com_apenas_números_da_linha_digitável",
+  "pixPayload": "texto_completo_do_pix_copia_e_cola",
+  "finePercent": percentual_da_multa,
+  "dailyInterestPercent": percentual_de_juros_ao_dia,
+  "discountAmount": valor_do_desconto_em_reais,
+  "discountUntil": "YYYY-MM-DD",
+  "fields": {
+    "beneficiary": { "confidence": valor_entre_0_e_1, "page": 1, "x": 0.05, "y": 0.12, "width": 0.4, "height": 0.02 },
+    "amount": { ... },
+    "dueDate": { ... },
+    "barcode": { ... },
+    "category": { "confidence": valor_entre_0_e_1 }
+  }
+}
+
+INSTRUÇÕES:
+1. Para "amount": use apenas números (ex: 125.50)
+2. Para "dueDate": sempre formato YYYY-MM-DD
+3. Para "category": use exatamente um dos nomes da lista de categorias acima
+4. Para "confidence": avalie a clareza do arquivo (0.0 a 1.0)
+5. Para "summary": inclua o resumo detalhado das informações encontradas
+6. Para "barcode": retorne somente os números da linha digitável, sem espaços, pontos ou hífens. Se não conseguir identificar com confiança, deixe vazio ou omita.
+7. Para "pixPayload": copie exatamente o texto do PIX copia e cola, caractere por caractere, sem quebras de linha. Não tente ler o QR Code. Se não houver o texto impresso, omita.
+8. Para "finePercent": percentual da multa por atraso (ex: "multa de 2%" = 2). Se a multa vier em reais, converta para percentual do valor.
+9. Para "dailyInterestPercent": juros de mora em % ao dia. Converta juros mensais dividindo por 30 (ex: "1% ao mês" = 0.0333) e valores em reais por dia para percentual do valor (ex: R$ 0,10 ao dia em boleto de R$ 100,00 = 0.1).
+10. Para "discountAmount" e "discountUntil": valor do desconto em reais e data limite para obtê-lo. Omita os campos de multa, juros e desconto que não estiverem no boleto.
+11. Para "fields": informe para beneficiary, amount, dueDate, barcode e category a certeza da leitura daquele campo (0.0 a 1.0) e, quando o valor estiver impresso, a caixa onde ele aparece: "page" (começando em 1), "x" e "y" do canto superior esquerdo, "width" e "height", todos como fração da largura e altura da página (0.0 a 1.0). Use certeza baixa para campos borrados, cortados ou deduzidos. Omita a caixa quando não souber onde o valor está.
+
+Retorne SOMENTE o objeto JSON final.`;
+};
@@ -0,0 +1,34 @@
+// Limite de análises por usuário, contado no banco (public.consume_ai_quota)
+import { HttpError } from './http.ts';
+import { getAdminClient } from './supabase.ts';
+
+const DEFAULT_LIMIT_PER_HOUR = 30;
+const WINDOW_SECONDS = 60 * 60;
+
+const getLimitPerHour = (): number => {
+  const value = Number(Deno.env.get('AI_RATE_LIMIT_PER_HOUR'));
+  return Number.isInteger(value) && value > 0 ? value : DEFAULT_LIMIT_PER_HOUR;
+};
+
+// Registra a análise ou lança 429 com o Retry-After até a próxima vaga
+export const consumeAnalysisQuota = async (userId: string, provider: string, model: string): Promise<void> => {
+  const limit = getLimitPerHour();
+  const { data, error } = await getAdminClient().rpc('consume_ai_quota', {
+    p_user_id: userId,
+    p_provider: provider,
+    p_model: model,
+    p_limit: limit,
+    p_window_seconds: WINDOW_SECONDS,
+  });
+  if (error) throw new Error(`Erro ao verificar o limite de análises: ${error.message}`);
+
+  const retryAfterSeconds = Number(data);
+  if (retryAfterSeconds > 0) {
+    throw new HttpError(
+      429,
+      'rate_limited',
+      `Limite de ${limit} análises por hora atingido. Tente novamente em ${Math.ceil(retryAfterSeconds / 60)} min.`,
+      { 'Retry-After': String(retryAfterSeconds) }
+    );
+  }
+};
@@ -0,0 +1,27 @@
+// Cliente com a service role (ignora o RLS) e identificação do usuário pelo JWT da requisição
+import { createClient, type SupabaseClient, type User } from 'npm:@supabase/supabase-js@2';
+import { HttpError } from './http.ts';
+
+let adminClient: SupabaseClient | null = null;
+
+export const getAdminClient = (): SupabaseClient => {
+  if (!adminClient) {
+    const url = Deno.env.get('SUPABASE_URL');
+    const serviceRoleKey = Deno.env.get('SUPABASE_SERVICE_ROLE_KEY');
+    if (!url || !serviceRoleKey) {
+      throw new Error('SUPABASE_URL e SUPABASE_SERVICE_ROLE_KEY são obrigatórias');
+    }
+    adminClient = createClient(url, serviceRoleKey, { auth: { persistSession: false } });
+  }
+  return adminClient;
+};
+
+// Somente usuários logados usam as funções; o user_id nunca vem do corpo da requisição
+export const getRequestUser = async (req: Request): Promise<User> => {
+  const token = req.headers.get('Authorization')?.replace(/^Bearer\s+/i, '');
+  if (!token) throw new HttpError(401, 'unauthorized', 'Entre na sua conta para usar a análise pelo servidor');
+
+  const { data, error } = await getAdminClient().auth.getUser(token);
+  if (error || !data.user) throw new HttpError(401, 'unauthorized', 'Sessão inválida ou expirada. Entre novamente.');
+  return data.user;
+};
@@ -0,0 +1,230 @@
+// Provedores de IA chamados pelo servidor. O modelo pedido pelo app define o
+// provedor; só modelos da lista permitida são aceitos, para a chave do projeto
+// não ser usada com modelos caros.
+import { HttpError } from './http.ts';
+
+export type UpstreamId = 'openai' | 'claude' | 'gemini' | 'mock';
+
+export interface UpstreamInput {
+  model: string;
+  apiKey: string;
+  base64: string;
+  mimeType: string;
+  fileName: string;
+  isPDF: boolean;
+  prompt: string;
+}
+
+interface UpstreamProvider {
+  id: UpstreamId;
+  displayName: string;
+  projectKeyEnv?: string; // Secret com a chave do projeto, usada quando o usuário não tem chave própria
+  buildRequest: (input: UpstreamInput) => { url: string; init: RequestInit };
+  parseResponse: (data: unknown) => string | undefined;
+  detectContentFilter: (data: unknown) => string | undefined;
+}
+
+interface ChatCompletionsResponse {
+  choices?: { message?: { content?: string; refusal?: string }; finish_reason?: string }[];
+}
+
+interface MessagesResponse {
+  content?: { type?: string; text?: string }[];
+  stop_reason?: string;
+}
+
+interface GenerateContentResponse {
+  candidates?: { content?: { parts?: { text?: string }[] }; finishReason?: string }[];
+  promptFeedback?: { blockReason?: string };
+}
+
+const UPSTREAM_TIMEOUT_MS = 90_000;
+
+// Os mesmos modelos oferecidos pelo provedor "Servidor" do app
+const DEFAULT_ALLOWED_MODELS = ['gpt-4o', 'gpt-4o-mini', 'claude-sonnet-4-5', 'claude-haiku-4-5', 'gemini-2.5-flash', 'gemini-2.5-pro'];
+
+// Resultado fixo do provedor de teste, no mesmo formato pedido pelo prompt
+const MOCK_RESULT = {
+  beneficiary: 'Companhia de Teste S.A.',
+  amount: 123.45,
+  dueDate: '2026-12-10',
+  category: 'Energia',
+  confidence: 0.9,
+  summary: 'Resultado do provedor de teste (AI_ALLOW_MOCK_PROVIDER)',
+  barcode: '',
+  fields: {
+    beneficiary: { confidence: 0.95 },
+    amount: { confidence: 0.9 },
+    dueDate: { confidence: 0.85 },
+    category: { confidence: 0.6 },
+  },
+};
+
+const upstreamProviders: Record<UpstreamId, UpstreamProvider> = {
+  openai: {
+    id: 'openai',
+    displayName: 'OpenAI',
+    projectKeyEnv: 'OPENAI_API_KEY',
+    buildRequest: ({ model, apiKey, base64, mimeType, fileName, isPDF, prompt }) => ({
+      url: 'https://api.openai.com/v1/chat/completions',
+      init: {
+        method: 'POST',
+        headers: { 'Authorization': `Bearer ${apiKey}`, 'Content-Type': 'application/json' },
+        body: JSON.stringify({
+          model,
+          messages: [{
+            role: 'user',
+            content: isPDF
+              ? [
+                  { type: 'file', file: { filename: fileName, file_data: `data:application/pdf;base64,${base64}` } },
+                  { type: 'text', text: prompt },
+                ]
+              : [
+                  { type: 'text', text: prompt },
+                  { type: 'image_url', image_url: { url: `data:${mimeType};base64,${base64}` } },
+                ],
+          }],
+          max_tokens: 1000,
+          temperature: 0.1,
+          response_format: { type: 'json_object' },
+        }),
+      },
+    }),
+    parseResponse: (data) => (data as ChatCompletionsResponse | null)?.choices?.[0]?.message?.content,
+    detectContentFilter: (data) => {
+      const choice = (data as ChatCompletionsResponse | null)?.choices?.[0];
+      return choice?.message?.refusal || (choice?.finish_reason === 'content_filter' ? 'content_filter' : undefined);
+    },
+  },
+  claude: {
+    id: 'claude',
+    displayName: 'Anthropic Claude',
+    projectKeyEnv: 'ANTHROPIC_API_KEY',
+    buildRequest: ({ model, apiKey, base64, mimeType, isPDF, prompt }) => ({
+      url: 'https://api.anthropic.com/v1/messages',
+      init: {
+        method: 'POST',
+        headers: { 'x-api-key': apiKey, 'anthropic-version': '2023-06-01', 'Content-Type': 'application/json' },
+        body: JSON.stringify({
+          model,
+          max_tokens: 1000,
+          messages: [{
+            role: 'user',
+            content: [
+              isPDF
+                ? { type: 'document', source: { type: 'base64', media_type: 'application/pdf', data: base64 } }
+                : { type: 'image', source: { type: 'base64', media_type: mimeType, data: base64 } },
+              { type: 'text', text: prompt },
+            ],
+          }],
+        }),
+      },
+    }),
+    parseResponse: (data) => (data as MessagesResponse | null)?.content?.find((block) => block.type === 'text')?.text,
+    detectContentFilter: (data) => ((data as MessagesResponse | null)?.stop_reason === 'refusal' ? 'refusal' : undefined),
+  },
+  gemini: {
+    id: 'gemini',
+    displayName: 'Google Gemini',
+    projectKeyEnv: 'GEMINI_API_KEY',
+    buildRequest: ({ model, apiKey, base64, mimeType, isPDF, prompt }) => ({
+      url: `https://generativelanguage.googleapis.com/v1beta/models/${model}:generateContent`,
+      init: {
+        method: 'POST',
+        headers: { 'x-goog-api-key': apiKey, 'Content-Type': 'application/json' },
+        body: JSON.stringify({
+          contents: [{ parts: [{ text: prompt }, { inline_data: { mime_type: isPDF ? 'application/pdf' : mimeType, data: base64 } }] }],
+          generationConfig: { temperature: 0.1, maxOutputTokens: 1000, responseMimeType: 'application/json' },
+        }),
+      },
+    }),
+    parseResponse: (data) => (data as GenerateContentResponse | null)?.candidates?.[0]?.content?.parts?.[0]?.text,
+    detectContentFilter: (data) => {
+      const response = data as GenerateContentResponse | null;
+      const finishReason = response?.candidates?.[0]?.finishReason;
+      return response?.promptFeedback?.blockReason
+        ?? (finishReason && ['SAFETY', 'PROHIBITED_CONTENT', 'BLOCKLIST'].includes(finishReason) ? finishReason : undefined);
+    },
+  },
+  // Sem rede nem chave: para testar com `supabase functions serve`
+  mock: {
+    id: 'mock',
+    displayName: 'Provedor de teste',
+    buildRequest: () => {
+      throw new Error('O provedor de teste não faz requisições');
+    },
+    parseResponse: () => undefined,
+    detectContentFilter: () => undefined,
+  },
+};
+
+export const isMockEnabled = (): boolean => Deno.env.get('AI_ALLOW_MOCK_PROVIDER') === 'true';
+
+const getAllowedModels = (): string[] => {
+  const configured = Deno.env.get('AI_ALLOWED_MODELS')?.split(',').map((model) => model.trim()).filter(Boolean);
+  return configured?.length ? configured : DEFAULT_ALLOWED_MODELS;
+};
+
+// Provedor do modelo pedido, ou erro 400 quando o modelo não é permitido
+export const resolveUpstream = (model: string): UpstreamProvider => {
+  if (model === 'mock' && isMockEnabled()) return upstreamProviders.mock;
+  if (!getAllowedModels().includes(model)) {
+    throw new HttpError(400, 'model_not_allowed', `Modelo ${model} não disponível no servidor`);
+  }
+  if (/^(gpt-|o\d)/.test(model)) return upstreamProviders.openai;
+  if (model.startsWith('claude-')) return upstreamProviders.claude;
+  if (model.startsWith('gemini-')) return upstreamProviders.gemini;
+  throw new HttpError(400, 'model_not_allowed', `Não há provedor para o modelo ${model}`);
+};
+
+export const getUpstream = (id: string): UpstreamProvider | undefined =>
+  Object.prototype.hasOwnProperty.call(upstreamProviders, id) ? upstreamProviders[id as UpstreamId] : undefined;
+
+export const getProjectKey = (provider: UpstreamProvider): string | undefined =>
+  provider.projectKeyEnv ? Deno.env.get(provider.projectKeyEnv) || undefined : undefined;
+
+const getErrorMessage = (data: unknown): string | undefined =>
+  (data as { error?: { message?: string } } | null)?.error?.message;
+
+/**
+ * Envia o arquivo ao provedor e retorna o texto gerado pelo modelo. Falhas do
+ * provedor viram HttpError com o status equivalente para o app (401 chave
+ * recusada, 429 limite do provedor, 422 filtro de conteúdo, 502 demais falhas).
+ */
+export const callUpstream = async (provider: UpstreamProvider, input: UpstreamInput): Promise<string> => {
+  if (provider.id === 'mock') {
+    return Deno.env.get('AI_MOCK_RESPONSE') || JSON.stringify(MOCK_RESULT);
+  }
+
+  const { url, init } = provider.buildRequest(input);
+  let response: Response;
+  try {
+    response = await fetch(url, { ...init, signal: AbortSignal.timeout(UPSTREAM_TIMEOUT_MS) });
+  } catch (error) {
+    console.error(`${provider.displayName}: Falha na requisição:`, error);
+    throw new HttpError(502, 'upstream_unavailable', `Não foi possível conectar à API ${provider.displayName}`);
+  }
+
+  const data: unknown = await response.json().catch(() => null);
+  if (!response.ok) {
+    const detail = getErrorMessage(data) || `HTTP ${response.status}`;
+    console.error(`${provider.displayName}: HTTP ${response.status}:`, detail);
+    if (response.status === 401 || response.status === 403) {
+      throw new HttpError(401, 'upstream_auth', `A API ${provider.displayName} recusou a chave: ${detail}`);
+    }
+    if (response.status === 429) {
+      const retryAfter = response.headers.get('Retry-After');
+      throw new HttpError(429, 'upstream_rate_limit', `Limite da API ${provider.displayName} atingido: ${detail}`, retryAfter ? { 'Retry-After': retryAfter } : undefined);
+    }
+    throw new HttpError(502, 'upstream_error', `Erro da API ${provider.displayName}: ${detail}`);
+  }
+
+  const blockReason = provider.detectContentFilter(data);
+  if (blockReason) {
+    throw new HttpError(422, 'content_filter', `A API ${provider.displayName} recusou o arquivo pelo filtro de conteúdo (${blockReason})`);
+  }
+
+  const content = provider.parseResponse(data);
+  if (!content) throw new HttpError(502, 'empty_response', `Resposta vazia da API ${provider.displayName}`);
+  return content;
+};
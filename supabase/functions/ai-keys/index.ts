@@ -0,0 +1,68 @@
+// Chaves de API próprias do usuário, guardadas criptografadas para a análise pelo servidor.
+// GET lista os provedores com chave (só os 4 últimos caracteres), PUT { provider, apiKey }
+// grava e DELETE ?provider= remove. A chave nunca volta ao app depois de salva.
+import { encryptSecret } from '../_shared/crypto.ts';
+import { HttpError, jsonResponse, serveJson } from '../_shared/http.ts';
+import { getAdminClient, getRequestUser } from '../_shared/supabase.ts';
+import { getProjectKey, getUpstream } from '../_shared/upstream.ts';
+
+const KEY_PROVIDERS = ['openai', 'claude', 'gemini'];
+
+const requireProvider = (provider: unknown): string => {
+  if (typeof provider !== 'string' || !KEY_PROVIDERS.includes(provider)) {
+    throw new HttpError(400, 'invalid_provider', `Provedor inválido. Use: ${KEY_PROVIDERS.join(', ')}`);
+  }
+  return provider;
+};
+
+serveJson(async (req) => {
+  const user = await getRequestUser(req);
+  const admin = getAdminClient();
+
+  if (req.method === 'GET') {
+    const { data, error } = await admin
+      .from('user_ai_keys')
+      .select('provider, key_hint, updated_at')
+      .eq('user_id', user.id);
+    if (error) throw new Error(error.message);
+    return jsonResponse({
+      keys: (data ?? []).map((row) => ({ provider: row.provider, hint: row.key_hint, updatedAt: row.updated_at })),
+      // Provedores que funcionam mesmo sem chave própria
+      projectKeys: KEY_PROVIDERS.filter((id) => {
+        const upstream = getUpstream(id);
+        return upstream ? !!getProjectKey(upstream) : false;
+      }),
+    });
+  }
+
+  if (req.method === 'PUT') {
+    const body = await req.json().catch(() => null);
+    const provider = requireProvider(body?.provider);
+    const apiKey = typeof body?.apiKey === 'string' ? body.apiKey.trim() : '';
+    if (apiKey.length < 10 || apiKey.length > 500) throw new HttpError(400, 'invalid_api_key', 'Chave da API inválida');
+
+    const { ciphertext, iv } = await encryptSecret(apiKey, user.id);
+    const { error } = await admin.from('user_ai_keys').upsert(
+      {
+        user_id: user.id,
+        provider,
+        encrypted_key: ciphertext,
+        iv,
+        key_hint: apiKey.slice(-4),
+        updated_at: new Date().toISOString(),
+      },
+      { onConflict: 'user_id,provider' }
+    );
+    if (error) throw new Error(error.message);
+    return jsonResponse({ provider, hint: apiKey.slice(-4) });
+  }
+
+  if (req.method === 'DELETE') {
+    const provider = requireProvider(new URL(req.url).searchParams.get('provider'));
+    const { error } = await admin.from('user_ai_keys').delete().eq('user_id', user.id).eq('provider', provider);
+    if (error) throw new Error(error.message);
+    return jsonResponse({ provider, deleted: true });
+  }
+
+  throw new HttpError(405, 'method_not_allowed', 'Use GET, PUT ou DELETE');
+});
@@ -0,0 +1,106 @@
+// Análise de boletos pelo servidor: recebe o arquivo do app (multipart: file, model, promptVersion),
+// usa a chave do usuário guardada criptografada ou a chave do projeto e retorna o
+// BillAnalysisResult, validado de novo pelo app com o mesmo schema da análise local.
+import { encodeBase64 } from 'jsr:@std/encoding@1/base64';
+import { decryptSecret } from '../_shared/crypto.ts';
+import { HttpError, jsonResponse, serveJson } from '../_shared/http.ts';
+import { ANALYSIS_PROMPT_VERSION, getAnalysisPrompt } from '../_shared/prompt.ts';
+import { consumeAnalysisQuota } from '../_shared/rate-limit.ts';
+import { getAdminClient, getRequestUser } from '../_shared/supabase.ts';
+import { callUpstream, getProjectKey, resolveUpstream } from '../_shared/upstream.ts';
+
+// Mesmo limite do upload no app
+const MAX_FILE_BYTES = 10 * 1024 * 1024;
+
+// Chave própria do usuário para o provedor, se houver
+const getUserKey = async (userId: string, provider: string): Promise<string | null> => {
+  const { data, error } = await getAdminClient()
+    .from('user_ai_keys')
+    .select('encrypted_key, iv')
+    .eq('user_id', userId)
+    .eq('provider', provider)
+    .maybeSingle();
+  if (error) throw new Error(`Erro ao ler a chave do usuário: ${error.message}`);
+  if (!data) return null;
+  return decryptSecret({ ciphertext: data.encrypted_key, iv: data.iv }, userId);
+};
+
+// Nomes das categorias cadastradas pelo usuário, para o prompt
+const getUserCategoryNames = async (userId: string): Promise<string[]> => {
+  const { data, error } = await getAdminClient()
+    .from('categories')
+    .select('name')
+    .eq('user_id', userId)
+    .order('created_at', { ascending: true })
+    .order('name', { ascending: true });
+  if (error) throw new Error(`Erro ao ler as categorias do usuário: ${error.message}`);
+  return (data ?? []).map((row: { name: string }) => row.name);
+};
+
+// Os modelos às vezes envolvem o JSON em texto ou blocos de código
+const extractJsonObject = (content: string): Record<string, unknown> => {
+  const match = content.replace(/```json|```/g, '').match(/\{[\s\S]*\}/);
+  try {
+    const parsed: unknown = match ? JSON.parse(match[0]) : null;
+    if (parsed && typeof parsed === 'object' && !Array.isArray(parsed)) return parsed as Record<string, unknown>;
+  } catch {
+    // Tratado abaixo
+  }
+  throw new HttpError(502, 'parse_error', `A IA não retornou um JSON válido. Resposta: ${content.substring(0, 200)}`);
+};
+
+serveJson(async (req) => {
+  if (req.method !== 'POST') throw new HttpError(405, 'method_not_allowed', 'Use POST');
+
+  const user = await getRequestUser(req);
+  const form = await req.formData().catch(() => null);
+  const file = form?.get('file');
+  const model = String(form?.get('model') ?? '').trim();
+  if (!(file instanceof File)) throw new HttpError(400, 'invalid_request', 'Envie o arquivo do boleto no campo "file"');
+  if (!model) throw new HttpError(400, 'invalid_request', 'Informe o modelo no campo "model"');
+  // O app valida e guarda em cache a resposta conforme a versão do prompt dele
+  const promptVersion = Number(form?.get('promptVersion'));
+  if (promptVersion !== ANALYSIS_PROMPT_VERSION) {
+    throw new HttpError(
+      409,
+      'prompt_version_mismatch',
+      `O app usa o prompt v${promptVersion || '?'} e o servidor, o v${ANALYSIS_PROMPT_VERSION}. Atualize a página ou publique a função analyze-bill de novo.`
+    );
+  }
+  if (!file.type.startsWith('image/') && file.type !== 'application/pdf') {
+    throw new HttpError(415, 'unsupported_file', 'Apenas arquivos de imagem ou PDF são suportados para análise.');
+  }
+  if (file.size > MAX_FILE_BYTES) throw new HttpError(413, 'file_too_large', 'O arquivo deve ter no máximo 10MB');
+
+  const upstream = resolveUpstream(model);
+  let apiKey = '';
+  let keySource: 'user' | 'project' | 'none' = 'none';
+  if (upstream.id !== 'mock') {
+    const userKey = await getUserKey(user.id, upstream.id);
+    const projectKey = getProjectKey(upstream);
+    apiKey = userKey ?? projectKey ?? '';
+    keySource = userKey ? 'user' : 'project';
+    if (!apiKey) {
+      throw new HttpError(400, 'missing_api_key', `Nenhuma chave da API ${upstream.displayName} no servidor. Salve sua chave em Configurações.`);
+    }
+  }
+
+  const isPDF = file.type === 'application/pdf';
+  const categoryNames = await getUserCategoryNames(user.id);
+
+  // Depois daqui as falhas saem como upstream_*, empty_response ou parse_error, que o app
+  // não repete: cada nova tentativa contaria outra análise no limite
+  await consumeAnalysisQuota(user.id, upstream.id, model);
+  console.log(`analyze-bill: ${user.id} ${upstream.id}/${model} (chave ${keySource})`, isPDF ? '(PDF)' : '(Imagem)');
+  const content = await callUpstream(upstream, {
+    model,
+    apiKey,
+    base64: encodeBase64(new Uint8Array(await file.arrayBuffer())),
+    mimeType: file.type,
+    fileName: file.name,
+    isPDF,
+    prompt: getAnalysisPrompt(isPDF, categoryNames),
+  });
+
+  return jsonResponse({ result: extractJsonObject(content), provider: upstream.id, model, keySource, promptVersion });
+});
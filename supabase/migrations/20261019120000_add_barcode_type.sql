@@ -0,0 +1,21 @@
+-- Normalized barcode storage: bills.barcode keeps the canonical 44-digit barcode
+-- and barcode_type records whether it is a bank boleto or an arrecadação slip.
+-- The typed line (47/48 digits) is derived from it for display.
+alter table public.bills
+  add column if not exists barcode_type text
+  check (barcode_type in ('bancario','arrecadacao'));
+
+-- Backfill: convert stored typed lines into the 44-digit barcode
+update public.bills
+set barcode = substr(barcode, 1, 4) || substr(barcode, 33, 1) || substr(barcode, 34, 14)
+  || substr(barcode, 5, 5) || substr(barcode, 11, 10) || substr(barcode, 22, 10)
+where barcode ~ '^[0-9]{47}$';
+
+update public.bills
+set barcode = substr(barcode, 1, 11) || substr(barcode, 13, 11)
+  || substr(barcode, 25, 11) || substr(barcode, 37, 11)
+where barcode ~ '^[0-9]{48}$';
+
+update public.bills
+set barcode_type = case when left(barcode, 1) = '8' then 'arrecadacao' else 'bancario' end
+where barcode ~ '^[0-9]{44}$' and barcode_type is null;
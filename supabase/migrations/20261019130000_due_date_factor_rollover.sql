@@ -0,0 +1,25 @@
+-- Due-date factor with the FEBRABAN rollover: after factor 9999 (2025-02-21)
+-- the factor restarts at 1000, which now means 2025-02-22. The same factor
+-- repeats every 9000 days, so the date is picked inside a window around the
+-- reference date (up to 3000 days in the past). Mirrors src/lib/boleto/due-date-factor.ts.
+create or replace function public.boleto_due_date_from_factor(factor integer, reference date default current_date)
+returns date
+language sql
+immutable
+as $$
+  select case
+    when factor is null or factor = 0 then null
+    else date '1997-10-07' + factor
+      + 9000 * greatest(0, ceil(((reference - 3000) - (date '1997-10-07' + factor))::numeric / 9000))::integer
+  end;
+$$;
+
+-- Backfill: bank boletos entered with only a barcode were saved with the
+-- insertion day as due_date. Derive the real due date from the barcode factor.
+update public.bills
+set due_date = public.boleto_due_date_from_factor(substr(barcode, 6, 4)::integer, created_at::date)
+where barcode_type = 'bancario'
+  and barcode ~ '^[0-9]{44}$'
+  and substr(barcode, 6, 4) <> '0000'
+  and due_date = created_at::date
+  and due_date <> public.boleto_due_date_from_factor(substr(barcode, 6, 4)::integer, created_at::date);
@@ -0,0 +1,13 @@
+-- Issuing bank (COMPE code) of bank boletos, taken from the first three digits
+-- of the barcode. Names, ISPB and colours live in src/lib/banks.ts.
+alter table public.bills
+  add column if not exists issuer_bank text
+  check (issuer_bank ~ '^[0-9]{3}$');
+
+update public.bills
+set issuer_bank = left(barcode, 3)
+where barcode_type = 'bancario'
+  and barcode ~ '^[0-9]{44}$'
+  and issuer_bank is null;
+
+create index if not exists bills_user_issuer_bank_idx on public.bills(user_id, issuer_bank);
@@ -0,0 +1,5 @@
+-- PIX copia e cola (BR Code) of hybrid boletos. The payload is validated
+-- (TLV structure and CRC16) in src/lib/pix.ts before being stored.
+alter table public.bills
+  add column if not exists pix_payload text
+  check (pix_payload is null or (pix_payload like '000201%' and length(pix_payload) <= 512));
@@ -0,0 +1,60 @@
+-- The same boleto (44-digit barcode) can only be stored once per user.
+-- Existing duplicates are not touched: every copy but the paid one (or else the
+-- oldest) is flagged with barcode_conflict and left out of the unique index
+-- until the user picks which copy to keep in the app.
+alter table public.bills
+  add column if not exists barcode_conflict boolean not null default false;
+
+with ranked as (
+  select
+    id,
+    row_number() over (
+      partition by user_id, barcode
+      order by (status = 'paid') desc, created_at
+    ) as position
+  from public.bills
+  where barcode is not null
+)
+update public.bills b
+set barcode_conflict = true
+from ranked
+where ranked.id = b.id
+  and ranked.position > 1;
+
+create unique index if not exists bills_user_barcode_key
+  on public.bills(user_id, barcode)
+  where barcode is not null and not barcode_conflict;
+
+-- Resolves a conflict in one transaction: keeps p_keep_id, deletes the other
+-- bills of the same user with its barcode and clears the flag. Runs with the
+-- caller's permissions, so RLS limits it to the caller's own bills.
+create or replace function public.resolve_barcode_conflict(p_keep_id uuid)
+returns void
+language plpgsql
+security invoker
+set search_path = public
+as $$
+declare
+  kept public.bills%rowtype;
+begin
+  select * into kept
+  from public.bills
+  where id = p_keep_id and user_id = auth.uid()
+  for update;
+
+  if not found or kept.barcode is null then
+    raise exception 'Conta não encontrada' using errcode = 'P0002';
+  end if;
+
+  delete from public.bills
+  where user_id = kept.user_id
+    and barcode = kept.barcode
+    and id <> kept.id;
+
+  update public.bills
+  set barcode_conflict = false
+  where id = kept.id;
+end;
+$$;
+
+grant execute on function public.resolve_barcode_conflict(uuid) to authenticated;
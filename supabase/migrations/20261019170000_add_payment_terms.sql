@@ -0,0 +1,7 @@
+-- Late payment and early payment terms printed on the boleto. The amount due
+-- on a given day is computed in src/lib/late-fees.ts.
+alter table public.bills
+  add column if not exists fine_percent numeric(5,2) check (fine_percent >= 0 and fine_percent <= 100),
+  add column if not exists daily_interest_percent numeric(7,4) check (daily_interest_percent >= 0 and daily_interest_percent <= 100),
+  add column if not exists discount_amount numeric(12,2) check (discount_amount >= 0),
+  add column if not exists discount_until date;
@@ -0,0 +1,10 @@
+-- Installments of a carnê (IPTU, IPVA, school fees...) saved together from one
+-- PDF. All rows of a batch share installment_group_id.
+alter table public.bills
+  add column if not exists installment_group_id uuid,
+  add column if not exists installment_number integer check (installment_number > 0),
+  add column if not exists installment_total integer check (installment_total > 0);
+
+create index if not exists bills_installment_group_idx
+  on public.bills (user_id, installment_group_id)
+  where installment_group_id is not null;
@@ -0,0 +1,40 @@
+-- Cache of AI analyses shared across the user's devices. Rows are keyed by the
+-- SHA-256 of the file plus provider, model and prompt version (cache_key) and
+-- are ignored by the app once expires_at has passed.
+create table if not exists public.analysis_cache (
+  id uuid primary key default gen_random_uuid(),
+  user_id uuid not null references auth.users(id) on delete cascade,
+  cache_key text not null,
+  file_hash text not null,
+  provider text not null,
+  model text not null,
+  prompt_version integer not null,
+  result jsonb not null,
+  created_at timestamptz not null default now(),
+  expires_at timestamptz not null,
+  unique (user_id, cache_key)
+);
+
+alter table public.analysis_cache enable row level security;
+
+drop policy if exists "Users can view their own cached analyses" on public.analysis_cache;
+create policy "Users can view their own cached analyses"
+  on public.analysis_cache for select
+  using (auth.uid() = user_id);
+
+drop policy if exists "Users can insert their own cached analyses" on public.analysis_cache;
+create policy "Users can insert their own cached analyses"
+  on public.analysis_cache for insert
+  with check (auth.uid() = user_id);
+
+drop policy if exists "Users can update their own cached analyses" on public.analysis_cache;
+create policy "Users can update their own cached analyses"
+  on public.analysis_cache for update
+  using (auth.uid() = user_id);
+
+drop policy if exists "Users can delete their own cached analyses" on public.analysis_cache;
+create policy "Users can delete their own cached analyses"
+  on public.analysis_cache for delete
+  using (auth.uid() = user_id);
+
+create index if not exists analysis_cache_user_file_idx on public.analysis_cache(user_id, file_hash);
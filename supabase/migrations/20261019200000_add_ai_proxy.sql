@@ -0,0 +1,73 @@
+-- Server-side AI analysis (supabase/functions/analyze-bill). API keys saved by
+-- the user are encrypted by the ai-keys function (AES-GCM, key in the
+-- AI_KEYS_ENCRYPTION_KEY secret) and never leave the server again: the table
+-- has RLS enabled and no policies, so only the service role can read it.
+create table if not exists public.user_ai_keys (
+  user_id uuid not null references auth.users(id) on delete cascade,
+  provider text not null,
+  encrypted_key text not null,
+  iv text not null,
+  key_hint text not null,
+  updated_at timestamptz not null default now(),
+  primary key (user_id, provider)
+);
+
+alter table public.user_ai_keys enable row level security;
+
+-- One row per analysis sent to a provider, used for the per-user rate limit
+create table if not exists public.ai_usage (
+  id bigint generated always as identity primary key,
+  user_id uuid not null references auth.users(id) on delete cascade,
+  provider text not null,
+  model text not null,
+  created_at timestamptz not null default now()
+);
+
+alter table public.ai_usage enable row level security;
+
+drop policy if exists "Users can view their own AI usage" on public.ai_usage;
+create policy "Users can view their own AI usage"
+  on public.ai_usage for select
+  using (auth.uid() = user_id);
+
+create index if not exists ai_usage_user_created_idx on public.ai_usage(user_id, created_at desc);
+
+-- Records one analysis when the user is under p_limit requests in the window.
+-- Returns 0 when recorded, otherwise the seconds until a slot frees up.
+create or replace function public.consume_ai_quota(
+  p_user_id uuid,
+  p_provider text,
+  p_model text,
+  p_limit integer,
+  p_window_seconds integer
+)
+returns integer
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_window interval := make_interval(secs => p_window_seconds);
+  v_count integer;
+  v_oldest timestamptz;
+begin
+  -- Concurrent requests of the same user are counted one at a time
+  perform pg_advisory_xact_lock(hashtext('ai_usage:' || p_user_id::text));
+
+  select count(*), min(created_at)
+    into v_count, v_oldest
+    from public.ai_usage
+   where user_id = p_user_id
+     and created_at > now() - v_window;
+
+  if v_count >= p_limit then
+    return greatest(1, ceil(extract(epoch from (v_oldest + v_window - now())))::integer);
+  end if;
+
+  insert into public.ai_usage (user_id, provider, model) values (p_user_id, p_provider, p_model);
+  return 0;
+end;
+$$;
+
+revoke execute on function public.consume_ai_quota(uuid, text, text, integer, integer) from public, anon, authenticated;
+grant execute on function public.consume_ai_quota(uuid, text, text, integer, integer) to service_role;
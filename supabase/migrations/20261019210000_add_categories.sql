@@ -0,0 +1,72 @@
+-- Per-user bill categories. They feed the AI prompt, the charts, the category
+-- filter and the manual form; keywords drive the local category suggestion.
+-- bills.category keeps storing the category name.
+create table if not exists public.categories (
+  id uuid primary key default gen_random_uuid(),
+  user_id uuid not null references auth.users(id) on delete cascade,
+  name text not null check (length(trim(name)) > 0),
+  color text not null default 'hsl(0, 0%, 50%)',
+  icon text not null default 'tag',
+  parent_id uuid references public.categories(id) on delete set null,
+  keywords text[] not null default '{}',
+  created_at timestamptz not null default now(),
+  unique (user_id, name)
+);
+
+alter table public.categories enable row level security;
+
+drop policy if exists "Users can view their own categories" on public.categories;
+create policy "Users can view their own categories"
+  on public.categories for select
+  using (auth.uid() = user_id);
+
+drop policy if exists "Users can insert their own categories" on public.categories;
+create policy "Users can insert their own categories"
+  on public.categories for insert
+  with check (auth.uid() = user_id);
+
+drop policy if exists "Users can update their own categories" on public.categories;
+create policy "Users can update their own categories"
+  on public.categories for update
+  using (auth.uid() = user_id);
+
+drop policy if exists "Users can delete their own categories" on public.categories;
+create policy "Users can delete their own categories"
+  on public.categories for delete
+  using (auth.uid() = user_id);
+
+create index if not exists categories_user_id_idx on public.categories(user_id);
+create index if not exists categories_parent_id_idx on public.categories(parent_id);
+
+-- "Importado" was the manual form's fallback and never a real category
+update public.bills set category = 'Outros' where category = 'Importado';
+
+-- Every user with bills gets the default categories plus the ones already used
+-- in their bills. Colours, icons and keywords mirror DEFAULT_CATEGORIES in
+-- src/lib/categories.ts; unknown categories get the neutral grey.
+with defaults (name, color, icon, keywords) as (
+  values
+    ('Aluguel', 'hsl(300, 70%, 50%)', 'home', array['aluguel', 'locação', 'imobiliária']),
+    ('Condomínio', 'hsl(280, 65%, 60%)', 'building', array['condomínio']),
+    ('Energia', 'hsl(45, 100%, 51%)', 'zap', array['energia', 'elétrica', 'elétrico', 'distribuidora']),
+    ('Água', 'hsl(200, 100%, 50%)', 'droplet', array['saneamento', 'água', 'esgoto']),
+    ('Gás', 'hsl(340, 75%, 50%)', 'flame', array['gás', 'comgás']),
+    ('Internet', 'hsl(120, 60%, 50%)', 'wifi', array['internet', 'telecom', 'fibra', 'banda larga']),
+    ('Mercado', 'hsl(15, 85%, 55%)', 'shopping-cart', array['supermercado', 'mercado', 'atacado', 'atacadão', 'atacadista']),
+    ('Impostos', 'hsl(220, 15%, 40%)', 'landmark', array['imposto', 'iptu', 'ipva', 'darf', 'tributo', 'receita federal']),
+    ('Outros', 'hsl(0, 0%, 50%)', 'tag', array[]::text[])
+),
+users_with_bills as (
+  select distinct user_id from public.bills
+)
+insert into public.categories (user_id, name, color, icon, keywords)
+select u.user_id, d.name, d.color, d.icon, d.keywords
+from users_with_bills u
+cross join defaults d
+union
+select distinct b.user_id, trim(b.category), 'hsl(0, 0%, 50%)', 'tag', '{}'::text[]
+from public.bills b
+where b.category is not null
+  and trim(b.category) <> ''
+  and trim(b.category) not in (select name from defaults)
+on conflict (user_id, name) do nothing;
@@ -0,0 +1,100 @@
+-- Renaming or deleting a category also rewrites bills.category, which stores
+-- the name. Each operation runs as one function so both tables change in the
+-- same transaction. They run with the caller's permissions, so RLS limits them
+-- to the caller's own rows. 'Outros' is the fallback and cannot be renamed or
+-- deleted.
+
+-- Saves every field of the category and, when the name changes, moves its bills
+-- to the new name. Returns whether it was renamed.
+create or replace function public.update_category(
+  p_id uuid,
+  p_name text,
+  p_color text,
+  p_icon text,
+  p_parent_id uuid,
+  p_keywords text[]
+)
+returns boolean
+language plpgsql
+security invoker
+set search_path = public
+as $$
+declare
+  existing public.categories%rowtype;
+  new_name text := trim(p_name);
+begin
+  select * into existing
+  from public.categories
+  where id = p_id and user_id = auth.uid()
+  for update;
+
+  if not found then
+    raise exception 'Categoria não encontrada' using errcode = 'P0002';
+  end if;
+
+  if existing.name = 'Outros' and new_name <> 'Outros' then
+    raise exception 'A categoria "Outros" não pode ser renomeada.' using errcode = 'P0001';
+  end if;
+
+  update public.categories
+  set name = new_name,
+      color = p_color,
+      icon = p_icon,
+      parent_id = p_parent_id,
+      keywords = coalesce(p_keywords, '{}')
+  where id = existing.id;
+
+  if new_name = existing.name then
+    return false;
+  end if;
+
+  update public.bills
+  set category = new_name
+  where user_id = existing.user_id
+    and category = existing.name;
+
+  return true;
+end;
+$$;
+
+-- Moves the bills to the parent category (or 'Outros') and deletes the
+-- category. Subcategories lose their parent (on delete set null).
+create or replace function public.delete_category(p_id uuid)
+returns void
+language plpgsql
+security invoker
+set search_path = public
+as $$
+declare
+  existing public.categories%rowtype;
+  target text;
+begin
+  select * into existing
+  from public.categories
+  where id = p_id and user_id = auth.uid()
+  for update;
+
+  if not found then
+    raise exception 'Categoria não encontrada' using errcode = 'P0002';
+  end if;
+
+  if existing.name = 'Outros' then
+    raise exception 'A categoria "Outros" não pode ser excluída.' using errcode = 'P0001';
+  end if;
+
+  select name into target
+  from public.categories
+  where id = existing.parent_id;
+
+  update public.bills
+  set category = coalesce(target, 'Outros')
+  where user_id = existing.user_id
+    and category = existing.name;
+
+  delete from public.categories
+  where id = existing.id;
+end;
+$$;
+
+grant execute on function public.update_category(uuid, text, text, text, uuid, text[]) to authenticated;
+grant execute on function public.delete_category(uuid) to authenticated;